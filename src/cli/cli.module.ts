@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { GeminiModule } from '../gemini';
+import { embeddingProviderFactory } from '../lancedb/embedding';
+import { queryClassifierFactory } from '../lancedb/classifiers';
+import { textGenerationProviderFactory } from '../lancedb/generation';
+import { EmbeddingService } from '../lancedb/embedding.service';
+import { LanceDBService } from '../lancedb/lancedb.service';
+import { EmbeddingMigrationService } from '../lancedb/embedding-migration.service';
+import { ConsistencyService } from '../lancedb/consistency.service';
+import { RerankerService } from '../lancedb/reranker.service';
+import { CustomAspectService } from '../lancedb/custom-aspect.service';
+import { EvaluationService } from '../lancedb/evaluation.service';
+import { VideoSearchService } from '../lancedb/video-search.service';
+
+/**
+ * Module for command-line maintenance tasks
+ * Only the storage and retrieval services are loaded: no HTTP server,
+ * background indexing jobs or cleanup sweeps
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: ['.env.local', '.env'],
+    }),
+    GeminiModule,
+  ],
+  providers: [
+    embeddingProviderFactory,
+    EmbeddingService,
+    LanceDBService,
+    EmbeddingMigrationService,
+    ConsistencyService,
+    queryClassifierFactory,
+    RerankerService,
+    textGenerationProviderFactory,
+    CustomAspectService,
+    VideoSearchService,
+    EvaluationService,
+  ],
+})
+export class CliModule {}
@@ -0,0 +1,178 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { CliModule } from './cli.module';
+import { EvaluationService } from '../lancedb/evaluation.service';
+import {
+  EvaluationConfiguration,
+  EvaluationReport,
+  RetrievalMetrics,
+} from '../lancedb/interfaces';
+
+const USAGE = `Score retrieval against a golden question set (recall@k, MRR, nDCG@k)
+
+Usage:
+  pnpm evaluate --dataset <file.json> [--db <fixture dir>] [--configs <file.json>]
+                [--out <report.json>] [--cases]
+
+  --dataset   Golden questions: { "cases": [{ "videoId", "question",
+              "expectedTimestamps": ["1:05"], "expectedAspects": ["audio"] }] }
+  --db        LanceDB directory to search instead of LANCEDB_PATH
+  --configs   Configurations to compare: [{ "name": "rerank", "rerank": true }, ...]
+              (default: one run with the chat defaults)
+  --out       Also write the full report as JSON
+  --cases     Print every question's scores
+
+Retrieval runs without Gemini calls. While the server is running, use
+POST /lancedb/admin/evaluations instead.`;
+
+function formatRow(label: string, values: string[], width: number): string {
+  return label.padEnd(18) + values.map((v) => v.padStart(width)).join('');
+}
+
+function printReport(report: EvaluationReport, printCases: boolean): void {
+  const width =
+    Math.max(...report.results.map((r) => r.configuration.name.length), 8) + 2;
+  const column = (pick: (metrics: RetrievalMetrics) => number) =>
+    report.results.map((r) => pick(r.overall).toFixed(3));
+
+  console.log(
+    `\n${report.dataset}: ${report.caseCount} questions` +
+      (report.lancedbPath ? ` on ${report.lancedbPath}` : ''),
+  );
+  console.log(
+    formatRow(
+      '',
+      report.results.map((r) => r.configuration.name),
+      width,
+    ),
+  );
+  console.log(
+    formatRow(
+      'k',
+      report.results.map((r) => String(r.k)),
+      width,
+    ),
+  );
+  const rows: Array<[string, (metrics: RetrievalMetrics) => number]> = [
+    ['recall@k', (m) => m.recallAtK],
+    ['MRR', (m) => m.mrr],
+    ['nDCG@k', (m) => m.ndcgAtK],
+  ];
+  for (const [label, pick] of rows) {
+    console.log(formatRow(label, column(pick), width));
+  }
+  console.log(
+    formatRow(
+      'failed',
+      report.results.map((r) => String(r.failedCases)),
+      width,
+    ),
+  );
+
+  // Aspects scored in any run, built-in ones first
+  const aspects = new Set(
+    report.results.flatMap((r) => Object.keys(r.byAspect)),
+  );
+  for (const aspect of aspects) {
+    const metrics = report.results.map((r) => r.byAspect[aspect]);
+    console.log(
+      formatRow(
+        `${aspect} (${metrics[0]?.cases ?? 0})`,
+        metrics.map((m) =>
+          m
+            ? `${m.recallAtK.toFixed(2)}/${m.mrr.toFixed(2)}/${m.ndcgAtK.toFixed(2)}`
+            : '-',
+        ),
+        width,
+      ),
+    );
+  }
+
+  if (!printCases) {
+    return;
+  }
+  for (const result of report.results) {
+    console.log(`\n[${result.configuration.name}]`);
+    for (const c of result.cases) {
+      const scores = c.scores
+        ? `recall ${c.scores.recall.toFixed(2)}  RR ${c.scores.reciprocalRank.toFixed(2)}  nDCG ${c.scores.ndcg.toFixed(2)}`
+        : `error: ${c.error}`;
+      console.log(`${c.caseId.padEnd(12)} ${scores}  ${c.question}`);
+    }
+  }
+}
+
+async function readConfigurations(
+  path: string,
+): Promise<EvaluationConfiguration[]> {
+  const configurations = JSON.parse(await fs.readFile(path, 'utf-8'));
+  if (
+    !Array.isArray(configurations) ||
+    !configurations.every((c) => typeof c?.name === 'string' && c.name)
+  ) {
+    throw new Error(
+      `${path} must hold an array of configurations, each with a name`,
+    );
+  }
+  return configurations;
+}
+
+async function main() {
+  const logger = new Logger('Evaluate');
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      db: { type: 'string' },
+      configs: { type: 'string' },
+      out: { type: 'string' },
+      cases: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help || !values.dataset) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CliModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const evaluationService = app.get(EvaluationService);
+    const dataset = await evaluationService.loadDataset(values.dataset);
+    const configurations = values.configs
+      ? await readConfigurations(values.configs)
+      : [];
+
+    const report = await evaluationService.evaluate(
+      dataset,
+      configurations,
+      values.db,
+    );
+    printReport(report, values.cases);
+
+    if (values.out) {
+      await fs.writeFile(values.out, JSON.stringify(report, null, 2));
+      logger.log(`Report written to ${values.out}`);
+    }
+    if (report.results.some((r) => r.failedCases > 0)) {
+      logger.error('Some questions failed; run with --cases for details');
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error(error.message);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  new Logger('Evaluate').error(error.message, error.stack);
+  process.exitCode = 1;
+});
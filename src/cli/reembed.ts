@@ -0,0 +1,98 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { parseArgs } from 'util';
+import { CliModule } from './cli.module';
+import { EmbeddingMigrationService } from '../lancedb/embedding-migration.service';
+import { LanceDBService } from '../lancedb/lancedb.service';
+import { EMBEDDING_PROVIDERS } from '../lancedb/dto';
+import { EmbeddingProviderType } from '../lancedb/embedding';
+
+const USAGE = `Re-embed all indexed frames with another embedding model
+
+Usage:
+  pnpm reembed --provider <transformers|gemini|openai> [--model <name>] [--dimensions <n>]
+  pnpm reembed --resume <migrationId>
+  pnpm reembed --list
+
+Run it while the server is stopped (it refuses to run next to it), then set
+EMBEDDING_PROVIDER/EMBEDDING_MODEL to the new model before starting the server
+again. While the server is running, use POST /lancedb/admin/embedding-migrations
+instead.`;
+
+async function main() {
+  const logger = new Logger('Reembed');
+  const { values } = parseArgs({
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      dimensions: { type: 'string' },
+      resume: { type: 'string' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  const provider = values.provider as EmbeddingProviderType;
+  if (
+    values.help ||
+    (!values.list && !values.resume && !EMBEDDING_PROVIDERS.includes(provider))
+  ) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CliModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const migrationService = app.get(EmbeddingMigrationService);
+
+    if (values.list) {
+      for (const migration of await migrationService.listMigrations()) {
+        console.log(
+          `${migration.id}  ${migration.status.padEnd(9)} ${migration.progress}%  ` +
+            `${migration.target.provider}/${migration.target.model}  v${migration.version}`,
+        );
+      }
+      return;
+    }
+
+    // With the server stopped, a migration still marked running was interrupted
+    app.get(LanceDBService).assertServerStopped();
+    await migrationService.recoverInterrupted();
+
+    const migration = values.resume
+      ? await migrationService.getMigration(values.resume)
+      : await migrationService.create({
+          provider,
+          model: values.model,
+          dimensions: values.dimensions
+            ? parseInt(values.dimensions, 10)
+            : undefined,
+        });
+
+    const result = await migrationService.run(migration.id);
+
+    if (result.status !== 'completed') {
+      logger.error(
+        `Migration ${result.id} failed: ${result.error}. Resume it with: pnpm reembed --resume ${result.id}`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    logger.log(
+      `Migration ${result.id} completed. Set EMBEDDING_PROVIDER=${result.target.provider} ` +
+        `and EMBEDDING_MODEL=${result.target.model} before restarting the server`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  new Logger('Reembed').error(error.message, error.stack);
+  process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { parseArgs } from 'util';
+import { CliModule } from './cli.module';
+import { ConsistencyService } from '../lancedb/consistency.service';
+import { LanceDBService } from '../lancedb/lancedb.service';
+import { ConsistencyReport } from '../lancedb/interfaces';
+
+const USAGE = `Find and fix inconsistencies between the videos and frame tables
+
+Usage:
+  pnpm repair            # delete orphan frames and videos without frames, fix frame counts
+  pnpm repair --check    # only report (exit code 1 when inconsistent)
+
+Run it while the server is stopped: the repair refuses to run next to it.
+While the server is running, use GET /lancedb/admin/consistency and
+POST /lancedb/admin/consistency/repair instead.`;
+
+function printReport(report: ConsistencyReport): void {
+  for (const orphan of report.orphanFrames) {
+    console.log(
+      `orphan frames      ${orphan.videoId}  ${orphan.rows} rows in ${orphan.table}`,
+    );
+  }
+  for (const videoId of report.videosWithoutFrames) {
+    console.log(`video w/o frames   ${videoId}`);
+  }
+  for (const mismatch of report.frameCountMismatches) {
+    console.log(
+      `frame count        ${mismatch.videoId}  recorded ${mismatch.recorded}, stored ${mismatch.actual}`,
+    );
+  }
+}
+
+async function main() {
+  const logger = new Logger('Repair');
+  const { values } = parseArgs({
+    options: {
+      check: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CliModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const consistencyService = app.get(ConsistencyService);
+
+    if (values.check) {
+      const serverPid = app.get(LanceDBService).getServerPid();
+      if (serverPid !== null) {
+        logger.warn(
+          `The server (process ${serverPid}) is running: videos it is indexing may be reported as inconsistent`,
+        );
+      }
+
+      const report = await consistencyService.check();
+      printReport(report);
+      logger.log(
+        report.consistent
+          ? `All ${report.videoCount} videos are consistent`
+          : 'Inconsistencies found; run pnpm repair to fix them',
+      );
+      process.exitCode = report.consistent ? 0 : 1;
+      return;
+    }
+
+    const result = await consistencyService.repair();
+    if (!result.report.consistent) {
+      printReport(result.report);
+      logger.error('Some inconsistencies remain after the repair');
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  new Logger('Repair').error(error.message, error.stack);
+  process.exitCode = 1;
+});
@@ -1,2 +1,3 @@
 export * from './filters';
+export * from './storage';
 export * from './validators';
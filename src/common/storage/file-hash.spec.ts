@@ -0,0 +1,39 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { hashFile } from './file-hash';
+
+describe('hashFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'deepcap-hash-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the SHA-256 of the contents as hex', async () => {
+    const path = join(dir, 'video.mp4');
+    writeFileSync(path, 'abc');
+
+    await expect(hashFile(path)).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+
+  it('gives the same hash for the same bytes under another name', async () => {
+    const contents = Buffer.alloc(256 * 1024, 7);
+    writeFileSync(join(dir, 'a.mp4'), contents);
+    writeFileSync(join(dir, 'b.mp4'), contents);
+
+    expect(await hashFile(join(dir, 'a.mp4'))).toBe(
+      await hashFile(join(dir, 'b.mp4')),
+    );
+  });
+
+  it('rejects for a missing file', async () => {
+    await expect(hashFile(join(dir, 'missing.mp4'))).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,16 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+/**
+ * Compute the SHA-256 of a file as a hex string
+ * Streams the file so large uploads are never held in memory
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
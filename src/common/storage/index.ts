@@ -0,0 +1,3 @@
+export * from './json-file-store';
+export * from './file-hash';
+export * from './pid-lock';
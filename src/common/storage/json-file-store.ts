@@ -0,0 +1,136 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * Keys become file names, so they are limited to a safe character set
+ */
+const KEY_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Minimal persistent key/value store backed by one JSON file per record
+ * Writes go through a temp file and rename so a crash never leaves a half-written record
+ */
+export class JsonFileStore<T> {
+  private readonly logger = new Logger(JsonFileStore.name);
+  private ready: Promise<void> | null = null;
+  private readonly keyLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Read a record by key, or null if it does not exist
+   * (no record can exist for a key outside the allowed character set)
+   */
+  async read(key: string): Promise<T | null> {
+    if (!KEY_PATTERN.test(key)) {
+      return null;
+    }
+    await this.ensureDirectory();
+
+    try {
+      const raw = await fs.readFile(this.pathFor(key), 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or overwrite a record
+   * Throws for keys outside letters, digits, `_` and `-`
+   */
+  async write(key: string, value: T): Promise<void> {
+    const target = this.pathFor(key);
+    await this.ensureDirectory();
+
+    const temp = `${target}.${randomUUID()}.tmp`;
+
+    await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * Delete a record (no-op if it does not exist)
+   */
+  async delete(key: string): Promise<void> {
+    if (!KEY_PATTERN.test(key)) {
+      return;
+    }
+
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Read every record in the store
+   * Unreadable records are logged and skipped
+   */
+  async list(): Promise<T[]> {
+    await this.ensureDirectory();
+
+    const entries = await fs.readdir(this.directory);
+    const records: T[] = [];
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+
+      try {
+        const raw = await fs.readFile(join(this.directory, entry), 'utf8');
+        records.push(JSON.parse(raw) as T);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping unreadable record ${entry}: ${error.message}`,
+        );
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Run a read-modify-write of one record exclusively
+   * Tasks for the same key run one at a time, in call order
+   */
+  async withLock<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.keyLocks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.keyLocks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      // Only clear the lock if no later task queued behind this one
+      if (this.keyLocks.get(key) === current) {
+        this.keyLocks.delete(key);
+      }
+    }
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid record key: ${JSON.stringify(key)}`);
+    }
+    return join(this.directory, `${key}.json`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs
+        .mkdir(this.directory, { recursive: true })
+        .then(() => undefined);
+    }
+    return this.ready;
+  }
+}
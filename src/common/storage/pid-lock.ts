@@ -0,0 +1,55 @@
+import { mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Process holding a lock file, or null if there is none
+ * A lock left behind by a process that has exited is ignored
+ */
+export function readPidLock(lockPath: string): number | null {
+  let pid: number;
+
+  try {
+    pid = parseInt(readFileSync(lockPath, 'utf8'), 10);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return null;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error) {
+    // EPERM: the process is alive but owned by another user
+    return error.code === 'EPERM' ? pid : null;
+  }
+}
+
+/**
+ * Record the current process in a lock file
+ * Throws if another live process holds it
+ */
+export function acquirePidLock(lockPath: string): void {
+  const holder = readPidLock(lockPath);
+
+  if (holder !== null && holder !== process.pid) {
+    throw new Error(`${lockPath} is held by process ${holder}`);
+  }
+
+  mkdirSync(dirname(lockPath), { recursive: true });
+  writeFileSync(lockPath, String(process.pid), 'utf8');
+}
+
+/**
+ * Remove a lock file held by the current process (no-op otherwise)
+ */
+export function releasePidLock(lockPath: string): void {
+  if (readPidLock(lockPath) === process.pid) {
+    unlinkSync(lockPath);
+  }
+}
@@ -1,7 +1,16 @@
-import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
 import {
   ThinkingLevel,
   MediaResolution,
+  Chat,
+  Content,
+  Part,
 } from '@google/genai';
 import { GeminiService } from './gemini.service';
 import { FileManagerService } from './file-manager.service';
@@ -11,6 +20,7 @@ import {
   VideoAnalysisResult,
 } from './interfaces';
 import { ThinkingLevelInput, MediaResolutionInput } from './dto';
+import { CHAT_SESSION_STORE, ChatSessionStore } from './session-store';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -28,20 +38,25 @@ const CHAT_SYSTEM_INSTRUCTION = `You are a video analyst assistant engaged in a
 /**
  * Service for managing multi-turn conversations about videos
  * Handles thought signature management for maintaining reasoning context
+ * Sessions live in the configured ChatSessionStore, so they survive restarts
  */
 @Injectable()
 export class ChatService {
   private readonly logger = new Logger(ChatService.name);
-  
-  // In-memory session storage (use Redis/database in production)
-  private sessions: Map<string, ChatSession> = new Map();
-  
-  // Store chat instances for each session
-  private chatInstances: Map<string, any> = new Map();
+
+  // Live SDK chat instances and the number of stored messages each one has
+  // seen; rebuilt from the stored history on a cache miss
+  private chatInstances: Map<string, { chat: Chat; messageCount: number }> =
+    new Map();
+
+  // Messages in the same session are processed one at a time so turns stay ordered
+  private readonly sessionLocks: Map<string, Promise<unknown>> = new Map();
 
   constructor(
     private readonly geminiService: GeminiService,
     private readonly fileManagerService: FileManagerService,
+    @Inject(CHAT_SESSION_STORE)
+    private readonly sessionStore: ChatSessionStore,
   ) {}
 
   /**
@@ -97,9 +112,6 @@ export class ChatService {
       mediaResolution = MediaResolutionInput.HIGH,
     } = options;
 
-    const sdkThinkingLevel = this.toSdkThinkingLevel(thinkingLevel);
-    const sdkMediaResolution = this.toSdkMediaResolution(mediaResolution);
-
     // Upload and wait for the file to be active
     this.logger.log(`Starting chat session with video: ${filePath}`);
     const fileMetadata = await this.fileManagerService.uploadAndWaitForActive(
@@ -113,31 +125,16 @@ export class ChatService {
       id: sessionId,
       fileUri: fileMetadata.uri,
       fileMimeType: fileMetadata.mimeType,
+      thinkingLevel,
+      mediaResolution,
       messages: [],
       createdAt: new Date(),
       lastActivityAt: new Date(),
     };
 
-    this.sessions.set(sessionId, session);
-
     // Create a chat instance using the SDK's chat feature
     // The SDK handles thought signatures automatically
-    const chatsApi = this.geminiService.getChatsApi();
-    const modelName = this.geminiService.getModelName();
-
-    const chat = chatsApi.create({
-      model: modelName,
-      config: {
-        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
-        thinkingConfig: {
-          thinkingLevel: sdkThinkingLevel,
-          includeThoughts: true,
-        },
-        mediaResolution: sdkMediaResolution,
-      },
-    });
-
-    this.chatInstances.set(sessionId, chat);
+    const chat = this.createChat(session);
 
     // Send the initial message with the video
     try {
@@ -167,10 +164,12 @@ export class ChatService {
       session.messages.push({
         role: 'model',
         content: analysisResult.analysis,
+        thoughtSignature: this.extractThoughtSignature(response),
       });
 
       session.lastActivityAt = new Date();
-      this.sessions.set(sessionId, session);
+      await this.sessionStore.save(session);
+      this.cacheChat(session, chat);
 
       this.logger.log(`Chat session created: ${sessionId}`);
 
@@ -179,10 +178,6 @@ export class ChatService {
         response: analysisResult,
       };
     } catch (error) {
-      // Clean up on failure
-      this.sessions.delete(sessionId);
-      this.chatInstances.delete(sessionId);
-      
       this.logger.error(`Failed to start chat session: ${error.message}`);
       throw this.handleError(error);
     }
@@ -204,38 +199,20 @@ export class ChatService {
       mediaResolution = MediaResolutionInput.HIGH,
     } = options;
 
-    const sdkThinkingLevel = this.toSdkThinkingLevel(thinkingLevel);
-    const sdkMediaResolution = this.toSdkMediaResolution(mediaResolution);
-
     const sessionId = uuidv4();
     const session: ChatSession = {
       id: sessionId,
       fileUri: youtubeUrl,
       fileMimeType: 'video/mp4', // Default for YouTube
+      thinkingLevel,
+      mediaResolution,
       messages: [],
       createdAt: new Date(),
       lastActivityAt: new Date(),
     };
 
-    this.sessions.set(sessionId, session);
-
-    const chatsApi = this.geminiService.getChatsApi();
-    const modelName = this.geminiService.getModelName();
-
     // Note: Code execution is not enabled for YouTube URLs as it's not supported
-    const chat = chatsApi.create({
-      model: modelName,
-      config: {
-        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
-        thinkingConfig: {
-          thinkingLevel: sdkThinkingLevel,
-          includeThoughts: true,
-        },
-        mediaResolution: sdkMediaResolution,
-      },
-    });
-
-    this.chatInstances.set(sessionId, chat);
+    const chat = this.createChat(session);
 
     try {
       // Don't specify mimeType for YouTube URLs - let the API infer it
@@ -263,10 +240,12 @@ export class ChatService {
       session.messages.push({
         role: 'model',
         content: analysisResult.analysis,
+        thoughtSignature: this.extractThoughtSignature(response),
       });
 
       session.lastActivityAt = new Date();
-      this.sessions.set(sessionId, session);
+      await this.sessionStore.save(session);
+      this.cacheChat(session, chat);
 
       this.logger.log(`YouTube chat session created: ${sessionId}`);
 
@@ -275,9 +254,6 @@ export class ChatService {
         response: analysisResult,
       };
     } catch (error) {
-      this.sessions.delete(sessionId);
-      this.chatInstances.delete(sessionId);
-      
       this.logger.error(`Failed to start YouTube chat session: ${error.message}`);
       throw this.handleError(error);
     }
@@ -293,18 +269,17 @@ export class ChatService {
     sessionId: string,
     message: string,
   ): Promise<VideoAnalysisResult> {
-    const session = this.sessions.get(sessionId);
-    const chat = this.chatInstances.get(sessionId);
+    return this.withSessionLock(sessionId, () =>
+      this.sendMessageInSession(sessionId, message),
+    );
+  }
 
-    if (!session || !chat) {
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.NOT_FOUND,
-          message: `Chat session not found: ${sessionId}`,
-        },
-        HttpStatus.NOT_FOUND,
-      );
-    }
+  private async sendMessageInSession(
+    sessionId: string,
+    message: string,
+  ): Promise<VideoAnalysisResult> {
+    const session = await this.getSessionOrThrow(sessionId);
+    const chat = this.getOrRestoreChat(session);
 
     this.logger.log(`Sending message in session ${sessionId}: ${message.substring(0, 50)}...`);
 
@@ -326,13 +301,17 @@ export class ChatService {
       session.messages.push({
         role: 'model',
         content: analysisResult.analysis,
+        thoughtSignature: this.extractThoughtSignature(response),
       });
 
       session.lastActivityAt = new Date();
-      this.sessions.set(sessionId, session);
+      await this.sessionStore.save(session);
+      this.cacheChat(session, chat);
 
       return analysisResult;
     } catch (error) {
+      // The chat may hold a turn that was never stored; rebuild it next time
+      this.chatInstances.delete(sessionId);
       this.logger.error(`Failed to send message: ${error.message}`);
       throw this.handleError(error);
     }
@@ -341,24 +320,17 @@ export class ChatService {
   /**
    * Get session information
    */
-  getSession(sessionId: string): ChatSession | undefined {
-    return this.sessions.get(sessionId);
+  async getSession(sessionId: string): Promise<ChatSession | undefined> {
+    return (await this.sessionStore.get(sessionId)) ?? undefined;
   }
 
   /**
    * Get conversation history for a session
    */
-  getConversationHistory(sessionId: string): ConversationMessage[] {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.NOT_FOUND,
-          message: `Chat session not found: ${sessionId}`,
-        },
-        HttpStatus.NOT_FOUND,
-      );
-    }
+  async getConversationHistory(
+    sessionId: string,
+  ): Promise<ConversationMessage[]> {
+    const session = await this.getSessionOrThrow(sessionId);
     return session.messages;
   }
 
@@ -366,11 +338,16 @@ export class ChatService {
    * End a chat session and cleanup resources
    */
   async endSession(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
-    
+    // Behind any message in progress, which would save the session again
+    await this.withSessionLock(sessionId, () => this.endSessionNow(sessionId));
+  }
+
+  private async endSessionNow(sessionId: string): Promise<void> {
+    const session = await this.sessionStore.get(sessionId);
+
     if (session) {
       // Delete the uploaded file if it was a file upload (not YouTube)
-      if (session.fileUri && !session.fileUri.includes('youtube.com')) {
+      if (session.fileUri && !this.isYouTubeUri(session.fileUri)) {
         try {
           // Extract file name from URI
           const fileName = session.fileUri.split('/').pop();
@@ -383,7 +360,7 @@ export class ChatService {
       }
     }
 
-    this.sessions.delete(sessionId);
+    await this.sessionStore.delete(sessionId);
     this.chatInstances.delete(sessionId);
     this.logger.log(`Chat session ended: ${sessionId}`);
   }
@@ -391,24 +368,155 @@ export class ChatService {
   /**
    * List all active sessions
    */
-  listSessions(): ChatSession[] {
-    return Array.from(this.sessions.values());
+  async listSessions(): Promise<ChatSession[]> {
+    return this.sessionStore.list();
   }
 
   /**
-   * Cleanup expired sessions (older than 1 hour)
+   * End sessions idle for longer than the TTL (default: 1 hour)
+   * @returns The sessions that were ended
    */
-  cleanupExpiredSessions(): void {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.lastActivityAt < oneHourAgo) {
-        this.endSession(sessionId);
-        this.logger.log(`Cleaned up expired session: ${sessionId}`);
+  async cleanupExpiredSessions(
+    ttlMs: number = 60 * 60 * 1000,
+  ): Promise<ChatSession[]> {
+    const cutoff = new Date(Date.now() - ttlMs);
+    const sessions = await this.sessionStore.list();
+    const expired = sessions.filter(
+      (session) => session.lastActivityAt < cutoff,
+    );
+
+    for (const session of expired) {
+      await this.endSession(session.id);
+      this.logger.log(`Cleaned up expired session: ${session.id}`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Load a session from the store or throw 404
+   */
+  private async getSessionOrThrow(sessionId: string): Promise<ChatSession> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Chat session not found: ${sessionId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Create an SDK chat instance for a session, optionally seeded with prior turns
+   */
+  private createChat(session: ChatSession, history?: Content[]): Chat {
+    const chatsApi = this.geminiService.getChatsApi();
+    const modelName = this.geminiService.getModelName();
+
+    return chatsApi.create({
+      model: modelName,
+      config: {
+        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+        thinkingConfig: {
+          thinkingLevel: this.toSdkThinkingLevel(
+            session.thinkingLevel as ThinkingLevelInput,
+          ),
+          includeThoughts: true,
+        },
+        mediaResolution: this.toSdkMediaResolution(
+          session.mediaResolution as MediaResolutionInput,
+        ),
+      },
+      history,
+    });
+  }
+
+  /**
+   * Get the live chat instance for a session, rebuilding it from the stored
+   * conversation (including thought signatures) after a restart, or when
+   * another instance sharing the store has added messages since
+   */
+  private getOrRestoreChat(session: ChatSession): Chat {
+    const cached = this.chatInstances.get(session.id);
+    if (cached?.messageCount === session.messages.length) {
+      return cached.chat;
+    }
+
+    this.logger.log(
+      `Restoring chat session ${session.id} from ${session.messages.length} stored messages`,
+    );
+
+    const chat = this.createChat(session, this.toSdkHistory(session));
+    this.cacheChat(session, chat);
+    return chat;
+  }
+
+  private cacheChat(session: ChatSession, chat: Chat): void {
+    this.chatInstances.set(session.id, {
+      chat,
+      messageCount: session.messages.length,
+    });
+  }
+
+  private async withSessionLock<T>(
+    sessionId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const previous = this.sessionLocks.get(sessionId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.sessionLocks.set(sessionId, current);
+
+    try {
+      return await current;
+    } finally {
+      // Only clear the lock if no later message queued behind this one
+      if (this.sessionLocks.get(sessionId) === current) {
+        this.sessionLocks.delete(sessionId);
       }
     }
   }
 
+  /**
+   * Convert stored conversation messages back into SDK content history
+   */
+  private toSdkHistory(session: ChatSession): Content[] {
+    return session.messages.map((message) => {
+      const parts: Part[] = [];
+
+      if (message.fileUri) {
+        // YouTube URLs are sent without a MIME type so the API can infer it
+        parts.push({
+          fileData: this.isYouTubeUri(message.fileUri)
+            ? { fileUri: message.fileUri }
+            : { fileUri: message.fileUri, mimeType: session.fileMimeType },
+        });
+      }
+
+      parts.push({
+        text: message.content,
+        thoughtSignature: message.thoughtSignature,
+      });
+
+      return { role: message.role, parts };
+    });
+  }
+
+  /**
+   * Get the thought signature attached to a model response, if any
+   */
+  private extractThoughtSignature(response: any): string | undefined {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return parts.find((part: Part) => part.thoughtSignature)?.thoughtSignature;
+  }
+
+  private isYouTubeUri(uri: string): boolean {
+    return uri.includes('youtube.com') || uri.includes('youtu.be');
+  }
+
   /**
    * Parse the chat response into VideoAnalysisResult
    */
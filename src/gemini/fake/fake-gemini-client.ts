@@ -0,0 +1,382 @@
+import { existsSync, statSync } from 'fs';
+import {
+  FakeGeminiFixtures,
+  FakeGeminiReply,
+  FakeGeminiResponseRule,
+} from './fake-gemini-fixtures';
+
+/**
+ * Answer to requests no fixture rule matches (and that ask for text)
+ */
+const DEFAULT_TEXT_REPLY =
+  'This is a canned response from the fake Gemini provider.';
+
+/**
+ * Words per chunk when streaming a reply
+ */
+const STREAM_CHUNK_WORDS = 8;
+
+/**
+ * What a reply is chosen by
+ */
+interface FakeRequest {
+  prompt: string;
+  systemInstruction: string;
+  config?: Record<string, any>;
+}
+
+interface FakeFile {
+  name: string;
+  displayName?: string;
+  mimeType?: string;
+  sizeBytes?: string;
+  createTime: string;
+  updateTime: string;
+  expirationTime: string;
+  uri: string;
+  polls: number;
+}
+
+/**
+ * Offline stand-in for the GoogleGenAI client, selected by
+ * `GEMINI_PROVIDER=fake`
+ * Implements the parts of the Files, Models and Chats APIs the app uses with
+ * deterministic replies: fixture rules matched against the prompt, otherwise
+ * a placeholder shaped by the response schema or a fixed text. Embeddings
+ * are hashed bags of words, so texts sharing words are similar
+ */
+export class FakeGeminiClient {
+  readonly files: FakeFiles;
+  readonly models: FakeModels;
+  readonly chats: FakeChats;
+
+  constructor(fixtures: FakeGeminiFixtures) {
+    this.files = new FakeFiles(fixtures);
+    this.models = new FakeModels(fixtures);
+    this.chats = new FakeChats(fixtures);
+  }
+}
+
+class FakeFiles {
+  private readonly files = new Map<string, FakeFile>();
+  private uploads = 0;
+
+  constructor(private readonly fixtures: FakeGeminiFixtures) {}
+
+  async upload(params: {
+    file: string | Blob;
+    config?: { mimeType?: string; displayName?: string };
+  }) {
+    const now = new Date();
+    const id = `fake-${++this.uploads}`;
+    const file: FakeFile = {
+      name: `files/${id}`,
+      displayName: params.config?.displayName,
+      mimeType: params.config?.mimeType,
+      sizeBytes:
+        typeof params.file === 'string' && existsSync(params.file)
+          ? String(statSync(params.file).size)
+          : undefined,
+      createTime: now.toISOString(),
+      updateTime: now.toISOString(),
+      expirationTime: new Date(
+        now.getTime() + 48 * 60 * 60 * 1000,
+      ).toISOString(),
+      uri: `https://generativelanguage.googleapis.com/v1beta/files/${id}`,
+      polls: 0,
+    };
+
+    this.files.set(file.name, file);
+    return this.describe(file);
+  }
+
+  async get(params: { name: string }) {
+    const file = this.files.get(params.name);
+    if (!file) {
+      throw new Error(`File not found: ${params.name}`);
+    }
+    file.polls++;
+    return this.describe(file);
+  }
+
+  async delete(params: { name: string }) {
+    if (!this.files.delete(params.name)) {
+      throw new Error(`File not found: ${params.name}`);
+    }
+    return {};
+  }
+
+  async list() {
+    const files = [...this.files.values()].map((file) => this.describe(file));
+    return (async function* () {
+      yield* files;
+    })();
+  }
+
+  private describe(file: FakeFile) {
+    const { processingPolls, state, videoDurationSeconds } =
+      this.fixtures.files;
+    const { polls, ...metadata } = file;
+
+    return {
+      ...metadata,
+      state: polls < processingPolls ? 'PROCESSING' : state,
+      error:
+        state === 'FAILED' && polls >= processingPolls
+          ? { message: 'Fake file processing failure' }
+          : undefined,
+      videoMetadata: videoDurationSeconds
+        ? { videoDuration: `${videoDurationSeconds}s` }
+        : undefined,
+    };
+  }
+}
+
+class FakeModels {
+  constructor(private readonly fixtures: FakeGeminiFixtures) {}
+
+  async generateContent(params: {
+    contents: unknown;
+    config?: Record<string, any>;
+  }) {
+    const request = toRequest(params.contents, params.config);
+    return toResponse(reply(this.fixtures.responses, request), request);
+  }
+
+  async generateContentStream(params: {
+    contents: unknown;
+    config?: Record<string, any>;
+  }) {
+    const request = toRequest(params.contents, params.config);
+    return toStream(reply(this.fixtures.responses, request), request);
+  }
+
+  async embedContent(params: {
+    contents: string | string[];
+    config?: { outputDimensionality?: number };
+  }) {
+    const texts = Array.isArray(params.contents)
+      ? params.contents
+      : [params.contents];
+    const dimensions =
+      params.config?.outputDimensionality || this.fixtures.embeddingDimensions;
+
+    return {
+      embeddings: texts.map((text) => ({
+        values: fakeEmbedding(collectText(text), dimensions),
+      })),
+    };
+  }
+}
+
+class FakeChats {
+  constructor(private readonly fixtures: FakeGeminiFixtures) {}
+
+  create(params: {
+    model: string;
+    config?: Record<string, any>;
+    history?: unknown[];
+  }) {
+    return new FakeChat(this.fixtures, params.config, params.history ?? []);
+  }
+}
+
+class FakeChat {
+  constructor(
+    private readonly fixtures: FakeGeminiFixtures,
+    private readonly config: Record<string, any> | undefined,
+    private readonly history: unknown[],
+  ) {}
+
+  async sendMessage(params: { message: unknown }) {
+    const request = toRequest(params.message, this.config);
+    const answer = reply(this.fixtures.responses, request);
+    const response = toResponse(answer, request);
+    this.record(params.message, response.text);
+    return response;
+  }
+
+  async sendMessageStream(params: { message: unknown }) {
+    const request = toRequest(params.message, this.config);
+    const answer = reply(this.fixtures.responses, request);
+    this.record(params.message, replyText(answer, request));
+    return toStream(answer, request);
+  }
+
+  getHistory() {
+    return [...this.history];
+  }
+
+  private record(message: unknown, text: string): void {
+    const parts =
+      typeof message === 'string'
+        ? [{ text: message }]
+        : [message]
+            .flat()
+            .map((part) => (typeof part === 'string' ? { text: part } : part));
+    this.history.push({ role: 'user', parts });
+    this.history.push({ role: 'model', parts: [{ text }] });
+  }
+}
+
+function toRequest(
+  contents: unknown,
+  config?: Record<string, any>,
+): FakeRequest {
+  return {
+    prompt: collectText(contents),
+    systemInstruction: collectText(config?.systemInstruction),
+    config,
+  };
+}
+
+/**
+ * Text parts of contents, a message or a system instruction, in order
+ */
+function collectText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(collectText).filter(Boolean).join('\n');
+  }
+  if (value && typeof value === 'object') {
+    const { text, parts } = value as { text?: unknown; parts?: unknown };
+    return typeof text === 'string' ? text : collectText(parts);
+  }
+  return '';
+}
+
+/**
+ * Reply of the first matching rule; throws when that reply is an error
+ */
+function reply(
+  rules: FakeGeminiResponseRule[],
+  request: FakeRequest,
+): FakeGeminiReply {
+  const contains = (text: string, expected?: string) =>
+    expected === undefined ||
+    text.toLowerCase().includes(expected.toLowerCase());
+  const wantsJson = request.config?.responseMimeType === 'application/json';
+
+  const rule = rules.find(
+    ({ match = {} }) =>
+      contains(request.prompt, match.prompt) &&
+      contains(request.systemInstruction, match.systemInstruction) &&
+      (match.json === undefined || match.json === wantsJson),
+  );
+
+  if (rule?.response.error) {
+    throw new Error(rule.response.error);
+  }
+  return rule?.response ?? {};
+}
+
+function replyText(answer: FakeGeminiReply, request: FakeRequest): string {
+  if (answer.text !== undefined) {
+    return answer.text;
+  }
+  if (answer.json !== undefined) {
+    return JSON.stringify(answer.json);
+  }
+  if (request.config?.responseSchema) {
+    return JSON.stringify(placeholder(request.config.responseSchema));
+  }
+  return DEFAULT_TEXT_REPLY;
+}
+
+function toResponse(answer: FakeGeminiReply, request: FakeRequest) {
+  const text = replyText(answer, request);
+  const parts = [
+    ...(answer.thought ? [{ text: answer.thought, thought: true }] : []),
+    { text },
+  ];
+
+  return {
+    text,
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }],
+    usageMetadata: usage(request, text),
+  };
+}
+
+/**
+ * Reply split into chunks of a few words; the last one carries the usage
+ */
+async function* toStream(answer: FakeGeminiReply, request: FakeRequest) {
+  const text = replyText(answer, request);
+  const words = text.split(/(?<=\s)/);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    chunks.push(words.slice(i, i + STREAM_CHUNK_WORDS).join(''));
+  }
+
+  for (const [index, chunk] of chunks.entries()) {
+    yield {
+      text: chunk,
+      candidates: [{ content: { role: 'model', parts: [{ text: chunk }] } }],
+      usageMetadata:
+        index === chunks.length - 1 ? usage(request, text) : undefined,
+    };
+  }
+}
+
+/**
+ * Token counts estimated at four characters per token
+ */
+function usage(request: FakeRequest, text: string) {
+  return {
+    promptTokenCount: Math.ceil(
+      (request.prompt.length + request.systemInstruction.length) / 4,
+    ),
+    candidatesTokenCount: Math.ceil(text.length / 4),
+  };
+}
+
+/**
+ * Value matching a response schema: one item per array, the first enum
+ * value, "00:00" for timestamp strings and "Fake <field>" for other strings
+ */
+function placeholder(schema: Record<string, any>, name = 'value'): unknown {
+  switch (String(schema?.type).toLowerCase()) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          placeholder(property as Record<string, any>, key),
+        ]),
+      );
+    case 'array':
+      return [placeholder(schema.items, name)];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      if (schema?.enum?.length) {
+        return schema.enum[0];
+      }
+      return /MM:SS/.test(schema?.description ?? '') ? '00:00' : `Fake ${name}`;
+  }
+}
+
+/**
+ * Unit vector of hashed word counts (FNV-1a)
+ */
+function fakeEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+    }
+    vector[(hash >>> 0) % dimensions] += 1;
+  }
+
+  const norm = Math.hypot(...vector);
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
@@ -0,0 +1,95 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Canned reply of the fake Gemini provider
+ * `json` is serialized as the response text; `error` makes the call throw
+ */
+export interface FakeGeminiReply {
+  text?: string;
+  json?: unknown;
+  /** Returned as a thought summary part before the answer */
+  thought?: string;
+  error?: string;
+}
+
+/**
+ * Reply served to the requests a rule matches
+ * Every criterion given must match; the first matching rule wins
+ */
+export interface FakeGeminiResponseRule {
+  match?: {
+    /** Text the prompt (or chat message) contains, case-insensitive */
+    prompt?: string;
+    /** Text the system instruction contains, case-insensitive */
+    systemInstruction?: string;
+    /** Whether the request asks for JSON output */
+    json?: boolean;
+  };
+  response: FakeGeminiReply;
+}
+
+/**
+ * How uploaded files behave
+ */
+export interface FakeGeminiFileFixture {
+  /** Polls answered with PROCESSING before a file is ready */
+  processingPolls: number;
+  /** State the file ends in */
+  state: 'ACTIVE' | 'FAILED';
+  /** Duration reported in the file's video metadata */
+  videoDurationSeconds?: number;
+}
+
+/**
+ * Everything the fake Gemini provider serves
+ */
+export interface FakeGeminiFixtures {
+  responses: FakeGeminiResponseRule[];
+  files: FakeGeminiFileFixture;
+  /** Size of fake embeddings when the request sets no output dimensionality */
+  embeddingDimensions: number;
+}
+
+const DEFAULT_FIXTURES: FakeGeminiFixtures = {
+  responses: [],
+  files: { processingPolls: 0, state: 'ACTIVE' },
+  embeddingDimensions: 64,
+};
+
+/**
+ * Load fixtures from a JSON file, or from every JSON file of a directory in
+ * name order (responses are concatenated, later settings win)
+ * Without a path, every request gets the default replies
+ */
+export function loadFakeGeminiFixtures(path?: string): FakeGeminiFixtures {
+  if (!path) {
+    return DEFAULT_FIXTURES;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Fake Gemini fixtures not found: ${path}`);
+  }
+
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path)
+        .filter((name) => name.endsWith('.json'))
+        .sort()
+        .map((name) => join(path, name))
+    : [path];
+
+  return files.reduce<FakeGeminiFixtures>((fixtures, file) => {
+    let parsed: Partial<FakeGeminiFixtures>;
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid fake Gemini fixture ${file}: ${error.message}`);
+    }
+
+    return {
+      responses: [...fixtures.responses, ...(parsed.responses ?? [])],
+      files: { ...fixtures.files, ...parsed.files },
+      embeddingDimensions:
+        parsed.embeddingDimensions ?? fixtures.embeddingDimensions,
+    };
+  }, DEFAULT_FIXTURES);
+}
@@ -0,0 +1,2 @@
+export * from './fake-gemini-fixtures';
+export * from './fake-gemini-client';
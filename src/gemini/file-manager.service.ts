@@ -97,6 +97,9 @@ export class FileManagerService {
         expirationTime: uploadResult.expirationTime,
         sha256Hash: uploadResult.sha256Hash,
         uri: uploadResult.uri,
+        videoDurationSeconds: this.parseVideoDuration(
+          uploadResult.videoMetadata,
+        ),
         state: this.mapFileState(uploadResult.state),
       };
 
@@ -147,6 +150,7 @@ export class FileManagerService {
             expirationTime: file.expirationTime,
             sha256Hash: file.sha256Hash,
             uri: file.uri,
+            videoDurationSeconds: this.parseVideoDuration(file.videoMetadata),
             state: 'ACTIVE',
           };
         }
@@ -242,6 +246,7 @@ export class FileManagerService {
         expirationTime: file.expirationTime,
         sha256Hash: file.sha256Hash,
         uri: file.uri,
+        videoDurationSeconds: this.parseVideoDuration(file.videoMetadata),
         state: this.mapFileState(file.state),
         error: file.error,
       };
@@ -311,6 +316,16 @@ export class FileManagerService {
     }
   }
 
+  /**
+   * Read the duration Gemini reports for a processed video ("123.4s")
+   */
+  private parseVideoDuration(
+    videoMetadata?: Record<string, unknown>,
+  ): number | undefined {
+    const seconds = parseFloat(String(videoMetadata?.videoDuration ?? ''));
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+  }
+
   /**
    * Sleep utility for polling
    */
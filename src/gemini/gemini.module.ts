@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { GeminiService } from './gemini.service';
 import { FileManagerService } from './file-manager.service';
 import { VideoAnalyzeService } from './video-analyze.service';
 import { ChatService } from './chat.service';
+import {
+  CHAT_SESSION_STORE,
+  ChatSessionStore,
+  FileChatSessionStore,
+  RedisChatSessionStore,
+} from './session-store';
 
 /**
  * Module providing Gemini AI services for video understanding
@@ -15,6 +21,29 @@ import { ChatService } from './chat.service';
     FileManagerService,
     VideoAnalyzeService,
     ChatService,
+    {
+      provide: CHAT_SESSION_STORE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): ChatSessionStore => {
+        const storeType = configService.get<string>(
+          'CHAT_SESSION_STORE',
+          'file',
+        );
+
+        if (storeType === 'redis') {
+          return new RedisChatSessionStore(
+            configService.get<string>('REDIS_URL', 'redis://localhost:6379'),
+          );
+        }
+
+        return new FileChatSessionStore(
+          configService.get<string>(
+            'CHAT_SESSIONS_PATH',
+            './data/chat-sessions',
+          ),
+        );
+      },
+    },
   ],
   exports: [
     GeminiService,
@@ -1,9 +1,12 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { GoogleGenAI } from '@google/genai';
+import { FakeGeminiClient, loadFakeGeminiFixtures } from './fake';
 
 /**
  * Service for initializing and providing the Google GenAI client
+ * With `GEMINI_PROVIDER=fake`, an offline stand-in serving canned replies
+ * from `GEMINI_FAKE_FIXTURES` is provided instead
  */
 @Injectable()
 export class GeminiService implements OnModuleInit {
@@ -14,15 +17,36 @@ export class GeminiService implements OnModuleInit {
   constructor(private readonly configService: ConfigService) {}
 
   onModuleInit() {
+    this.modelName = this.configService.get<string>(
+      'GEMINI_MODEL',
+      'gemini-3-flash-preview',
+    );
+
+    const provider = this.configService.get<string>(
+      'GEMINI_PROVIDER',
+      'google',
+    );
+    if (provider === 'fake') {
+      // Implements the subset of the SDK client the app uses
+      this.client = new FakeGeminiClient(
+        loadFakeGeminiFixtures(
+          this.configService.get<string>('GEMINI_FAKE_FIXTURES'),
+        ),
+      ) as unknown as GoogleGenAI;
+      this.logger.warn(
+        'Using the fake Gemini provider: replies are canned and no API calls are made',
+      );
+      return;
+    }
+
     const apiKey = this.configService.get<string>('GEMINI_API_KEY');
-    
+
     if (!apiKey) {
       throw new Error('GEMINI_API_KEY environment variable is required');
     }
 
     this.client = new GoogleGenAI({ apiKey });
-    this.modelName = this.configService.get<string>('GEMINI_MODEL', 'gemini-3-flash-preview');
-    
+
     this.logger.log(`Gemini client initialized with model: ${this.modelName}`);
   }
 
@@ -7,6 +7,9 @@ export * from './file-manager.service';
 export * from './video-analyze.service';
 export * from './chat.service';
 
+// Session storage
+export * from './session-store';
+
 // DTOs
 export * from './dto';
 
@@ -60,6 +60,8 @@ export interface FileMetadata {
   expirationTime?: string;
   sha256Hash?: string;
   uri: string;
+  /** Video duration reported once processing is done */
+  videoDurationSeconds?: number;
   state: FileState;
   error?: FileError;
 }
@@ -100,6 +102,10 @@ export interface ChatSession {
   id: string;
   fileUri?: string;
   fileMimeType?: string;
+  /** Thinking level the chat was started with (ThinkingLevelInput value) */
+  thinkingLevel?: string;
+  /** Media resolution the chat was started with (MediaResolutionInput value) */
+  mediaResolution?: string;
   messages: ConversationMessage[];
   createdAt: Date;
   lastActivityAt: Date;
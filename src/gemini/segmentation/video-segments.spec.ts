@@ -0,0 +1,122 @@
+import { AdvancedVideoAnalysisResult } from '../../lancedb/interfaces';
+import { mergeSegmentResults, planSegments } from './video-segments';
+
+function result(
+  timestamps: string[],
+  overrides: Partial<AdvancedVideoAnalysisResult> = {},
+): AdvancedVideoAnalysisResult {
+  return {
+    summary: 'summary',
+    frames: timestamps.map((timestamp) => ({
+      timestamp,
+      actionDescription: `action at ${timestamp}`,
+    })),
+    confidence: 'High',
+    ...overrides,
+  };
+}
+
+describe('planSegments', () => {
+  it('splits the range into consecutive segments starting early by the overlap', () => {
+    expect(planSegments(0, 1500, 600, 10)).toEqual([
+      { index: 0, startSeconds: 0, endSeconds: 600, clipStartSeconds: 0 },
+      { index: 1, startSeconds: 600, endSeconds: 1200, clipStartSeconds: 590 },
+      {
+        index: 2,
+        startSeconds: 1200,
+        endSeconds: 1500,
+        clipStartSeconds: 1190,
+      },
+    ]);
+  });
+
+  it('folds a trailing sliver shorter than a quarter segment into the last one', () => {
+    const segments = planSegments(0, 1300, 600);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[1]).toMatchObject({ startSeconds: 600, endSeconds: 1300 });
+  });
+
+  it('never starts a clip before the start of the range', () => {
+    expect(planSegments(100, 800, 600, 30)[0].clipStartSeconds).toBe(100);
+  });
+
+  it('returns one segment for a range shorter than a segment', () => {
+    expect(planSegments(0, 90, 600)).toHaveLength(1);
+  });
+});
+
+describe('mergeSegmentResults', () => {
+  const segments = planSegments(0, 1200, 600, 10);
+
+  it('shifts clip timestamps to video time', () => {
+    const merged = mergeSegmentResults(segments, [
+      result(['00:05']),
+      result(['00:15']),
+    ]);
+
+    expect(merged.frames.map((frame) => frame.timestamp)).toEqual([
+      '00:05',
+      '10:05',
+    ]);
+  });
+
+  it('drops frames in the overlap the previous segment already covers', () => {
+    const merged = mergeSegmentResults(segments, [
+      result(['09:55']),
+      // 09:55 and 09:58 of the video, before this segment's own range
+      result(['00:05', '00:08', '00:12']),
+    ]);
+
+    expect(merged.frames.map((frame) => frame.timestamp)).toEqual([
+      '09:55',
+      '10:02',
+    ]);
+  });
+
+  it('keeps one frame per second when clip times round to the same one', () => {
+    const merged = mergeSegmentResults(segments, [
+      result(['09:59']),
+      result(['00:10', '00:10.5']),
+    ]);
+
+    expect(merged.frames).toEqual([
+      { timestamp: '09:59', actionDescription: 'action at 09:59' },
+      { timestamp: '10:00', actionDescription: 'action at 00:10' },
+    ]);
+  });
+
+  it('drops frames past the end of a segment except in the last one', () => {
+    const merged = mergeSegmentResults(segments, [
+      result(['10:01']),
+      result(['10:20']),
+    ]);
+
+    expect(merged.frames.map((frame) => frame.timestamp)).toEqual(['20:10']);
+  });
+
+  it('labels summaries by window, keeps the lowest confidence and sums tokens', () => {
+    const merged = mergeSegmentResults(segments, [
+      result([], {
+        summary: 'first',
+        confidence: 'High',
+        tokenUsage: { inputTokens: 10, outputTokens: 5 },
+      }),
+      result([], {
+        summary: 'second',
+        confidence: 'Medium',
+        tokenUsage: { inputTokens: 20, outputTokens: 7, thoughtsTokens: 3 },
+      }),
+    ]);
+
+    expect(merged.summary).toBe(
+      '[00:00 - 10:00] first\n\n[10:00 - 20:00] second',
+    );
+    expect(merged.confidence).toBe('Medium');
+    expect(merged.tokenUsage).toEqual({
+      inputTokens: 30,
+      outputTokens: 12,
+      thoughtsTokens: 3,
+    });
+  });
+});
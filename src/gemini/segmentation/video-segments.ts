@@ -0,0 +1,187 @@
+import { AdvancedVideoAnalysisResult } from '../../lancedb/interfaces';
+
+/**
+ * Window of a video extracted in its own request
+ * The clip sent to Gemini starts `overlapSeconds` early so events crossing
+ * the seam keep their context, but only frames inside [start, end) are kept
+ */
+export interface VideoSegment {
+  /** Position of the segment in the video (0-based) */
+  index: number;
+  /** First second owned by this segment */
+  startSeconds: number;
+  /** Second where the next segment takes over */
+  endSeconds: number;
+  /** Start of the clip sent to Gemini (includes the overlap) */
+  clipStartSeconds: number;
+}
+
+/**
+ * Split [startSeconds, endSeconds) into consecutive segments
+ * A trailing sliver shorter than a quarter segment is folded into the last one
+ */
+export function planSegments(
+  startSeconds: number,
+  endSeconds: number,
+  segmentSeconds: number,
+  overlapSeconds = 0,
+): VideoSegment[] {
+  const segments: VideoSegment[] = [];
+  let start = startSeconds;
+
+  while (start < endSeconds) {
+    let end = Math.min(start + segmentSeconds, endSeconds);
+    if (endSeconds - end < segmentSeconds / 4) {
+      end = endSeconds;
+    }
+
+    segments.push({
+      index: segments.length,
+      startSeconds: start,
+      endSeconds: end,
+      clipStartSeconds: Math.max(startSeconds, start - overlapSeconds),
+    });
+    start = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a Gemini video offset ("90s", "90.5s" or a bare number of seconds)
+ */
+export function parseOffset(offset?: string): number | undefined {
+  const match = offset?.trim().match(/^(\d+(?:\.\d+)?)s?$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Format seconds as a Gemini video offset
+ */
+export function toOffset(seconds: number): string {
+  return `${Number(seconds.toFixed(3))}s`;
+}
+
+/**
+ * Parse an MM:SS or HH:MM:SS timestamp into seconds
+ */
+export function parseTimestampSeconds(timestamp: string): number {
+  const parts = timestamp.split(':').map(Number);
+  if (parts.some((part) => !Number.isFinite(part))) {
+    return 0;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Format seconds as MM:SS, or HH:MM:SS from one hour on
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const mmss = `${pad(minutes)}:${pad(total % 60)}`;
+
+  return hours > 0 ? `${pad(hours)}:${mmss}` : mmss;
+}
+
+const CONFIDENCE_ORDER = ['Low', 'Medium', 'High'];
+
+/**
+ * Merge per-segment extractions into one result for the whole video
+ * Frame timestamps are relative to each clip; they are shifted to video time,
+ * and frames outside the segment's own range (the overlap, which the
+ * neighbouring segment already covers) are dropped
+ */
+export function mergeSegmentResults(
+  segments: VideoSegment[],
+  results: AdvancedVideoAnalysisResult[],
+): AdvancedVideoAnalysisResult {
+  const frames: AdvancedVideoAnalysisResult['frames'] = [];
+  const seen = new Set<string>();
+
+  segments.forEach((segment, i) => {
+    const isLast = i === segments.length - 1;
+
+    for (const frame of results[i].frames) {
+      const seconds =
+        segment.clipStartSeconds + parseTimestampSeconds(frame.timestamp);
+      const inRange =
+        seconds >= segment.startSeconds &&
+        (seconds < segment.endSeconds || isLast);
+      const timestamp = formatTimestamp(seconds);
+
+      if (inRange && !seen.has(timestamp)) {
+        seen.add(timestamp);
+        frames.push({ ...frame, timestamp });
+      }
+    }
+  });
+
+  const summary = segments
+    .map(
+      (segment, i) =>
+        `[${formatTimestamp(segment.startSeconds)} - ${formatTimestamp(segment.endSeconds)}] ${results[i].summary}`,
+    )
+    .join('\n\n');
+
+  // The whole video is only as reliable as its weakest segment
+  const confidence = results
+    .map((result) => result.confidence)
+    .reduce((lowest, current) =>
+      CONFIDENCE_ORDER.indexOf(current) < CONFIDENCE_ORDER.indexOf(lowest)
+        ? current
+        : lowest,
+    );
+
+  const thoughts = results
+    .map((result) => result.thoughtSummary)
+    .filter((thought): thought is string => Boolean(thought));
+
+  const merged: AdvancedVideoAnalysisResult = {
+    summary,
+    frames,
+    confidence,
+    thoughtSummary: thoughts.length > 0 ? thoughts.join('\n\n') : undefined,
+  };
+
+  const usages = results.map((result) => result.tokenUsage).filter(Boolean);
+  if (usages.length > 0) {
+    merged.tokenUsage = {
+      inputTokens: usages.reduce((sum, u) => sum + u.inputTokens, 0),
+      outputTokens: usages.reduce((sum, u) => sum + u.outputTokens, 0),
+      thoughtsTokens: usages.reduce(
+        (sum, u) => sum + (u.thoughtsTokens || 0),
+        0,
+      ),
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results keep the input order; the first rejection rejects the whole call
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  );
+  return results;
+}
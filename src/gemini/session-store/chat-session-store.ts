@@ -0,0 +1,32 @@
+import { ChatSession } from '../interfaces';
+
+/**
+ * Injection token for the configured chat session store
+ */
+export const CHAT_SESSION_STORE = 'CHAT_SESSION_STORE';
+
+/**
+ * Persistence for multi-turn chat sessions
+ * Implementations must survive process restarts so sessions can be resumed
+ */
+export interface ChatSessionStore {
+  /** Get a session by ID, or null if it does not exist */
+  get(sessionId: string): Promise<ChatSession | null>;
+  /** Create or overwrite a session */
+  save(session: ChatSession): Promise<void>;
+  /** Delete a session (no-op if it does not exist) */
+  delete(sessionId: string): Promise<void>;
+  /** List all stored sessions */
+  list(): Promise<ChatSession[]>;
+}
+
+/**
+ * Restore Date fields on a session read back from JSON
+ */
+export function reviveChatSession(raw: ChatSession): ChatSession {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    lastActivityAt: new Date(raw.lastActivityAt),
+  };
+}
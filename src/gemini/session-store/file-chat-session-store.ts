@@ -0,0 +1,32 @@
+import { JsonFileStore } from '../../common/storage';
+import { ChatSession } from '../interfaces';
+import { ChatSessionStore, reviveChatSession } from './chat-session-store';
+
+/**
+ * Chat session store backed by one JSON file per session (default)
+ */
+export class FileChatSessionStore implements ChatSessionStore {
+  private readonly store: JsonFileStore<ChatSession>;
+
+  constructor(directory: string) {
+    this.store = new JsonFileStore<ChatSession>(directory);
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const session = await this.store.read(sessionId);
+    return session ? reviveChatSession(session) : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    await this.store.write(session.id, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
+  }
+
+  async list(): Promise<ChatSession[]> {
+    const sessions = await this.store.list();
+    return sessions.map(reviveChatSession);
+  }
+}
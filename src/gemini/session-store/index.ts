@@ -0,0 +1,3 @@
+export * from './chat-session-store';
+export * from './file-chat-session-store';
+export * from './redis-chat-session-store';
@@ -0,0 +1,69 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { ChatSession } from '../interfaces';
+import { ChatSessionStore, reviveChatSession } from './chat-session-store';
+
+/**
+ * Chat session store for Redis (or any Redis-protocol compatible server)
+ * Each session is a JSON string key; a set tracks session IDs for listing
+ */
+export class RedisChatSessionStore
+  implements ChatSessionStore, OnModuleDestroy
+{
+  private readonly logger = new Logger(RedisChatSessionStore.name);
+  private readonly redis: Redis;
+  private readonly indexKey: string;
+
+  constructor(
+    url: string,
+    private readonly keyPrefix: string = 'deepcap:chat-session:',
+  ) {
+    this.redis = new Redis(url);
+    this.indexKey = `${keyPrefix}ids`;
+
+    this.redis.on('error', (error) =>
+      this.logger.error(`Redis connection error: ${error.message}`),
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const raw = await this.redis.get(this.keyFor(sessionId));
+    return raw ? reviveChatSession(JSON.parse(raw)) : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    await this.redis
+      .multi()
+      .set(this.keyFor(session.id), JSON.stringify(session))
+      .sadd(this.indexKey, session.id)
+      .exec();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .del(this.keyFor(sessionId))
+      .srem(this.indexKey, sessionId)
+      .exec();
+  }
+
+  async list(): Promise<ChatSession[]> {
+    const ids = await this.redis.smembers(this.indexKey);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const values = await this.redis.mget(ids.map((id) => this.keyFor(id)));
+    return values
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => reviveChatSession(JSON.parse(raw)));
+  }
+
+  private keyFor(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`;
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ThinkingLevel, MediaResolution } from '@google/genai';
 import { GeminiService } from './gemini.service';
 import { FileManagerService } from './file-manager.service';
@@ -12,7 +13,16 @@ import { ThinkingLevelInput, MediaResolutionInput } from './dto';
 import {
   AdvancedVideoAnalysisResult,
   AdvancedFrameData,
+  CustomAspect,
 } from '../lancedb/interfaces';
+import {
+  VideoSegment,
+  planSegments,
+  parseOffset,
+  toOffset,
+  mergeSegmentResults,
+  mapWithConcurrency,
+} from './segmentation';
 
 /**
  * JSON schema for structured video analysis output
@@ -173,6 +183,40 @@ CRITICAL RULES:
 6. Cover the ENTIRE video duration with dense extraction (every 2-3 seconds)
 7. Each timestamp entry should be comprehensive - include all aspects present at that moment`;
 
+/**
+ * User prompt for advanced extraction (whole video or one segment)
+ */
+const ADVANCED_EXTRACTION_PROMPT = `Perform comprehensive multi-modal analysis of this video. Extract EVERY detail about:
+1. ALL people (gender, age, ethnicity, clothing, emotions, actions, features)
+2. ALL objects (name, color, brand, state)
+3. Scene details (location, lighting, weather, mood)
+4. ALL audio (transcribe ALL speech word-for-word, describe music and sounds)
+5. ALL text visible on screen
+6. ALL actions and events
+
+Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this will be used for semantic search.`;
+
+/**
+ * Appended to the prompt when only one segment of a longer video is sent
+ */
+const SEGMENT_PROMPT_SUFFIX = `
+
+This clip is one segment of a longer video. Give every timestamp relative to the start of this clip (the first moment of the clip is 00:00).`;
+
+/**
+ * Schema for the cheap request that measures a video's duration
+ */
+const DURATION_PROBE_SCHEMA = {
+  type: 'object',
+  properties: {
+    durationSeconds: {
+      type: 'number',
+      description: 'Total duration of the video in seconds',
+    },
+  },
+  required: ['durationSeconds'],
+};
+
 /**
  * Advanced extraction response schema for comprehensive multi-modal data
  */
@@ -383,6 +427,71 @@ const ADVANCED_EXTRACTION_SCHEMA = {
   required: ['summary', 'frames', 'confidence'],
 };
 
+/**
+ * Instruction, prompt and response schema of one advanced extraction
+ */
+interface AdvancedExtractionRequest {
+  systemInstruction: string;
+  prompt: string;
+  responseSchema: Record<string, unknown>;
+}
+
+/**
+ * Extend the advanced extraction with custom aspects: their instructions are
+ * appended to the system instruction and their schemas are added under
+ * `customAspects` of each frame, keyed by aspect name
+ */
+function buildAdvancedExtractionRequest(
+  customAspects: CustomAspect[],
+): AdvancedExtractionRequest {
+  if (customAspects.length === 0) {
+    return {
+      systemInstruction: ADVANCED_EXTRACTION_INSTRUCTION,
+      prompt: ADVANCED_EXTRACTION_PROMPT,
+      responseSchema: ADVANCED_EXTRACTION_SCHEMA,
+    };
+  }
+
+  const sections = customAspects
+    .map((aspect) => `### ${aspect.name}\n${aspect.instructions}`)
+    .join('\n\n');
+  const { frames } = ADVANCED_EXTRACTION_SCHEMA.properties;
+
+  return {
+    systemInstruction: `${ADVANCED_EXTRACTION_INSTRUCTION}
+
+## CUSTOM ASPECTS
+Also extract each of these aspects into \`customAspects\` of every moment, keyed by the aspect name. Leave an aspect out of a moment where it does not apply.
+
+${sections}`,
+    prompt: `${ADVANCED_EXTRACTION_PROMPT}
+
+Also extract the custom aspects: ${customAspects.map((aspect) => aspect.name).join(', ')}.`,
+    responseSchema: {
+      ...ADVANCED_EXTRACTION_SCHEMA,
+      properties: {
+        ...ADVANCED_EXTRACTION_SCHEMA.properties,
+        frames: {
+          ...frames,
+          items: {
+            ...frames.items,
+            properties: {
+              ...frames.items.properties,
+              customAspects: {
+                type: 'object',
+                description: 'Custom aspects at this timestamp, by aspect name',
+                properties: Object.fromEntries(
+                  customAspects.map((aspect) => [aspect.name, aspect.schema]),
+                ),
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
 /**
  * Default system instruction for anti-hallucination strategy (SEASON prompt)
  */
@@ -410,11 +519,25 @@ const DEFAULT_SYSTEM_INSTRUCTION = `You are a video analyst. Follow these rules
 @Injectable()
 export class VideoAnalyzeService {
   private readonly logger = new Logger(VideoAnalyzeService.name);
+  private readonly segmentSeconds: number;
+  private readonly segmentOverlapSeconds: number;
+  private readonly segmentConcurrency: number;
 
   constructor(
     private readonly geminiService: GeminiService,
     private readonly fileManagerService: FileManagerService,
-  ) {}
+    private readonly configService: ConfigService,
+  ) {
+    this.segmentSeconds = Number(
+      this.configService.get<number>('EXTRACTION_SEGMENT_SECONDS', 180),
+    );
+    this.segmentOverlapSeconds = Number(
+      this.configService.get<number>('EXTRACTION_SEGMENT_OVERLAP_SECONDS', 5),
+    );
+    this.segmentConcurrency = Number(
+      this.configService.get<number>('EXTRACTION_SEGMENT_CONCURRENCY', 3),
+    );
+  }
 
   /**
    * Convert input thinking level to SDK type
@@ -1060,68 +1183,14 @@ export class VideoAnalyzeService {
     options: {
       thinkingLevel?: ThinkingLevelInput;
       mediaResolution?: MediaResolutionInput;
+      durationSeconds?: number;
+      customAspects?: CustomAspect[];
     } = {},
   ): Promise<AdvancedVideoAnalysisResult> {
-    const {
-      thinkingLevel = ThinkingLevelInput.HIGH,
-      mediaResolution = MediaResolutionInput.HIGH,
-    } = options;
-
-    const sdkThinkingLevel = this.toSdkThinkingLevel(thinkingLevel);
-    const sdkMediaResolution = this.toSdkMediaResolution(mediaResolution);
-
-    const modelsApi = this.geminiService.getModelsApi();
-    const modelName = this.geminiService.getModelName();
-
     this.logger.log(`Starting advanced multi-modal extraction for: ${fileUri}`);
 
     try {
-      const response = await this.executeWithRetry(
-        () =>
-          modelsApi.generateContent({
-            model: modelName,
-            contents: [
-              {
-                role: 'user',
-                parts: [
-                  {
-                    fileData: {
-                      fileUri,
-                      mimeType,
-                    },
-                  },
-                  {
-                    text: `Perform comprehensive multi-modal analysis of this video. Extract EVERY detail about:
-1. ALL people (gender, age, ethnicity, clothing, emotions, actions, features)
-2. ALL objects (name, color, brand, state)
-3. Scene details (location, lighting, weather, mood)
-4. ALL audio (transcribe ALL speech word-for-word, describe music and sounds)
-5. ALL text visible on screen
-6. ALL actions and events
-
-Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this will be used for semantic search.`,
-                  },
-                ],
-              },
-            ],
-            config: {
-              systemInstruction: ADVANCED_EXTRACTION_INSTRUCTION,
-              thinkingConfig: {
-                thinkingLevel: sdkThinkingLevel,
-                includeThoughts: true,
-              },
-              mediaResolution: sdkMediaResolution,
-              responseMimeType: 'application/json',
-              responseSchema: ADVANCED_EXTRACTION_SCHEMA,
-            },
-          }),
-        {
-          maxRetries: 3,
-          baseDelayMs: 3000,
-        },
-      );
-
-      return this.parseAdvancedExtractionResponse(response);
+      return await this.runAdvancedExtraction({ fileUri, mimeType }, options);
     } catch (error) {
       this.logger.error(
         `Advanced extraction failed: ${error.message}`,
@@ -1148,86 +1217,15 @@ Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this wil
       mediaResolution?: MediaResolutionInput;
       startOffset?: string;
       endOffset?: string;
+      customAspects?: CustomAspect[];
     } = {},
   ): Promise<AdvancedVideoAnalysisResult> {
-    const {
-      thinkingLevel = ThinkingLevelInput.HIGH,
-      mediaResolution = MediaResolutionInput.HIGH,
-      startOffset,
-      endOffset,
-    } = options;
-
-    const sdkThinkingLevel = this.toSdkThinkingLevel(thinkingLevel);
-    const sdkMediaResolution = this.toSdkMediaResolution(mediaResolution);
-
-    const modelsApi = this.geminiService.getModelsApi();
-    const modelName = this.geminiService.getModelName();
-
     this.logger.log(
       `Starting advanced multi-modal extraction for YouTube: ${youtubeUrl}`,
     );
 
     try {
-      // Build the file data part
-      const fileDataPart: any = {
-        fileData: {
-          fileUri: youtubeUrl,
-        },
-      };
-
-      // Add video metadata if clipping is specified
-      if (startOffset || endOffset) {
-        fileDataPart.videoMetadata = {};
-        if (startOffset) {
-          fileDataPart.videoMetadata.startOffset = startOffset;
-        }
-        if (endOffset) {
-          fileDataPart.videoMetadata.endOffset = endOffset;
-        }
-      }
-
-      const response = await this.executeWithRetry(
-        () =>
-          modelsApi.generateContent({
-            model: modelName,
-            contents: [
-              {
-                role: 'user',
-                parts: [
-                  fileDataPart,
-                  {
-                    text: `Perform comprehensive multi-modal analysis of this video. Extract EVERY detail about:
-1. ALL people (gender, age, ethnicity, clothing, emotions, actions, features)
-2. ALL objects (name, color, brand, state)
-3. Scene details (location, lighting, weather, mood)
-4. ALL audio (transcribe ALL speech word-for-word, describe music and sounds)
-5. ALL text visible on screen
-6. ALL actions and events
-
-Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this will be used for semantic search.`,
-                  },
-                ],
-              },
-            ],
-            config: {
-              systemInstruction: ADVANCED_EXTRACTION_INSTRUCTION,
-              thinkingConfig: {
-                thinkingLevel: sdkThinkingLevel,
-                includeThoughts: true,
-              },
-              mediaResolution: sdkMediaResolution,
-              // Note: Code execution is not enabled for YouTube URLs
-              responseMimeType: 'application/json',
-              responseSchema: ADVANCED_EXTRACTION_SCHEMA,
-            },
-          }),
-        {
-          maxRetries: 3,
-          baseDelayMs: 3000,
-        },
-      );
-
-      return this.parseAdvancedExtractionResponse(response);
+      return await this.runAdvancedExtraction({ fileUri: youtubeUrl }, options);
     } catch (error) {
       this.logger.error(
         `YouTube advanced extraction failed: ${error.message}`,
@@ -1261,6 +1259,231 @@ Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this wil
     }
   }
 
+  /**
+   * Run advanced extraction over a video or the clip given by its offsets
+   * Videos longer than one segment are split into windows that are extracted
+   * concurrently and merged, so long videos are not cut short by the output
+   * token limit. Set EXTRACTION_SEGMENT_SECONDS=0 to always use one request
+   */
+  private async runAdvancedExtraction(
+    fileData: { fileUri: string; mimeType?: string },
+    options: {
+      thinkingLevel?: ThinkingLevelInput;
+      mediaResolution?: MediaResolutionInput;
+      startOffset?: string;
+      endOffset?: string;
+      durationSeconds?: number;
+      customAspects?: CustomAspect[];
+    },
+  ): Promise<AdvancedVideoAnalysisResult> {
+    const { startOffset, endOffset, customAspects = [] } = options;
+    const config = {
+      thinkingLevel: this.toSdkThinkingLevel(
+        options.thinkingLevel ?? ThinkingLevelInput.HIGH,
+      ),
+      mediaResolution: this.toSdkMediaResolution(
+        options.mediaResolution ?? MediaResolutionInput.HIGH,
+      ),
+      request: buildAdvancedExtractionRequest(customAspects),
+    };
+
+    if (customAspects.length > 0) {
+      this.logger.log(
+        `Extracting custom aspects: ${customAspects.map((aspect) => aspect.name).join(', ')}`,
+      );
+    }
+
+    const { segments, estimatedEnd } = await this.planExtractionSegments(
+      fileData,
+      options,
+    );
+    if (segments.length <= 1) {
+      return this.extractAdvancedClip(fileData, config, {
+        startOffset,
+        endOffset,
+      });
+    }
+
+    this.logger.log(
+      `Extracting ${segments.length} segments of ~${this.segmentSeconds}s (${this.segmentConcurrency} at a time)`,
+    );
+
+    const results = await mapWithConcurrency(
+      segments,
+      this.segmentConcurrency,
+      (segment) =>
+        this.extractAdvancedClip(
+          fileData,
+          config,
+          {
+            startOffset: toOffset(segment.clipStartSeconds),
+            // An estimated end may be short: the last clip runs to the real end
+            endOffset:
+              estimatedEnd && segment.index === segments.length - 1
+                ? undefined
+                : toOffset(segment.endSeconds),
+          },
+          segment,
+        ),
+    );
+
+    const merged = mergeSegmentResults(segments, results);
+    this.logger.log(
+      `Merged ${segments.length} segments into ${merged.frames.length} frames`,
+    );
+
+    return merged;
+  }
+
+  /**
+   * Work out the segments to extract, or none when one request is enough
+   * The end comes from the end offset, the known duration or a duration probe;
+   * `estimatedEnd` is set when it is the probe's estimate
+   */
+  private async planExtractionSegments(
+    fileData: { fileUri: string; mimeType?: string },
+    options: {
+      startOffset?: string;
+      endOffset?: string;
+      durationSeconds?: number;
+    },
+  ): Promise<{ segments: VideoSegment[]; estimatedEnd: boolean }> {
+    if (!(this.segmentSeconds > 0)) {
+      return { segments: [], estimatedEnd: false };
+    }
+
+    const start = parseOffset(options.startOffset) ?? 0;
+    const knownEnd = parseOffset(options.endOffset) ?? options.durationSeconds;
+    const end = knownEnd ?? (await this.probeDurationSeconds(fileData));
+
+    if (!end || end <= start) {
+      return { segments: [], estimatedEnd: false };
+    }
+
+    return {
+      segments: planSegments(
+        start,
+        end,
+        this.segmentSeconds,
+        this.segmentOverlapSeconds,
+      ),
+      estimatedEnd: knownEnd === undefined,
+    };
+  }
+
+  /**
+   * Ask Gemini for a video's duration using a sparse, low-resolution sample
+   * Returns undefined when the duration can't be determined
+   */
+  private async probeDurationSeconds(fileData: {
+    fileUri: string;
+    mimeType?: string;
+  }): Promise<number | undefined> {
+    try {
+      const response = await this.executeWithRetry(
+        () =>
+          this.geminiService.getModelsApi().generateContent({
+            model: this.geminiService.getModelName(),
+            contents: [
+              {
+                role: 'user',
+                parts: [
+                  { fileData, videoMetadata: { fps: 0.1 } },
+                  { text: 'What is the total duration of this video?' },
+                ],
+              },
+            ],
+            config: {
+              thinkingConfig: { thinkingLevel: ThinkingLevel.MINIMAL },
+              mediaResolution: MediaResolution.MEDIA_RESOLUTION_LOW,
+              responseMimeType: 'application/json',
+              responseSchema: DURATION_PROBE_SCHEMA,
+            },
+          }),
+        { maxRetries: 2, operationName: 'Duration probe' },
+      );
+
+      const durationSeconds = Number(
+        JSON.parse(response.text || '{}').durationSeconds,
+      );
+      if (Number.isFinite(durationSeconds) && durationSeconds > 0) {
+        this.logger.log(`Probed video duration: ${durationSeconds}s`);
+        return durationSeconds;
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to probe video duration: ${error.message}`);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Extract one clip of a video in a single request
+   * @param segment Set when the clip is one segment of a longer video
+   */
+  private async extractAdvancedClip(
+    fileData: { fileUri: string; mimeType?: string },
+    config: {
+      thinkingLevel: ThinkingLevel;
+      mediaResolution: MediaResolution;
+      request: AdvancedExtractionRequest;
+    },
+    clip: { startOffset?: string; endOffset?: string },
+    segment?: VideoSegment,
+  ): Promise<AdvancedVideoAnalysisResult> {
+    const fileDataPart: any = { fileData };
+
+    // Add video metadata if clipping is specified
+    if (clip.startOffset || clip.endOffset) {
+      fileDataPart.videoMetadata = {};
+      if (clip.startOffset) {
+        fileDataPart.videoMetadata.startOffset = clip.startOffset;
+      }
+      if (clip.endOffset) {
+        fileDataPart.videoMetadata.endOffset = clip.endOffset;
+      }
+    }
+
+    const response = await this.executeWithRetry(
+      () =>
+        this.geminiService.getModelsApi().generateContent({
+          model: this.geminiService.getModelName(),
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                fileDataPart,
+                {
+                  text: segment
+                    ? config.request.prompt + SEGMENT_PROMPT_SUFFIX
+                    : config.request.prompt,
+                },
+              ],
+            },
+          ],
+          config: {
+            systemInstruction: config.request.systemInstruction,
+            thinkingConfig: {
+              thinkingLevel: config.thinkingLevel,
+              includeThoughts: true,
+            },
+            mediaResolution: config.mediaResolution,
+            responseMimeType: 'application/json',
+            responseSchema: config.request.responseSchema,
+          },
+        }),
+      {
+        maxRetries: 3,
+        baseDelayMs: 3000,
+        operationName: segment
+          ? `Advanced extraction of segment ${segment.index + 1}`
+          : 'Advanced extraction',
+      },
+    );
+
+    return this.parseAdvancedExtractionResponse(response);
+  }
+
   /**
    * Parse advanced extraction response into structured data
    */
@@ -1391,6 +1614,12 @@ Cover the ENTIRE video at 2-3 second intervals. Be extremely thorough - this wil
           }))
         : [],
       actionDescription: frame.actionDescription,
+      customAspects:
+        frame.customAspects &&
+        typeof frame.customAspects === 'object' &&
+        !Array.isArray(frame.customAspects)
+          ? frame.customAspects
+          : undefined,
     };
   }
 
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { CleanupService } from './cleanup.service';
+import { EmbeddingMigrationService } from './embedding-migration.service';
+import { ConsistencyService } from './consistency.service';
+import { VideoSearchService } from './video-search.service';
+import { EvaluationService } from './evaluation.service';
+import { StartEmbeddingMigrationDto, RunEvaluationDto } from './dto';
+
+/**
+ * Operational endpoints for maintenance tasks
+ */
+@Controller('lancedb/admin')
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(
+    private readonly cleanupService: CleanupService,
+    private readonly embeddingMigrationService: EmbeddingMigrationService,
+    private readonly consistencyService: ConsistencyService,
+    private readonly videoSearchService: VideoSearchService,
+    private readonly evaluationService: EvaluationService,
+  ) {}
+
+  /**
+   * Get cleanup sweeper configuration and cumulative metrics
+   */
+  @Get('cleanup')
+  getCleanupMetrics() {
+    return this.cleanupService.getMetrics();
+  }
+
+  /**
+   * Run a cleanup sweep immediately
+   * Ends idle chat sessions and deletes orphaned Gemini uploads
+   */
+  @Post('cleanup')
+  async runCleanup() {
+    this.logger.log('Manual cleanup requested');
+    return this.cleanupService.runCleanup();
+  }
+
+  /**
+   * Re-embed all frames with another embedding model (runs in the background)
+   * Reads switch to the new tables once every row has been copied
+   */
+  @Post('embedding-migrations')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startEmbeddingMigration(@Body() dto: StartEmbeddingMigrationDto) {
+    this.logger.log(
+      `Embedding migration requested: ${dto.provider}/${dto.model || 'default model'}`,
+    );
+    return this.embeddingMigrationService.start(dto);
+  }
+
+  /**
+   * List re-embedding migrations, newest first
+   */
+  @Get('embedding-migrations')
+  async listEmbeddingMigrations() {
+    const migrations = await this.embeddingMigrationService.listMigrations();
+    return { migrations, count: migrations.length };
+  }
+
+  /**
+   * Get the progress of a re-embedding migration
+   */
+  @Get('embedding-migrations/:id')
+  async getEmbeddingMigration(@Param('id') id: string) {
+    return this.embeddingMigrationService.getMigration(id);
+  }
+
+  /**
+   * Resume a failed or interrupted re-embedding migration
+   */
+  @Post('embedding-migrations/:id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resumeEmbeddingMigration(@Param('id') id: string) {
+    return this.embeddingMigrationService.resume(id);
+  }
+
+  /**
+   * Check the videos table against the frame tables
+   * Reports orphan frames, videos without frames and frame count mismatches
+   */
+  @Get('consistency')
+  async checkConsistency() {
+    return this.consistencyService.check();
+  }
+
+  /**
+   * Fix the inconsistencies reported by the consistency check
+   */
+  @Post('consistency/repair')
+  async repairConsistency() {
+    this.logger.log('Consistency repair requested');
+    return this.consistencyService.repair();
+  }
+
+  /**
+   * Build the video-level vectors of videos that have none
+   * Needed once for videos indexed before video search existed
+   */
+  @Post('video-vectors')
+  async backfillVideoVectors() {
+    this.logger.log('Video vector backfill requested');
+    return this.videoSearchService.indexMissingVideos();
+  }
+
+  /**
+   * Score retrieval against a golden question set under one or more
+   * configurations, optionally on a fixture database (no Gemini calls)
+   */
+  @Post('evaluations')
+  async runEvaluation(@Body() dto: RunEvaluationDto) {
+    this.logger.log(`Retrieval evaluation requested: ${dto.dataset}`);
+    const dataset = await this.evaluationService.loadDataset(
+      this.evaluationService.resolveDatasetPath(dto.dataset),
+    );
+    return this.evaluationService.evaluate(
+      dataset,
+      dto.configurations,
+      dto.fixture
+        ? this.evaluationService.resolveFixturePath(dto.fixture)
+        : undefined,
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { aspectSchemaErrors, MAX_ASPECT_SCHEMA_DEPTH } from './aspect-schema';
+
+describe('aspectSchemaErrors', () => {
+  it('accepts the OpenAPI subset Gemini supports', () => {
+    expect(
+      aspectSchemaErrors({
+        type: 'object',
+        description: 'Vehicles in view',
+        properties: {
+          plates: {
+            type: 'array',
+            maxItems: 10,
+            items: { type: 'string', nullable: true },
+          },
+          color: { type: 'string', enum: ['red', 'blue'] },
+          count: { type: 'integer' },
+        },
+        required: ['plates'],
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects non-objects and unknown types', () => {
+    expect(aspectSchemaErrors('string')).toEqual(['schema must be an object']);
+    expect(aspectSchemaErrors([])).toEqual(['schema must be an object']);
+    expect(aspectSchemaErrors({ type: 'date' })).toEqual([
+      'schema.type must be one of string, number, integer, boolean, array, object',
+    ]);
+  });
+
+  it('reports unsupported keywords by path', () => {
+    expect(
+      aspectSchemaErrors({
+        type: 'object',
+        properties: { name: { type: 'string', pattern: '^a' } },
+        additionalProperties: false,
+      }),
+    ).toEqual([
+      'schema.additionalProperties is not supported',
+      'schema.properties.name.pattern is not supported',
+    ]);
+  });
+
+  it('requires items for arrays and properties for objects', () => {
+    expect(aspectSchemaErrors({ type: 'array' })).toEqual([
+      'schema.items is required for arrays',
+    ]);
+    expect(aspectSchemaErrors({ type: 'object', properties: {} })).toEqual([
+      'schema.properties must name at least one property',
+    ]);
+  });
+
+  it('checks enum, description and required values', () => {
+    expect(
+      aspectSchemaErrors({
+        type: 'object',
+        properties: {
+          level: { type: 'number', enum: ['1'] },
+          mood: { type: 'string', enum: [] },
+          note: { type: 'string', description: 3 },
+        },
+        required: ['missing'],
+      }),
+    ).toEqual([
+      'schema.properties.level.enum must be a non-empty list of strings',
+      'schema.properties.mood.enum must be a non-empty list of strings',
+      'schema.properties.note.description must be a string',
+      'schema.required must list names of properties',
+    ]);
+  });
+
+  it('limits how deeply schemas nest', () => {
+    let schema: Record<string, unknown> = { type: 'string' };
+    for (let i = 0; i <= MAX_ASPECT_SCHEMA_DEPTH; i++) {
+      schema = { type: 'array', items: schema };
+    }
+
+    expect(aspectSchemaErrors(schema)).toEqual([
+      `schema${'.items'.repeat(MAX_ASPECT_SCHEMA_DEPTH + 1)} is nested deeper than ${MAX_ASPECT_SCHEMA_DEPTH}`,
+    ]);
+  });
+});
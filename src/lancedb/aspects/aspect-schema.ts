@@ -0,0 +1,119 @@
+/**
+ * Deepest nesting of objects and arrays a custom aspect schema may use
+ */
+export const MAX_ASPECT_SCHEMA_DEPTH = 5;
+
+/**
+ * Types Gemini structured output supports
+ */
+const SCHEMA_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'array',
+  'object',
+];
+
+/**
+ * Keywords of the OpenAPI schema subset Gemini accepts as a response schema
+ */
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'minItems',
+  'maxItems',
+];
+
+/**
+ * Problems that keep a custom aspect schema from being sent to Gemini as part
+ * of the extraction response schema (none when valid)
+ */
+export function aspectSchemaErrors(schema: unknown): string[] {
+  const errors: string[] = [];
+  checkSchema(schema, 'schema', 0, errors);
+  return errors;
+}
+
+/**
+ * Check one schema node and its children, collecting errors by path
+ */
+function checkSchema(
+  schema: unknown,
+  path: string,
+  depth: number,
+  errors: string[],
+): void {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (depth > MAX_ASPECT_SCHEMA_DEPTH) {
+    errors.push(`${path} is nested deeper than ${MAX_ASPECT_SCHEMA_DEPTH}`);
+    return;
+  }
+
+  const node = schema as Record<string, unknown>;
+  for (const keyword of Object.keys(node)) {
+    if (!SCHEMA_KEYWORDS.includes(keyword)) {
+      errors.push(`${path}.${keyword} is not supported`);
+    }
+  }
+
+  if (!SCHEMA_TYPES.includes(node.type as string)) {
+    errors.push(`${path}.type must be one of ${SCHEMA_TYPES.join(', ')}`);
+    return;
+  }
+
+  if (node.description !== undefined && typeof node.description !== 'string') {
+    errors.push(`${path}.description must be a string`);
+  }
+  if (
+    node.enum !== undefined &&
+    (node.type !== 'string' ||
+      !Array.isArray(node.enum) ||
+      node.enum.length === 0 ||
+      !node.enum.every((value) => typeof value === 'string'))
+  ) {
+    errors.push(`${path}.enum must be a non-empty list of strings`);
+  }
+
+  if (node.type === 'array') {
+    if (node.items === undefined) {
+      errors.push(`${path}.items is required for arrays`);
+    } else {
+      checkSchema(node.items, `${path}.items`, depth + 1, errors);
+    }
+  }
+
+  if (node.type === 'object') {
+    const properties = node.properties;
+    if (
+      typeof properties !== 'object' ||
+      properties === null ||
+      Array.isArray(properties) ||
+      Object.keys(properties).length === 0
+    ) {
+      errors.push(`${path}.properties must name at least one property`);
+      return;
+    }
+
+    for (const [name, property] of Object.entries(properties)) {
+      checkSchema(property, `${path}.properties.${name}`, depth + 1, errors);
+    }
+
+    if (
+      node.required !== undefined &&
+      (!Array.isArray(node.required) ||
+        !node.required.every((name) => name in properties))
+    ) {
+      errors.push(`${path}.required must list names of properties`);
+    }
+  }
+}
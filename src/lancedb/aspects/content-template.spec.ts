@@ -0,0 +1,101 @@
+import {
+  contentTemplateErrors,
+  isEmptyAspectValue,
+  renderContentTemplate,
+} from './content-template';
+
+describe('renderContentTemplate', () => {
+  it('inserts dotted fields and joins lists with commas', () => {
+    expect(
+      renderContentTemplate('Plate {{plate.number}} ({{plate.tags}})', {
+        plate: { number: 'AB-123', tags: ['red', null, 'parked'] },
+      }),
+    ).toBe('Plate AB-123 (red, parked)');
+  });
+
+  it('repeats a section for each list item, joined by semicolons', () => {
+    expect(
+      renderContentTemplate('{{#people}}{{name}} holds {{items}}{{/people}}', {
+        people: [
+          { name: 'Ann', items: ['cup'] },
+          { name: 'Bo', items: ['pen', 'book'] },
+        ],
+      }),
+    ).toBe('Ann holds cup; Bo holds pen, book');
+  });
+
+  it('renders {{.}} as the current item of a list of values', () => {
+    expect(
+      renderContentTemplate('Brands: {{#brands}}<{{.}}>{{/brands}}', {
+        brands: ['Acme', 'Globex'],
+      }),
+    ).toBe('Brands: <Acme>; <Globex>');
+  });
+
+  it('looks names up in the enclosing scopes', () => {
+    expect(
+      renderContentTemplate('{{#cars}}{{color}} car on {{street}}{{/cars}}', {
+        street: 'Main St',
+        cars: [{ color: 'red' }, { color: 'blue', street: 'Elm St' }],
+      }),
+    ).toBe('red car on Main St; blue car on Elm St');
+  });
+
+  it('skips sections for empty values, false and empty items', () => {
+    expect(
+      renderContentTemplate(
+        'A{{#missing}}x{{/missing}}{{#off}}y{{/off}}{{#empty}}z{{/empty}}B' +
+          '{{#list}}{{name}}{{/list}}',
+        { off: false, empty: { a: ' ' }, list: [{}, { name: 'n' }] },
+      ),
+    ).toBe('ABn');
+  });
+
+  it('renders a non-empty object section once', () => {
+    expect(
+      renderContentTemplate('{{#weather}}{{sky}}, {{temp}}C{{/weather}}', {
+        weather: { sky: 'clear', temp: 21 },
+      }),
+    ).toBe('clear, 21C');
+  });
+
+  it('collapses whitespace to one line', () => {
+    expect(renderContentTemplate('  {{a}}\n\n  {{b}}  ', { a: 1, b: 2 })).toBe(
+      '1 2',
+    );
+  });
+});
+
+describe('contentTemplateErrors', () => {
+  it('accepts a template that references the value', () => {
+    expect(contentTemplateErrors('{{#items}}{{.}}{{/items}}')).toEqual([]);
+  });
+
+  it('reports templates without tags, bad tags and unbalanced sections', () => {
+    expect(contentTemplateErrors('no tags')).toHaveLength(1);
+    expect(contentTemplateErrors('{{a b}}')).toEqual([
+      'Invalid template tag {{a b}}',
+    ]);
+    expect(contentTemplateErrors('{{#a}}x{{/b}}')).toEqual([
+      'Unexpected closing tag {{/b}}',
+    ]);
+    expect(contentTemplateErrors('{{#a}}x')).toEqual([
+      'Unclosed section {{#a}}',
+    ]);
+  });
+});
+
+describe('isEmptyAspectValue', () => {
+  it('treats null, blank text and containers of empty values as empty', () => {
+    expect(isEmptyAspectValue(null)).toBe(true);
+    expect(isEmptyAspectValue('  ')).toBe(true);
+    expect(isEmptyAspectValue([null, ''])).toBe(true);
+    expect(isEmptyAspectValue({ a: [], b: { c: null } })).toBe(true);
+  });
+
+  it('treats numbers and booleans as values', () => {
+    expect(isEmptyAspectValue(0)).toBe(false);
+    expect(isEmptyAspectValue(false)).toBe(false);
+    expect(isEmptyAspectValue({ a: null, b: 'x' })).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Parsed piece of a content template
+ */
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'section'; path: string; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*(.*?)\s*\}\}/g;
+
+/** `.` for the current item, otherwise a dotted property path */
+const PATH_PATTERN = /^(?:\.|[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)$/;
+
+/**
+ * Whether an extracted value carries nothing worth indexing: null, blank
+ * text, an empty list, or an object whose fields are all empty
+ */
+export function isEmptyAspectValue(value: unknown): boolean {
+  if (value === null || value === undefined) {
+    return true;
+  }
+  if (typeof value === 'string') {
+    return value.trim() === '';
+  }
+  if (Array.isArray(value)) {
+    return value.every(isEmptyAspectValue);
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).every(isEmptyAspectValue);
+  }
+  return false;
+}
+
+/**
+ * Problems that keep a content template from rendering (none when valid)
+ */
+export function contentTemplateErrors(template: string): string[] {
+  try {
+    const nodes = parseContentTemplate(template);
+    return nodes.some((node) => node.kind !== 'text')
+      ? []
+      : ['contentTemplate must reference the extracted value with {{...}}'];
+  } catch (error) {
+    return [error.message];
+  }
+}
+
+/**
+ * Render an extracted aspect value with a content template
+ * `{{path}}` inserts a (dotted) field, with lists joined by ", ";
+ * `{{#path}}...{{/path}}` repeats its body for each item of a list, joined by
+ * "; ", or renders it once for a non-empty object; `{{.}}` is the current item.
+ * Names missing from the current item are looked up in the enclosing ones.
+ * Whitespace is collapsed so the result is one line of searchable text
+ */
+export function renderContentTemplate(
+  template: string,
+  value: unknown,
+): string {
+  return renderNodes(parseContentTemplate(template), [value])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a template into text, values and (nested) sections
+ * Throws on malformed tags and unbalanced sections
+ */
+function parseContentTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: Array<{ path?: string; children: TemplateNode[] }> = [
+    { children: root },
+  ];
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, marker, path] = match;
+    const current = open[open.length - 1];
+
+    if (match.index > position) {
+      current.children.push({
+        kind: 'text',
+        text: template.slice(position, match.index),
+      });
+    }
+    position = match.index + tag.length;
+
+    if (!PATH_PATTERN.test(path)) {
+      throw new Error(`Invalid template tag ${tag}`);
+    }
+
+    if (marker === '#') {
+      const section: TemplateNode = { kind: 'section', path, children: [] };
+      current.children.push(section);
+      open.push(section);
+    } else if (marker === '/') {
+      if (current.path !== path) {
+        throw new Error(`Unexpected closing tag ${tag}`);
+      }
+      open.pop();
+    } else {
+      current.children.push({ kind: 'value', path });
+    }
+  }
+
+  if (open.length > 1) {
+    throw new Error(`Unclosed section {{#${open[open.length - 1].path}}}`);
+  }
+  if (position < template.length) {
+    root.push({ kind: 'text', text: template.slice(position) });
+  }
+
+  return root;
+}
+
+/**
+ * Render nodes against a stack of scopes, innermost last
+ */
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  return nodes
+    .map((node) => {
+      if (node.kind === 'text') {
+        return node.text;
+      }
+
+      const value = lookup(node.path, scopes);
+      if (node.kind === 'value') {
+        return formatValue(value);
+      }
+
+      const items = Array.isArray(value)
+        ? value
+        : value === false || isEmptyAspectValue(value)
+          ? []
+          : [value];
+      return items
+        .map((item) => renderNodes(node.children, [...scopes, item]).trim())
+        .filter((text) => text.length > 0)
+        .join('; ');
+    })
+    .join('');
+}
+
+/**
+ * Resolve a path in the innermost scope that has its first name
+ */
+function lookup(path: string, scopes: unknown[]): unknown {
+  if (path === '.') {
+    return scopes[scopes.length - 1];
+  }
+
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (isRecord(scope) && head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (isRecord(value) ? value[key] : undefined),
+        scope[head],
+      );
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Text for one inserted value
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(formatValue)
+      .filter((text) => text.length > 0)
+      .join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Plain object check (arrays excluded)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
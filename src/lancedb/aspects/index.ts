@@ -0,0 +1,2 @@
+export * from './aspect-schema';
+export * from './content-template';
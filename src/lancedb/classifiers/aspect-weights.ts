@@ -0,0 +1,110 @@
+import {
+  AspectType,
+  AspectWeights,
+  BuiltInAspectType,
+  CustomAspect,
+} from '../interfaces';
+
+/**
+ * Built-in aspects stored for every enhanced frame
+ */
+export const ASPECT_TYPES: BuiltInAspectType[] = [
+  'people',
+  'objects',
+  'scene',
+  'audio',
+  'action',
+  'text',
+];
+
+/**
+ * Built-in aspects followed by the given custom aspects
+ */
+export function aspectTypesWith(customAspects: CustomAspect[]): AspectType[] {
+  return [...ASPECT_TYPES, ...customAspects.map((aspect) => aspect.name)];
+}
+
+/**
+ * Same weight for every aspect, used when a query gives no signal
+ */
+export function uniformWeights(
+  aspects: AspectType[] = ASPECT_TYPES,
+): AspectWeights {
+  return normalizeWeights({}, aspects);
+}
+
+/**
+ * Scale non-negative scores of the given aspects to weights summing to 1
+ * Missing, negative or non-finite scores count as 0; all zero gives uniform weights
+ */
+export function normalizeWeights(
+  scores: Partial<Record<AspectType, number>>,
+  aspects: AspectType[] = ASPECT_TYPES,
+): AspectWeights {
+  const values = aspects.map((aspect) => {
+    const score = Number(scores[aspect]);
+    return Number.isFinite(score) && score > 0 ? score : 0;
+  });
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  return Object.fromEntries(
+    aspects.map((aspect, i) => [
+      aspect,
+      total > 0 ? values[i] / total : 1 / aspects.length,
+    ]),
+  ) as AspectWeights;
+}
+
+/**
+ * How far weights are from uniform: 0 when uniform, 1 when one aspect has
+ * all the weight
+ */
+export function weightConfidence(weights: AspectWeights): number {
+  const aspects = Object.keys(weights);
+  const uniform = 1 / aspects.length;
+  const top = Math.max(...aspects.map((aspect) => weights[aspect] ?? 0));
+  return Math.max(0, (top - uniform) / (1 - uniform));
+}
+
+/**
+ * Split a result limit across aspects in proportion to their weights
+ * Uses largest remainders so the parts add up to `limit`; aspects whose share
+ * rounds to nothing are left out. Returns undefined for uniform weights,
+ * where one unfiltered search already serves every aspect
+ */
+export function allocateAspectLimits(
+  weights: AspectWeights,
+  limit: number,
+): Partial<Record<AspectType, number>> | undefined {
+  const aspects = Object.keys(weights);
+  const normalized = normalizeWeights(weights, aspects);
+  const uniform = 1 / aspects.length;
+  if (
+    aspects.every((aspect) => Math.abs(normalized[aspect] - uniform) < 1e-6)
+  ) {
+    return undefined;
+  }
+
+  const shares = aspects.map((aspect) => ({
+    aspect,
+    exact: normalized[aspect] * limit,
+    count: Math.floor(normalized[aspect] * limit),
+  }));
+
+  let remaining = limit - shares.reduce((sum, share) => sum + share.count, 0);
+  for (const share of [...shares].sort(
+    (a, b) => b.exact - b.count - (a.exact - a.count),
+  )) {
+    if (remaining <= 0) {
+      break;
+    }
+    share.count++;
+    remaining--;
+  }
+
+  return Object.fromEntries(
+    shares
+      .filter((share) => share.count > 0)
+      .map((share) => [share.aspect, share.count]),
+  );
+}
@@ -0,0 +1,131 @@
+import { Logger } from '@nestjs/common';
+import { ThinkingLevel } from '@google/genai';
+import { GeminiService } from '../../gemini/gemini.service';
+import { CustomAspect, QueryClassification } from '../interfaces';
+import { QueryClassifier } from './query-classifier';
+import {
+  ASPECT_TYPES,
+  aspectTypesWith,
+  normalizeWeights,
+  weightConfidence,
+} from './aspect-weights';
+
+/**
+ * Structured output: one relevance score per aspect
+ */
+const ASPECT_WEIGHTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    people: {
+      type: 'number',
+      description:
+        'Relevance of the people shown (appearance, clothing, emotions), 0-1',
+    },
+    objects: {
+      type: 'number',
+      description: 'Relevance of objects, products and brands, 0-1',
+    },
+    scene: {
+      type: 'number',
+      description: 'Relevance of the location, setting and camera work, 0-1',
+    },
+    audio: {
+      type: 'number',
+      description: 'Relevance of speech, dialogue, music and sounds, 0-1',
+    },
+    action: {
+      type: 'number',
+      description: 'Relevance of actions and events, 0-1',
+    },
+    text: {
+      type: 'number',
+      description: 'Relevance of on-screen text (titles, captions, signs), 0-1',
+    },
+  },
+  required: ASPECT_TYPES,
+};
+
+/**
+ * Weights schema with a score for each custom aspect added
+ */
+function aspectWeightsSchema(customAspects: CustomAspect[]) {
+  if (customAspects.length === 0) {
+    return ASPECT_WEIGHTS_SCHEMA;
+  }
+
+  return {
+    ...ASPECT_WEIGHTS_SCHEMA,
+    properties: {
+      ...ASPECT_WEIGHTS_SCHEMA.properties,
+      ...Object.fromEntries(
+        customAspects.map((aspect) => [
+          aspect.name,
+          {
+            type: 'number',
+            description: `Relevance of ${aspect.name}: ${aspect.description}, 0-1`,
+          },
+        ]),
+      ),
+    },
+    required: aspectTypesWith(customAspects),
+  };
+}
+
+/**
+ * Classifier asking Gemini to score each aspect
+ * Falls back to another classifier when the request fails
+ */
+export class GeminiQueryClassifier implements QueryClassifier {
+  readonly type = 'gemini';
+
+  private readonly logger = new Logger(GeminiQueryClassifier.name);
+
+  constructor(
+    private readonly geminiService: GeminiService,
+    private readonly fallback: QueryClassifier,
+  ) {}
+
+  async classify(
+    query: string,
+    customAspects: CustomAspect[] = [],
+  ): Promise<QueryClassification> {
+    try {
+      const response = await this.geminiService.getModelsApi().generateContent({
+        model: this.geminiService.getModelName(),
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                text: `A question will be answered from frame descriptions of a video, stored per aspect. Score how relevant each aspect is to answering it.
+
+Question: ${query}`,
+              },
+            ],
+          },
+        ],
+        config: {
+          thinkingConfig: { thinkingLevel: ThinkingLevel.MINIMAL },
+          responseMimeType: 'application/json',
+          responseSchema: aspectWeightsSchema(customAspects),
+          maxOutputTokens: 256,
+        },
+      });
+
+      const weights = normalizeWeights(
+        JSON.parse(response.text || '{}'),
+        aspectTypesWith(customAspects),
+      );
+      return {
+        weights,
+        confidence: weightConfidence(weights),
+        classifier: this.type,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Gemini query classification failed, using ${this.fallback.type} classifier: ${error.message}`,
+      );
+      return this.fallback.classify(query, customAspects);
+    }
+  }
+}
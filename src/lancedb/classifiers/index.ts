@@ -0,0 +1,6 @@
+export * from './query-classifier';
+export * from './aspect-weights';
+export * from './keyword-query-classifier';
+export * from './zero-shot-query-classifier';
+export * from './gemini-query-classifier';
+export * from './query-classifier.factory';
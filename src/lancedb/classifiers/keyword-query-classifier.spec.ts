@@ -0,0 +1,69 @@
+import { CustomAspect } from '../interfaces';
+import { KeywordQueryClassifier } from './keyword-query-classifier';
+
+function customAspect(name: string, keywords: string[] = []): CustomAspect {
+  return {
+    name,
+    description: name,
+    instructions: name,
+    schema: { type: 'string' },
+    contentTemplate: '{{value}}',
+    keywords,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+describe('KeywordQueryClassifier', () => {
+  const classifier = new KeywordQueryClassifier();
+
+  it('does not match keywords inside longer words', async () => {
+    // "he" in "the", "old" in "hold", "man" in "manage", "car" in "scarf"
+    const result = await classifier.classify('hold the scarf to manage it');
+
+    expect(result.confidence).toBe(0.3);
+    expect(new Set(Object.values(result.weights))).toEqual(new Set([1 / 6]));
+  });
+
+  it('matches whole words and their plurals', async () => {
+    const result = await classifier.classify('how many cars and boxes');
+
+    expect(result.weights.objects).toBe(1);
+    expect(result.confidence).toBeCloseTo(2 / 3);
+  });
+
+  it('matches keywords of several words', async () => {
+    const result = await classifier.classify('what is the time of day');
+
+    expect(result.weights.scene).toBeGreaterThan(0);
+    expect(result.weights.objects).toBeGreaterThan(0);
+  });
+
+  it('ignores punctuation and case around a keyword', async () => {
+    const result = await classifier.classify('Who?');
+
+    expect(result.weights.people).toBe(1);
+  });
+
+  it('weighs custom aspects by their keywords, or else their name', async () => {
+    const result = await classifier.classify(
+      'which plates and logos are shown',
+      [customAspect('license_plates'), customAspect('brands', ['logo'])],
+    );
+
+    expect(result.weights.license_plates).toBeGreaterThan(0);
+    expect(result.weights.brands).toBeGreaterThan(0);
+    expect(result.weights.people).toBe(0);
+  });
+
+  it('escapes regular expression characters in custom keywords', async () => {
+    const aspects = [customAspect('schedule', ['a.m'])];
+
+    expect(
+      (await classifier.classify('by 9 a.m today', aspects)).weights.schedule,
+    ).toBe(1);
+    expect(
+      (await classifier.classify('by 9 axm today', aspects)).weights.schedule,
+    ).toBeCloseTo(1 / 7);
+  });
+});
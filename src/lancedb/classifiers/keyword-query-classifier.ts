@@ -0,0 +1,252 @@
+import {
+  AspectType,
+  BuiltInAspectType,
+  CustomAspect,
+  QueryClassification,
+} from '../interfaces';
+import { QueryClassifier } from './query-classifier';
+import {
+  aspectTypesWith,
+  normalizeWeights,
+  uniformWeights,
+} from './aspect-weights';
+
+/**
+ * Keywords for query classification
+ */
+const ASPECT_KEYWORDS: Record<BuiltInAspectType, string[]> = {
+  people: [
+    'person',
+    'people',
+    'man',
+    'woman',
+    'guy',
+    'girl',
+    'boy',
+    'child',
+    'kid',
+    'gender',
+    'male',
+    'female',
+    'age',
+    'old',
+    'young',
+    'race',
+    'ethnicity',
+    'skin',
+    'hair',
+    'wearing',
+    'clothes',
+    'clothing',
+    'dressed',
+    'outfit',
+    'emotion',
+    'expression',
+    'face',
+    'facial',
+    'looking',
+    'appearance',
+    'who',
+    'somebody',
+    'someone',
+    'anybody',
+    'anyone',
+    'he',
+    'she',
+    'they',
+  ],
+  audio: [
+    'say',
+    'said',
+    'speak',
+    'spoke',
+    'talk',
+    'talking',
+    'voice',
+    'hear',
+    'sound',
+    'noise',
+    'music',
+    'song',
+    'dialogue',
+    'conversation',
+    'word',
+    'listen',
+    'audio',
+    'speech',
+    'mention',
+    'tell',
+    'told',
+    'ask',
+    'asked',
+    'shout',
+    'whisper',
+    'sing',
+    'language',
+    'accent',
+    'tone',
+  ],
+  objects: [
+    'object',
+    'thing',
+    'item',
+    'product',
+    'brand',
+    'device',
+    'tool',
+    'car',
+    'vehicle',
+    'phone',
+    'computer',
+    'table',
+    'chair',
+    'furniture',
+    'food',
+    'drink',
+    'bottle',
+    'bag',
+    'box',
+    'book',
+    'what is',
+    'what are',
+  ],
+  scene: [
+    'where',
+    'location',
+    'place',
+    'setting',
+    'environment',
+    'background',
+    'indoor',
+    'outdoor',
+    'room',
+    'building',
+    'street',
+    'city',
+    'nature',
+    'light',
+    'lighting',
+    'dark',
+    'bright',
+    'weather',
+    'time of day',
+    'atmosphere',
+    'mood',
+    'camera',
+    'shot',
+    'angle',
+  ],
+  text: [
+    'text',
+    'read',
+    'written',
+    'write',
+    'sign',
+    'title',
+    'subtitle',
+    'caption',
+    'label',
+    'display',
+    'screen',
+    'show',
+    'letter',
+    'word',
+  ],
+  action: [
+    'do',
+    'doing',
+    'happen',
+    'happening',
+    'action',
+    'event',
+    'activity',
+    'move',
+    'moving',
+    'walk',
+    'run',
+    'sit',
+    'stand',
+    'pick',
+    'put',
+    'open',
+    'close',
+    'start',
+    'stop',
+    'begin',
+    'end',
+    'then',
+    'next',
+  ],
+};
+
+/**
+ * Whole-word patterns for keywords, plurals included
+ */
+function keywordPatterns(keywords: string[]): RegExp[] {
+  return keywords.map(
+    (keyword) =>
+      new RegExp(
+        `\\b${keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:s|es)?\\b`,
+      ),
+  );
+}
+
+/**
+ * Classifier matching the query against keyword lists per aspect
+ * Keywords match whole words (plurals included), so "he" does not match
+ * inside "the" nor "old" inside "hold". Custom aspects use their keywords,
+ * or the words of their name when they have none
+ */
+export class KeywordQueryClassifier implements QueryClassifier {
+  readonly type = 'keyword';
+
+  private readonly patterns = Object.entries(ASPECT_KEYWORDS).map(
+    ([aspect, keywords]) => ({
+      aspect: aspect as AspectType,
+      patterns: keywordPatterns(keywords),
+    }),
+  );
+
+  async classify(
+    query: string,
+    customAspects: CustomAspect[] = [],
+  ): Promise<QueryClassification> {
+    const queryLower = query.toLowerCase();
+    const aspects = aspectTypesWith(customAspects);
+    const matches: Partial<Record<AspectType, number>> = {};
+    let totalMatches = 0;
+
+    const customPatterns = customAspects.map((aspect) => ({
+      aspect: aspect.name,
+      patterns: keywordPatterns(
+        aspect.keywords.length > 0 ? aspect.keywords : aspect.name.split('_'),
+      ),
+    }));
+
+    for (const { aspect, patterns } of [...this.patterns, ...customPatterns]) {
+      const count = patterns.filter((pattern) =>
+        pattern.test(queryLower),
+      ).length;
+      if (count > 0) {
+        matches[aspect] = count;
+        totalMatches += count;
+      }
+    }
+
+    // If no specific aspects matched, weigh all equally
+    if (totalMatches === 0) {
+      return {
+        weights: uniformWeights(aspects),
+        confidence: 0.3,
+        classifier: this.type,
+      };
+    }
+
+    return {
+      weights: normalizeWeights(matches, aspects),
+      // Confidence grows with the number of matched keywords
+      confidence: Math.min(totalMatches / 3, 1.0),
+      classifier: this.type,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeminiService } from '../../gemini/gemini.service';
+import { EmbeddingService } from '../embedding.service';
+import {
+  QUERY_CLASSIFIER,
+  QueryClassifier,
+  QueryClassifierType,
+} from './query-classifier';
+import { KeywordQueryClassifier } from './keyword-query-classifier';
+import { ZeroShotQueryClassifier } from './zero-shot-query-classifier';
+import { GeminiQueryClassifier } from './gemini-query-classifier';
+
+/**
+ * Build a query classifier
+ */
+export function createQueryClassifier(
+  type: QueryClassifierType,
+  embeddingService: EmbeddingService,
+  geminiService: GeminiService,
+): QueryClassifier {
+  if (type === 'zero-shot') {
+    return new ZeroShotQueryClassifier(embeddingService);
+  }
+
+  if (type === 'gemini') {
+    return new GeminiQueryClassifier(
+      geminiService,
+      new KeywordQueryClassifier(),
+    );
+  }
+
+  return new KeywordQueryClassifier();
+}
+
+/**
+ * Provider for the query classifier selected by `QUERY_CLASSIFIER`
+ */
+export const queryClassifierFactory: FactoryProvider<QueryClassifier> = {
+  provide: QUERY_CLASSIFIER,
+  inject: [ConfigService, EmbeddingService, GeminiService],
+  useFactory: (
+    configService: ConfigService,
+    embeddingService: EmbeddingService,
+    geminiService: GeminiService,
+  ): QueryClassifier => {
+    const type = configService.get<string>('QUERY_CLASSIFIER', 'keyword');
+
+    return createQueryClassifier(
+      ['keyword', 'zero-shot', 'gemini'].includes(type)
+        ? (type as QueryClassifierType)
+        : 'keyword',
+      embeddingService,
+      geminiService,
+    );
+  },
+};
@@ -0,0 +1,25 @@
+import { CustomAspect, QueryClassification } from '../interfaces';
+
+/**
+ * Injection token for the configured query classifier
+ */
+export const QUERY_CLASSIFIER = 'QUERY_CLASSIFIER';
+
+/**
+ * Supported query classifiers
+ */
+export type QueryClassifierType = 'keyword' | 'zero-shot' | 'gemini';
+
+/**
+ * Decides how much each aspect matters to a question, which sets how many
+ * frames of each aspect are retrieved for it
+ */
+export interface QueryClassifier {
+  /** Strategy this classifier uses */
+  readonly type: QueryClassifierType;
+  /** Weigh the built-in and the given custom aspects for a query */
+  classify(
+    query: string,
+    customAspects?: CustomAspect[],
+  ): Promise<QueryClassification>;
+}
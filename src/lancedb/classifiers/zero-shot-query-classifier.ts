@@ -0,0 +1,142 @@
+import { EmbeddingService } from '../embedding.service';
+import {
+  BuiltInAspectType,
+  CustomAspect,
+  QueryClassification,
+} from '../interfaces';
+import { QueryClassifier } from './query-classifier';
+import {
+  ASPECT_TYPES,
+  aspectTypesWith,
+  normalizeWeights,
+  weightConfidence,
+} from './aspect-weights';
+
+/**
+ * Description of the questions each aspect answers, embedded once as the
+ * aspect's prototype
+ */
+const ASPECT_DESCRIPTIONS: Record<BuiltInAspectType, string> = {
+  people:
+    'Who is in the video: a person, their gender, age, ethnicity, hair, clothing, facial expression and emotions',
+  objects:
+    'Which objects appear: items, products, brands, devices, vehicles, furniture, food and their colors',
+  scene:
+    'Where it takes place: the location, room, building, background, lighting, weather, time of day and camera angle',
+  audio:
+    'What is said or heard: speech, what someone says or talks about, dialogue, voices, music and sounds',
+  action:
+    'What happens: the actions, events and activities, what someone does, movements and the order of events',
+  text: 'What is written on screen: titles, captions, subtitles, signs, labels and displayed text',
+};
+
+/**
+ * Softmax temperature over the cosine similarities; similarities of sentence
+ * embeddings differ by a few hundredths, so a low temperature is needed to
+ * separate the aspects
+ */
+const TEMPERATURE = 0.05;
+
+/**
+ * Local zero-shot classifier comparing the query embedding with one
+ * prototype embedding per aspect, using the configured embedding model
+ * A custom aspect's prototype is the embedding of its description
+ */
+export class ZeroShotQueryClassifier implements QueryClassifier {
+  readonly type = 'zero-shot';
+
+  private prototypes?: {
+    modelName: string;
+    vectors: Promise<number[][]>;
+    /** Custom aspect prototypes by description */
+    custom: Map<string, Promise<number[]>>;
+  };
+
+  constructor(private readonly embeddingService: EmbeddingService) {}
+
+  async classify(
+    query: string,
+    customAspects: CustomAspect[] = [],
+  ): Promise<QueryClassification> {
+    const aspects = aspectTypesWith(customAspects);
+    const [prototypes, queryVector] = await Promise.all([
+      this.getPrototypes(customAspects),
+      this.embeddingService.embed(query),
+    ]);
+
+    const similarities = prototypes.map((prototype) =>
+      cosineSimilarity(queryVector, prototype),
+    );
+    const top = Math.max(...similarities);
+    const weights = normalizeWeights(
+      Object.fromEntries(
+        aspects.map((aspect, i) => [
+          aspect,
+          Math.exp((similarities[i] - top) / TEMPERATURE),
+        ]),
+      ),
+      aspects,
+    );
+
+    return {
+      weights,
+      confidence: weightConfidence(weights),
+      classifier: this.type,
+    };
+  }
+
+  /**
+   * Prototype embeddings in ASPECT_TYPES order, then the custom aspects
+   * Rebuilt when the embedding model changes (e.g. after a migration)
+   */
+  private async getPrototypes(
+    customAspects: CustomAspect[],
+  ): Promise<number[][]> {
+    const modelName = this.embeddingService.getModelName();
+
+    if (this.prototypes?.modelName !== modelName) {
+      const vectors = this.embeddingService.embedBatch(
+        ASPECT_TYPES.map((aspect) => ASPECT_DESCRIPTIONS[aspect]),
+      );
+      this.prototypes = { modelName, vectors, custom: new Map() };
+      // Let the next query retry after a failure
+      vectors.catch(() => {
+        if (this.prototypes?.vectors === vectors) {
+          this.prototypes = undefined;
+        }
+      });
+    }
+
+    const { vectors, custom } = this.prototypes;
+    for (const { description } of customAspects) {
+      if (!custom.has(description)) {
+        const vector = this.embeddingService.embed(description);
+        custom.set(description, vector);
+        vector.catch(() => {
+          if (custom.get(description) === vector) {
+            custom.delete(description);
+          }
+        });
+      }
+    }
+
+    return [
+      ...(await vectors),
+      ...(await Promise.all(
+        customAspects.map(({ description }) => custom.get(description)),
+      )),
+    ];
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,196 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatService } from '../gemini/chat.service';
+import { FileManagerService } from '../gemini/file-manager.service';
+import { IndexingJobService } from './indexing-job.service';
+import { CleanupMetrics, CleanupRunResult } from './interfaces';
+
+/**
+ * Background sweeper that ends idle chat sessions and deletes Gemini uploads
+ * no longer referenced by any session or indexing job
+ */
+@Injectable()
+export class CleanupService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CleanupService.name);
+  private readonly intervalMs: number;
+  private readonly sessionTtlMs: number;
+  private readonly orphanFileGraceMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<CleanupRunResult> | null = null;
+
+  private readonly metrics: Omit<
+    CleanupMetrics,
+    'enabled' | 'intervalMs' | 'sessionTtlMs' | 'orphanFileGraceMs'
+  > = {
+    runs: 0,
+    failedRuns: 0,
+    sessionsExpired: 0,
+    filesDeleted: 0,
+    fileDeleteFailures: 0,
+  };
+
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly fileManagerService: FileManagerService,
+    private readonly indexingJobService: IndexingJobService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(
+      this.configService.get<number>('CLEANUP_INTERVAL_MS', 5 * 60 * 1000),
+    );
+    this.sessionTtlMs = Number(
+      this.configService.get<number>('CHAT_SESSION_TTL_MS', 60 * 60 * 1000),
+    );
+    this.orphanFileGraceMs = Number(
+      this.configService.get<number>('ORPHAN_FILE_GRACE_MS', 60 * 60 * 1000),
+    );
+  }
+
+  onModuleInit() {
+    if (this.intervalMs <= 0) {
+      this.logger.log('Scheduled cleanup disabled (CLEANUP_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runCleanup().catch(() => undefined); // Errors are recorded in metrics
+    }, this.intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+
+    this.logger.log(
+      `Scheduled cleanup every ${this.intervalMs}ms (session TTL ${this.sessionTtlMs}ms)`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a cleanup sweep now
+   * Concurrent callers share the sweep that is already in progress
+   */
+  runCleanup(): Promise<CleanupRunResult> {
+    if (!this.currentRun) {
+      this.currentRun = this.sweep().finally(() => {
+        this.currentRun = null;
+      });
+    }
+    return this.currentRun;
+  }
+
+  /**
+   * Get cumulative cleanup metrics
+   */
+  getMetrics(): CleanupMetrics {
+    return {
+      enabled: this.timer !== null,
+      intervalMs: this.intervalMs,
+      sessionTtlMs: this.sessionTtlMs,
+      orphanFileGraceMs: this.orphanFileGraceMs,
+      ...this.metrics,
+    };
+  }
+
+  private async sweep(): Promise<CleanupRunResult> {
+    const startTime = Date.now();
+    const result: CleanupRunResult = {
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: 0,
+      expiredSessions: [],
+      deletedFiles: [],
+      errors: [],
+    };
+
+    try {
+      // 1. End idle sessions (this also deletes their uploaded videos)
+      const expired = await this.chatService.cleanupExpiredSessions(
+        this.sessionTtlMs,
+      );
+      result.expiredSessions = expired.map((session) => session.id);
+
+      // 2. Delete uploads that nothing references any more
+      await this.deleteOrphanedFiles(result);
+    } catch (error) {
+      this.logger.error(`Cleanup failed: ${error.message}`, error.stack);
+      result.errors.push(error.message);
+      this.metrics.failedRuns++;
+    }
+
+    result.durationMs = Date.now() - startTime;
+    this.metrics.runs++;
+    this.metrics.sessionsExpired += result.expiredSessions.length;
+    this.metrics.filesDeleted += result.deletedFiles.length;
+    this.metrics.lastRun = result;
+
+    if (result.expiredSessions.length > 0 || result.deletedFiles.length > 0) {
+      this.logger.log(
+        `Cleanup ended ${result.expiredSessions.length} sessions and deleted ${result.deletedFiles.length} orphaned files in ${result.durationMs}ms`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete Gemini files not referenced by a chat session or indexing job
+   * Files younger than the grace period are kept, since in-flight analysis
+   * requests upload files that are not tracked anywhere
+   */
+  private async deleteOrphanedFiles(result: CleanupRunResult): Promise<void> {
+    const [files, sessions, jobs] = await Promise.all([
+      this.fileManagerService.listFiles(),
+      this.chatService.listSessions(),
+      this.indexingJobService.listJobs(),
+    ]);
+
+    const referenced = new Set<string>();
+    for (const session of sessions) {
+      if (session.fileUri) {
+        referenced.add(this.toFileId(session.fileUri));
+      }
+    }
+    for (const job of jobs) {
+      if (job.geminiFileName) {
+        referenced.add(this.toFileId(job.geminiFileName));
+      }
+    }
+
+    const cutoff = Date.now() - this.orphanFileGraceMs;
+
+    for (const file of files) {
+      const createdAt = file.createTime ? Date.parse(file.createTime) : NaN;
+      if (
+        referenced.has(this.toFileId(file.name)) ||
+        isNaN(createdAt) ||
+        createdAt > cutoff
+      ) {
+        continue;
+      }
+
+      try {
+        await this.fileManagerService.deleteFile(file.name);
+        result.deletedFiles.push(file.name);
+      } catch (error) {
+        this.metrics.fileDeleteFailures++;
+        result.errors.push(`Failed to delete ${file.name}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Normalize a file name ("files/abc") or URI (".../files/abc") to its ID
+   */
+  private toFileId(nameOrUri: string): string {
+    return nameOrUri.split('/').pop() || nameOrUri;
+  }
+}
@@ -0,0 +1,117 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { ConsistencyService } from './consistency.service';
+import { EmbeddingService } from './embedding.service';
+import { EmbeddingProvider } from './embedding/embedding-provider';
+import { FrameRecord, VideoRecord } from './interfaces';
+import { LanceDBService } from './lancedb.service';
+
+const provider: EmbeddingProvider = {
+  type: 'transformers',
+  modelName: 'test-model',
+  maxBatchSize: 8,
+  load: async () => undefined,
+  embedBatch: async (texts) => texts.map(() => [0.1, 0.2, 0.3]),
+};
+
+function video(id: string, frameCount: number): VideoRecord {
+  return {
+    id,
+    sourceUri: `file://${id}.mp4`,
+    title: id,
+    fullAnalysis: 'analysis',
+    confidence: 'High',
+    indexedAt: '2024-01-01T00:00:00.000Z',
+    frameCount,
+  };
+}
+
+function frames(videoId: string, count: number): FrameRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${videoId}-${i}`,
+    videoId,
+    timestamp: `00:0${i}`,
+    timestampSeconds: i,
+    description: `frame ${i} of ${videoId}`,
+    vector: [0.1, 0.2, 0.3],
+  }));
+}
+
+describe('ConsistencyService', () => {
+  let dir: string;
+  let lancedb: LanceDBService;
+  let service: ConsistencyService;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'deepcap-consistency-'));
+    const embedding = new EmbeddingService(provider);
+    lancedb = new LanceDBService(
+      new ConfigService({ LANCEDB_PATH: dir }),
+      embedding,
+    );
+    await Promise.all([embedding.onModuleInit(), lancedb.onModuleInit()]);
+    service = new ConsistencyService(lancedb);
+
+    await lancedb.insertVideoWithFrames(video('ok', 2), frames('ok', 2));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports a consistent database', async () => {
+    const report = await service.check();
+
+    expect(report).toMatchObject({
+      consistent: true,
+      videoCount: 1,
+      orphanFrames: [],
+      videosWithoutFrames: [],
+      frameCountMismatches: [],
+    });
+  });
+
+  it('reports orphan frames, videos without frames and stale counts', async () => {
+    await lancedb.insertFrames(frames('ghost', 3));
+    await lancedb.insertVideo(video('empty', 2));
+    await lancedb.updateVideo({ id: 'ok', frameCount: 5 });
+
+    const report = await service.check();
+
+    expect(report).toMatchObject({
+      consistent: false,
+      videoCount: 2,
+      orphanFrames: [{ table: expect.any(String), videoId: 'ghost', rows: 3 }],
+      videosWithoutFrames: ['empty'],
+      frameCountMismatches: [{ videoId: 'ok', recorded: 5, actual: 2 }],
+    });
+  });
+
+  it('repairs what it reports and leaves valid videos alone', async () => {
+    await lancedb.insertFrames(frames('ghost', 3));
+    await lancedb.insertVideo(video('empty', 2));
+    await lancedb.updateVideo({ id: 'ok', frameCount: 5 });
+
+    const result = await service.repair();
+
+    expect(result).toMatchObject({
+      deletedOrphanFrames: 3,
+      deletedVideos: 1,
+      fixedFrameCounts: 1,
+      report: { consistent: true, videoCount: 1 },
+    });
+    expect((await lancedb.getVideo('ok'))?.frameCount).toBe(2);
+    expect(await lancedb.getVideoFrames('ok')).toHaveLength(2);
+  });
+
+  it('refuses to repair while a server holds the database', async () => {
+    // The parent process stands in for a running server
+    writeFileSync(join(dir, '.server.pid'), String(process.ppid));
+
+    await expect(service.repair()).rejects.toThrow(
+      `The server (process ${process.ppid}) is using ${dir}`,
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LanceDBService } from './lancedb.service';
+import {
+  ConsistencyReport,
+  ConsistencyRepairResult,
+  FrameCountMismatch,
+  OrphanFrames,
+} from './interfaces';
+
+/**
+ * Service that checks the videos table against the vector tables and repairs
+ * what interrupted writes left behind: orphan frames and video vectors,
+ * videos without frames and stale frame counts
+ */
+@Injectable()
+export class ConsistencyService {
+  private readonly logger = new Logger(ConsistencyService.name);
+
+  constructor(private readonly lancedbService: LanceDBService) {}
+
+  /**
+   * Report inconsistencies without changing anything
+   * Runs with this process's writes paused so an indexing job in progress is
+   * not reported; a server running next to it may still be writing
+   */
+  async check(): Promise<ConsistencyReport> {
+    return this.lancedbService.withWriteLock(() => this.inspect());
+  }
+
+  /**
+   * Delete orphan frames and videos without frames, and reset frame counts
+   * to the rows actually stored
+   * Refused outside the server while it is running: its writes are not
+   * paused, so frames being inserted would be deleted as orphans
+   */
+  async repair(): Promise<ConsistencyRepairResult> {
+    this.lancedbService.assertServerStopped();
+
+    return this.lancedbService.withWriteLock(async () => {
+      const before = await this.inspect();
+
+      for (const table of new Set(before.orphanFrames.map((o) => o.table))) {
+        await this.lancedbService.deleteRowsByVideoIds(
+          table,
+          before.orphanFrames
+            .filter((orphan) => orphan.table === table)
+            .map((orphan) => orphan.videoId),
+        );
+      }
+
+      await this.lancedbService.deleteVideoRecords(before.videosWithoutFrames);
+
+      for (const mismatch of before.frameCountMismatches) {
+        await this.lancedbService.updateVideo({
+          id: mismatch.videoId,
+          frameCount: mismatch.actual,
+        });
+      }
+
+      const result: ConsistencyRepairResult = {
+        deletedOrphanFrames: before.orphanFrames.reduce(
+          (sum, orphan) => sum + orphan.rows,
+          0,
+        ),
+        deletedVideos: before.videosWithoutFrames.length,
+        fixedFrameCounts: before.frameCountMismatches.length,
+        report: await this.inspect(),
+      };
+
+      this.logger.log(
+        `Consistency repair: deleted ${result.deletedOrphanFrames} orphan frames ` +
+          `and ${result.deletedVideos} videos without frames, fixed ${result.fixedFrameCounts} frame counts`,
+      );
+      return result;
+    });
+  }
+
+  private async inspect(): Promise<ConsistencyReport> {
+    const videos = await this.lancedbService.listVideos();
+    const videoIds = new Set(videos.map((video) => video.id));
+    const actualCounts = new Map<string, number>();
+    const orphanFrames: OrphanFrames[] = [];
+
+    for (const { tableName, level } of this.lancedbService.getVectorTables()) {
+      const counts = await this.lancedbService.countRowsByVideo(tableName);
+
+      for (const [videoId, rows] of counts) {
+        if (!videoIds.has(videoId)) {
+          orphanFrames.push({ table: tableName, videoId, rows });
+        } else if (level === 'frame') {
+          actualCounts.set(videoId, (actualCounts.get(videoId) ?? 0) + rows);
+        }
+      }
+    }
+
+    const videosWithoutFrames: string[] = [];
+    const frameCountMismatches: FrameCountMismatch[] = [];
+
+    for (const video of videos) {
+      const actual = actualCounts.get(video.id) ?? 0;
+      const recorded = Number(video.frameCount);
+
+      if (actual === 0) {
+        videosWithoutFrames.push(video.id);
+      } else if (actual !== recorded) {
+        frameCountMismatches.push({ videoId: video.id, recorded, actual });
+      }
+    }
+
+    return {
+      consistent:
+        orphanFrames.length === 0 &&
+        videosWithoutFrames.length === 0 &&
+        frameCountMismatches.length === 0,
+      checkedAt: new Date().toISOString(),
+      videoCount: videos.length,
+      orphanFrames,
+      videosWithoutFrames,
+      frameCountMismatches,
+    };
+  }
+}
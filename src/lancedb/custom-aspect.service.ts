@@ -0,0 +1,194 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JsonFileStore } from '../common/storage';
+import { LanceDBService } from './lancedb.service';
+import { VideoSearchService } from './video-search.service';
+import { CustomAspect } from './interfaces';
+import {
+  CreateCustomAspectDto,
+  UpdateCustomAspectDto,
+  CUSTOM_ASPECT_NAME_PATTERN,
+} from './dto';
+import { ASPECT_TYPES } from './classifiers';
+import { aspectSchemaErrors, contentTemplateErrors } from './aspects';
+
+/**
+ * Registry of user-defined aspects that advanced indexing extracts alongside
+ * the built-in ones
+ * Changes apply to videos indexed afterwards; frames already stored for an
+ * aspect keep the content they were indexed with until it is deleted
+ */
+@Injectable()
+export class CustomAspectService {
+  private readonly logger = new Logger(CustomAspectService.name);
+  private readonly store: JsonFileStore<CustomAspect>;
+  private readonly maxAspects: number;
+  /** Aspects by name, read once and cleared on every change */
+  private aspects?: Promise<CustomAspect[]>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly lancedbService: LanceDBService,
+    private readonly videoSearchService: VideoSearchService,
+  ) {
+    this.store = new JsonFileStore<CustomAspect>(
+      this.configService.get<string>('CUSTOM_ASPECTS_PATH', './data/aspects'),
+    );
+    // Every aspect grows the extraction schema and the output of each request
+    this.maxAspects = Number(
+      this.configService.get<number>('CUSTOM_ASPECTS_MAX', 10),
+    );
+  }
+
+  /**
+   * List registered aspects by name
+   * Read on every question, so the list is kept in memory until it changes
+   */
+  async list(): Promise<CustomAspect[]> {
+    this.aspects ??= this.store
+      .list()
+      .then((aspects) => aspects.sort((a, b) => a.name.localeCompare(b.name)));
+    try {
+      return [...(await this.aspects)];
+    } catch (error) {
+      this.aspects = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Get a registered aspect by name
+   */
+  async get(name: string): Promise<CustomAspect> {
+    const aspect = CUSTOM_ASPECT_NAME_PATTERN.test(name)
+      ? await this.store.read(name)
+      : null;
+    if (!aspect) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Custom aspect not found: ${name}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return aspect;
+  }
+
+  /**
+   * Register a new aspect
+   */
+  async create(dto: CreateCustomAspectDto): Promise<CustomAspect> {
+    if ((ASPECT_TYPES as string[]).includes(dto.name)) {
+      this.reject(`${dto.name} is a built-in aspect`);
+    }
+    if (await this.store.read(dto.name)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.CONFLICT,
+          message: `Custom aspect already exists: ${dto.name}`,
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+    if ((await this.list()).length >= this.maxAspects) {
+      this.reject(
+        `At most ${this.maxAspects} custom aspects can be registered (CUSTOM_ASPECTS_MAX)`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const aspect: CustomAspect = {
+      name: dto.name,
+      description: dto.description ?? dto.instructions,
+      instructions: dto.instructions,
+      schema: dto.schema,
+      contentTemplate: dto.contentTemplate,
+      keywords: dto.keywords ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.validate(aspect);
+
+    await this.store.write(aspect.name, aspect);
+    this.aspects = undefined;
+    this.logger.log(`Custom aspect registered: ${aspect.name}`);
+
+    return aspect;
+  }
+
+  /**
+   * Change a registered aspect
+   */
+  async update(
+    name: string,
+    dto: UpdateCustomAspectDto,
+  ): Promise<CustomAspect> {
+    const existing = await this.get(name);
+    const aspect: CustomAspect = {
+      ...existing,
+      description: dto.description ?? existing.description,
+      instructions: dto.instructions ?? existing.instructions,
+      schema: dto.schema ?? existing.schema,
+      contentTemplate: dto.contentTemplate ?? existing.contentTemplate,
+      keywords: dto.keywords ?? existing.keywords,
+      updatedAt: new Date().toISOString(),
+    };
+    this.validate(aspect);
+
+    await this.store.write(aspect.name, aspect);
+    this.aspects = undefined;
+    this.logger.log(`Custom aspect updated: ${aspect.name}`);
+
+    return aspect;
+  }
+
+  /**
+   * Remove an aspect and its indexed frames
+   * Aspect-weighted search only searches registered aspects, so frames left
+   * behind would only turn up in unweighted searches
+   */
+  async delete(name: string): Promise<void> {
+    await this.get(name);
+    // Frames first, so a failed delete can be retried
+    const { updatedVideoIds, deletedVideoIds } =
+      await this.lancedbService.deleteAspectFrames(name);
+    await this.store.delete(name);
+    this.aspects = undefined;
+    this.logger.log(
+      `Custom aspect deleted: ${name} (frames removed from ${updatedVideoIds.length} videos, ` +
+        `${deletedVideoIds.length} videos without other frames deleted)`,
+    );
+
+    // Drop the aspect's digest from the video vectors
+    for (const videoId of updatedVideoIds) {
+      try {
+        await this.videoSearchService.indexVideo(videoId);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to rebuild video vector of ${videoId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the schema and content template can be used for extraction
+   */
+  private validate(aspect: CustomAspect): void {
+    const errors = [
+      ...aspectSchemaErrors(aspect.schema),
+      ...contentTemplateErrors(aspect.contentTemplate),
+    ];
+    if (errors.length > 0) {
+      this.reject(errors.join('; '));
+    }
+  }
+
+  private reject(message: string): never {
+    throw new HttpException(
+      { statusCode: HttpStatus.BAD_REQUEST, message },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+/**
+ * Format of a custom aspect name: lowercase letters, digits and underscores
+ */
+export const CUSTOM_ASPECT_NAME_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+/**
+ * DTO for registering a custom extraction aspect
+ */
+export class CreateCustomAspectDto {
+  @Matches(CUSTOM_ASPECT_NAME_PATTERN, {
+    message:
+      'name must be 2-40 lowercase letters, digits or underscores, starting with a letter',
+  })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  description?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  instructions: string;
+
+  @IsObject()
+  schema: Record<string, unknown>;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  contentTemplate: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  keywords?: string[];
+}
+
+/**
+ * DTO for changing a custom aspect; omitted fields keep their value
+ */
+export class UpdateCustomAspectDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  instructions?: string;
+
+  @IsOptional()
+  @IsObject()
+  schema?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  contentTemplate?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  keywords?: string[];
+}
@@ -0,0 +1,36 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  Min,
+  IsIn,
+} from 'class-validator';
+import { EmbeddingProviderType } from '../embedding';
+
+/**
+ * Accepted values for the `provider` migration option
+ */
+export const EMBEDDING_PROVIDERS: EmbeddingProviderType[] = [
+  'transformers',
+  'gemini',
+  'openai',
+];
+
+/**
+ * DTO for starting a re-embedding migration
+ */
+export class StartEmbeddingMigrationDto {
+  @IsIn(EMBEDDING_PROVIDERS)
+  provider: EmbeddingProviderType;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  model?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dimensions?: number;
+}
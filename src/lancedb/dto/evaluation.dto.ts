@@ -0,0 +1,93 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsIn,
+  IsArray,
+  ArrayMaxSize,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { QueryClassifierType } from '../classifiers';
+import { SearchMode } from '../interfaces';
+import { SEARCH_MODES } from './index-video.dto';
+
+/**
+ * Classifiers an evaluation may use (the gemini classifier calls Gemini)
+ */
+export const EVALUATION_CLASSIFIERS: Array<
+  Exclude<QueryClassifierType, 'gemini'>
+> = ['keyword', 'zero-shot'];
+
+/**
+ * Most configurations one evaluation request may compare
+ */
+export const MAX_EVALUATION_CONFIGURATIONS = 10;
+
+/**
+ * DTO for one retrieval configuration of an evaluation
+ */
+export class EvaluationConfigurationDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsBoolean()
+  advanced?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @IsOptional()
+  @IsBoolean()
+  rerank?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  candidatePool?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  contextWindowSeconds?: number;
+
+  @IsOptional()
+  @IsIn(EVALUATION_CLASSIFIERS)
+  classifier?: Exclude<QueryClassifierType, 'gemini'>;
+}
+
+/**
+ * DTO for running a retrieval evaluation
+ * `dataset` and `fixture` name entries of EVAL_DATASETS_PATH and EVAL_FIXTURES_PATH
+ */
+export class RunEvaluationDto {
+  @IsString()
+  @IsNotEmpty()
+  dataset: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  fixture?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_EVALUATION_CONFIGURATIONS)
+  @ValidateNested({ each: true })
+  @Type(() => EvaluationConfigurationDto)
+  configurations?: EvaluationConfigurationDto[];
+}
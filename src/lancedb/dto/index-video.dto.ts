@@ -6,9 +6,37 @@ import {
   IsNumber,
   MaxLength,
   Min,
+  Max,
   IsEnum,
+  IsIn,
+  IsBoolean,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateIf,
 } from 'class-validator';
 import { ThinkingLevelInput, MediaResolutionInput } from '../../gemini/dto';
+import { IndexMode, SearchMode } from '../interfaces';
+import { TextGenerationProviderType } from '../generation';
+
+/**
+ * Accepted values for the `mode` search option
+ */
+export const SEARCH_MODES: SearchMode[] = ['vector', 'fts', 'hybrid'];
+
+/**
+ * Accepted values for the `mode` index option
+ */
+export const INDEX_MODES: IndexMode[] = ['skip', 'replace', 'merge'];
+
+/**
+ * Accepted values for the `llmProvider` chat option
+ */
+export const LLM_PROVIDERS: TextGenerationProviderType[] = [
+  'gemini',
+  'openai',
+  'ollama',
+];
 
 /**
  * Frame description for indexing
@@ -40,6 +68,10 @@ export class IndexVideoDto {
   @IsOptional()
   @IsEnum(MediaResolutionInput)
   mediaResolution?: MediaResolutionInput = MediaResolutionInput.HIGH;
+
+  @IsOptional()
+  @IsIn(INDEX_MODES)
+  mode?: IndexMode;
 }
 
 /**
@@ -70,6 +102,10 @@ export class IndexYouTubeDto {
   @IsOptional()
   @IsString()
   endOffset?: string;
+
+  @IsOptional()
+  @IsIn(INDEX_MODES)
+  mode?: IndexMode;
 }
 
 /**
@@ -89,6 +125,205 @@ export class RAGChatDto {
   @IsNumber()
   @Min(1)
   topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @IsOptional()
+  @IsBoolean()
+  rerank?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  candidatePool?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  startTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  endTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  contextWindowSeconds?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  expand?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  structured?: boolean;
+
+  @IsOptional()
+  @IsIn(LLM_PROVIDERS)
+  llmProvider?: TextGenerationProviderType;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  llmModel?: string;
+}
+
+/**
+ * Most videos a multi-video chat request may list
+ */
+export const MAX_MULTI_CHAT_VIDEOS = 20;
+
+/**
+ * DTO for RAG chat across several videos
+ */
+export class MultiVideoChatDto {
+  @ValidateIf((dto) => dto.videoIds !== 'all')
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_MULTI_CHAT_VIDEOS)
+  @IsString({ each: true })
+  videoIds: string[] | 'all';
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  query: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @IsOptional()
+  @IsBoolean()
+  rerank?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  candidatePool?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  startTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  endTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  contextWindowSeconds?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  expand?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  structured?: boolean;
+
+  @IsOptional()
+  @IsIn(LLM_PROVIDERS)
+  llmProvider?: TextGenerationProviderType;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  llmModel?: string;
+}
+
+/**
+ * DTO for starting a multi-turn RAG chat session
+ */
+export class CreateRAGSessionDto {
+  @IsString()
+  @IsNotEmpty()
+  videoId: string;
+
+  @IsOptional()
+  @IsIn(['basic', 'advanced'])
+  chatType?: 'basic' | 'advanced';
+}
+
+/**
+ * DTO for a message in a RAG chat session
+ */
+export class RAGSessionMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  query: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @IsOptional()
+  @IsBoolean()
+  rerank?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  candidatePool?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  startTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  endTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  contextWindowSeconds?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  expand?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  structured?: boolean;
+
+  @IsOptional()
+  @IsIn(LLM_PROVIDERS)
+  llmProvider?: TextGenerationProviderType;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  llmModel?: string;
 }
 
 /**
@@ -104,6 +339,46 @@ export class GlobalSearchDto {
   @IsNumber()
   @Min(1)
   topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  startTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  endTime?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  contextWindowSeconds?: number;
+}
+
+/**
+ * DTO for searching whole videos
+ */
+export class VideoSearchDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  query: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  topK?: number;
+
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
 }
 
 /**
@@ -117,13 +392,36 @@ export class IndexResultDto {
   error?: string;
 }
 
+/**
+ * Response DTO for a newly queued indexing job
+ */
+export class IndexJobAcceptedDto {
+  jobId: string;
+  status: string;
+  statusUrl: string;
+}
+
+/**
+ * Response DTO for an upload whose content is already indexed
+ */
+export class IndexDuplicateDto {
+  videoId: string;
+  status: 'already_indexed';
+  contentHash: string;
+  videoUrl: string;
+}
+
 /**
  * Response DTO for RAG chat
  */
 export class RAGChatResponseDto {
   answer: string;
   sources: Array<{
+    videoId: string;
     timestamp: string;
+    endTimestamp: string;
+    startTime: number;
+    endTime: number;
     description: string;
     relevanceScore?: number;
   }>;
@@ -141,6 +439,7 @@ export class IndexedVideoDto {
   id: string;
   title: string;
   sourceUri: string;
+  originalFilename?: string;
   frameCount: number;
   indexedAt: string;
   confidence: string;
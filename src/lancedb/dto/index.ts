@@ -1 +1,4 @@
 export * from './index-video.dto';
+export * from './embedding-migration.dto';
+export * from './evaluation.dto';
+export * from './custom-aspect.dto';
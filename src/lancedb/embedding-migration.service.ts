@@ -0,0 +1,456 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { LanceDBService } from './lancedb.service';
+import { EmbeddingService } from './embedding.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { JsonFileStore } from '../common/storage';
+import {
+  createEmbeddingProvider,
+  DEFAULT_EMBEDDING_MODELS,
+  EmbeddingProviderOptions,
+} from './embedding';
+import {
+  EmbeddingMigration,
+  EmbeddingMigrationTableProgress,
+} from './interfaces';
+
+/**
+ * Claim on the single migration slot, taken before anything is awaited so
+ * two requests can't both pass the idle check
+ */
+interface MigrationReservation {
+  /** Set once the migration to run is known */
+  migrationId?: string;
+}
+
+/**
+ * Service that re-embeds every frame with a new embedding model
+ * Rows are copied from the active tables into new versioned tables (reusing
+ * the stored text, so no Gemini extraction is needed), then reads and writes
+ * are switched to the new tables in one step. Progress is persisted and an
+ * interrupted migration resumes from the rows already copied
+ */
+@Injectable()
+export class EmbeddingMigrationService {
+  private readonly logger = new Logger(EmbeddingMigrationService.name);
+  private readonly store: JsonFileStore<EmbeddingMigration>;
+  private readonly batchSize: number;
+  private activeMigration: MigrationReservation | null = null;
+
+  constructor(
+    private readonly lancedbService: LanceDBService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly geminiService: GeminiService,
+    private readonly configService: ConfigService,
+  ) {
+    this.store = new JsonFileStore<EmbeddingMigration>(
+      this.configService.get<string>(
+        'EMBEDDING_MIGRATIONS_PATH',
+        './data/embedding-migrations',
+      ),
+    );
+    this.batchSize = Number(
+      this.configService.get<number>('EMBEDDING_MIGRATION_BATCH_SIZE', 256),
+    );
+  }
+
+  /**
+   * Mark migrations that were running when the process stopped as failed,
+   * so they can be resumed explicitly
+   * Only call this when no other process can be running a migration
+   */
+  async recoverInterrupted(): Promise<void> {
+    const migrations = await this.store.list();
+
+    for (const migration of migrations) {
+      if (migration.status === 'queued' || migration.status === 'running') {
+        await this.update(migration, {
+          status: 'failed',
+          error:
+            'Migration was interrupted by a restart; resume it to continue',
+        });
+      }
+    }
+  }
+
+  /**
+   * Create a migration to the given embedding model without running it
+   */
+  async create(options: EmbeddingProviderOptions): Promise<EmbeddingMigration> {
+    const reservation = this.reserve();
+    try {
+      return await this.createReserved(options);
+    } finally {
+      this.release(reservation);
+    }
+  }
+
+  /**
+   * Create a migration and run it in the background
+   * The slot is held from the idle check until the run ends, so concurrent
+   * requests get a 409 instead of a second migration to the same tables
+   */
+  async start(options: EmbeddingProviderOptions): Promise<EmbeddingMigration> {
+    const reservation = this.reserve();
+
+    let migration: EmbeddingMigration;
+    try {
+      migration = await this.createReserved(options);
+    } catch (error) {
+      this.release(reservation);
+      throw error;
+    }
+
+    this.runInBackground(migration.id, reservation);
+    return migration;
+  }
+
+  /**
+   * Continue a failed migration in the background
+   */
+  async resume(migrationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.getMigration(migrationId);
+    const reservation = this.reserve();
+
+    if (migration.status === 'completed') {
+      this.release(reservation);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.CONFLICT,
+          message: `Embedding migration already completed: ${migrationId}`,
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    this.runInBackground(migration.id, reservation);
+    return migration;
+  }
+
+  /**
+   * Create the migration record; the caller holds the slot
+   */
+  private async createReserved(
+    options: EmbeddingProviderOptions,
+  ): Promise<EmbeddingMigration> {
+    const target = {
+      ...options,
+      model: options.model || DEFAULT_EMBEDDING_MODELS[options.provider],
+    };
+
+    const version = await this.lancedbService.getNextVectorTableVersion();
+    const tables: EmbeddingMigrationTableProgress[] = this.lancedbService
+      .getVectorTables()
+      .map((table) => ({
+        baseName: table.baseName,
+        sourceTable: table.tableName,
+        targetTable: `${table.baseName}_v${version}`,
+        textColumn: table.textColumn,
+        totalRows: 0,
+        migratedRows: 0,
+      }));
+
+    const now = new Date().toISOString();
+    const migration: EmbeddingMigration = {
+      id: uuidv4(),
+      status: 'queued',
+      target,
+      version,
+      tables,
+      progress: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.write(migration.id, migration);
+    this.logger.log(
+      `Created embedding migration ${migration.id} to ${target.provider}/${target.model} (v${version})`,
+    );
+
+    return migration;
+  }
+
+  /**
+   * Get a migration by ID
+   */
+  async getMigration(migrationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.store.read(migrationId);
+    if (!migration) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Embedding migration not found: ${migrationId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return migration;
+  }
+
+  /**
+   * List migrations, newest first
+   */
+  async listMigrations(): Promise<EmbeddingMigration[]> {
+    const migrations = await this.store.list();
+    return migrations.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Run (or resume) a migration to completion
+   * Resolves with the final state; a failure is recorded rather than thrown
+   */
+  async run(migrationId: string): Promise<EmbeddingMigration> {
+    return this.runReserved(migrationId, this.reserve());
+  }
+
+  /**
+   * Run a migration in a slot the caller reserved, releasing it at the end
+   */
+  private async runReserved(
+    migrationId: string,
+    reservation: MigrationReservation,
+  ): Promise<EmbeddingMigration> {
+    reservation.migrationId = migrationId;
+
+    try {
+      const migration = await this.getMigration(migrationId);
+      await this.execute(migration);
+      return migration;
+    } finally {
+      this.release(reservation);
+    }
+  }
+
+  /**
+   * Copy every table, then switch to the new tables
+   */
+  private async execute(migration: EmbeddingMigration): Promise<void> {
+    try {
+      await this.update(migration, {
+        status: 'running',
+        attempts: migration.attempts + 1,
+        startedAt: new Date().toISOString(),
+        error: undefined,
+      });
+
+      this.assertSourcesActive(migration);
+
+      const provider = createEmbeddingProvider(
+        migration.target,
+        this.configService,
+        this.geminiService,
+      );
+      const embedder = new EmbeddingService(provider);
+      await embedder.whenReady();
+      await this.update(migration, {
+        dimension: embedder.getEmbeddingDimension(),
+      });
+
+      for (const table of migration.tables) {
+        await this.copyTable(migration, table, embedder);
+      }
+
+      // Catch up with frames written meanwhile and switch with writes paused,
+      // so nothing lands in the old tables after the last copy
+      await this.lancedbService.withWriteLock(async () => {
+        for (const table of migration.tables) {
+          await this.copyTable(migration, table, embedder);
+        }
+
+        await this.lancedbService.activateVectorTables(
+          Object.fromEntries(
+            migration.tables.map((table) => [
+              table.baseName,
+              table.targetTable,
+            ]),
+          ),
+        );
+        this.embeddingService.useProvider(
+          provider,
+          embedder.getEmbeddingDimension(),
+        );
+      });
+
+      await this.update(migration, {
+        status: 'completed',
+        progress: 100,
+        completedAt: new Date().toISOString(),
+      });
+      this.logger.log(
+        `Embedding migration ${migration.id} completed; now using ${provider.modelName}. ` +
+          `Set EMBEDDING_PROVIDER/EMBEDDING_MODEL accordingly before the next restart`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Embedding migration ${migration.id} failed: ${error.message}`,
+        error.stack,
+      );
+      await this.update(migration, {
+        status: 'failed',
+        error: error.message || 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Bring a target table in line with its source table
+   * Rows copied unchanged are skipped, which is what makes resuming cheap;
+   * rows updated in the source since they were copied are copied again
+   */
+  private async copyTable(
+    migration: EmbeddingMigration,
+    table: EmbeddingMigrationTableProgress,
+    embedder: EmbeddingService,
+  ): Promise<void> {
+    const source = await this.lancedbService.getRowFingerprints(
+      table.sourceTable,
+    );
+    const target = await this.lancedbService.getRowFingerprints(
+      table.targetTable,
+    );
+
+    // Rows deleted from the source, or changed since they were copied
+    const outdated = [...target]
+      .filter(([id, fingerprint]) => source.get(id) !== fingerprint)
+      .map(([id]) => id);
+    await this.lancedbService.deleteRowsByIds(table.targetTable, outdated);
+
+    const pending = [...source]
+      .filter(([id, fingerprint]) => target.get(id) !== fingerprint)
+      .map(([id]) => id);
+    table.totalRows = source.size;
+    table.migratedRows = source.size - pending.length;
+    await this.updateProgress(migration);
+
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      const rows = await this.lancedbService.getRowsByIds(
+        table.sourceTable,
+        pending.slice(i, i + this.batchSize),
+      );
+      const vectors = await embedder.embedBatch(
+        rows.map((row) => String(row[table.textColumn] ?? '')),
+      );
+
+      await this.lancedbService.addRowsToVersionedTable(
+        table.sourceTable,
+        table.targetTable,
+        rows.map((row, j) => ({ ...row, vector: vectors[j] })),
+        {
+          provider: migration.target.provider,
+          model: migration.target.model,
+          dimension: embedder.getEmbeddingDimension(),
+        },
+      );
+
+      table.migratedRows += rows.length;
+      await this.updateProgress(migration);
+      this.logger.log(
+        `Embedding migration ${migration.id}: ${table.targetTable} ${table.migratedRows}/${table.totalRows} rows (${migration.progress}%)`,
+      );
+    }
+  }
+
+  /**
+   * Refuse to run when the active tables changed since the migration was
+   * created (e.g. another migration completed in between)
+   */
+  private assertSourcesActive(migration: EmbeddingMigration): void {
+    const active = this.lancedbService.getVectorTables();
+    const changed = migration.tables.filter(
+      (table) =>
+        active.find((a) => a.baseName === table.baseName)?.tableName !==
+        table.sourceTable,
+    );
+
+    if (changed.length > 0) {
+      throw new Error(
+        `Active tables changed since the migration was created (${changed.map((t) => t.sourceTable).join(', ')}); start a new migration`,
+      );
+    }
+  }
+
+  /**
+   * Take the migration slot, or fail with 409 when it is taken
+   * Synchronous, so no other request can slip in between check and claim
+   */
+  private reserve(): MigrationReservation {
+    if (this.activeMigration) {
+      const { migrationId } = this.activeMigration;
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.CONFLICT,
+          message: migrationId
+            ? `Embedding migration already running: ${migrationId}`
+            : 'Another embedding migration is being created',
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const reservation: MigrationReservation = {};
+    this.activeMigration = reservation;
+    return reservation;
+  }
+
+  private release(reservation: MigrationReservation): void {
+    if (this.activeMigration === reservation) {
+      this.activeMigration = null;
+    }
+  }
+
+  /**
+   * Run in a reserved slot; a run that rejects (rather than recording its own
+   * failure) is marked failed so it never stays queued
+   */
+  private runInBackground(
+    migrationId: string,
+    reservation: MigrationReservation,
+  ): void {
+    this.runReserved(migrationId, reservation).catch(async (error) => {
+      this.logger.error(
+        `Embedding migration ${migrationId} crashed: ${error.message}`,
+        error.stack,
+      );
+
+      try {
+        const migration = await this.store.read(migrationId);
+        if (migration && migration.status !== 'completed') {
+          await this.update(migration, {
+            status: 'failed',
+            error: error.message,
+          });
+        }
+      } catch (storeError) {
+        this.logger.error(
+          `Failed to record failure of embedding migration ${migrationId}: ${storeError.message}`,
+        );
+      }
+    });
+  }
+
+  private async updateProgress(migration: EmbeddingMigration): Promise<void> {
+    const total = migration.tables.reduce((sum, t) => sum + t.totalRows, 0);
+    const migrated = migration.tables.reduce(
+      (sum, t) => sum + t.migratedRows,
+      0,
+    );
+
+    // Keep 100 for when the tables have actually been switched
+    const progress =
+      total > 0 ? Math.min(99, Math.floor((migrated / total) * 100)) : 0;
+    await this.update(migration, { progress });
+  }
+
+  /**
+   * Apply changes to a migration and persist it
+   */
+  private async update(
+    migration: EmbeddingMigration,
+    changes: Partial<EmbeddingMigration>,
+  ): Promise<void> {
+    Object.assign(migration, changes, { updatedAt: new Date().toISOString() });
+    await this.store.write(migration.id, migration);
+  }
+}
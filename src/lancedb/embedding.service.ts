@@ -1,60 +1,99 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-
-// Type for the pipeline function
-type FeatureExtractionPipeline = any;
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+  EmbeddingProviderType,
+} from './embedding';
 
 /**
- * Service for generating embeddings using local transformers.js model
- * Uses Xenova/all-MiniLM-L6-v2 for 384-dimensional embeddings
+ * Service for generating embeddings through the configured provider
+ * (local transformers.js model by default, Xenova/all-MiniLM-L6-v2)
+ * The vector dimension is detected when the provider is loaded
  */
 @Injectable()
 export class EmbeddingService implements OnModuleInit {
   private readonly logger = new Logger(EmbeddingService.name);
-  private extractor: FeatureExtractionPipeline;
-  private modelName: string;
+  private ready: Promise<void> | null = null;
+  private dimension: number | null = null;
   private isReady = false;
+  private version = 0;
 
-  constructor(private readonly configService: ConfigService) {
-    this.modelName = this.configService.get<string>(
-      'EMBEDDING_MODEL',
-      'Xenova/all-MiniLM-L6-v2',
-    );
-  }
+  constructor(
+    @Inject(EMBEDDING_PROVIDER) private provider: EmbeddingProvider,
+  ) {}
 
   async onModuleInit() {
-    await this.initialize();
+    await this.whenReady();
   }
 
   /**
-   * Initialize the embedding model
-   * Downloads and caches the model on first run
+   * Resolve once the provider is loaded and the dimension is known
+   * Safe to call from other services' init hooks, which run concurrently
+   */
+  whenReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.initialize();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Load the provider and detect the embedding dimension
+   * Downloads and caches local models on first run
    */
   private async initialize(): Promise<void> {
-    this.logger.log(`Loading embedding model: ${this.modelName}...`);
-    
+    this.logger.log(
+      `Loading ${this.provider.type} embedding model: ${this.provider.modelName}...`,
+    );
+
     try {
-      // Dynamic import for ESM compatibility
-      const { pipeline } = await import('@huggingface/transformers');
-      
-      this.extractor = await pipeline('feature-extraction', this.modelName, {
-        dtype: 'fp32',
-        // Use CPU for compatibility
-        device: 'cpu',
-      });
-      
+      await this.provider.load();
+
+      // Warm up the model and detect its output dimension
+      const [probe] = await this.provider.embedBatch(['test']);
+      if (!probe || probe.length === 0) {
+        throw new Error('Embedding provider returned an empty vector');
+      }
+
+      this.dimension = probe.length;
       this.isReady = true;
-      this.logger.log(`Embedding model loaded successfully: ${this.modelName}`);
-      
-      // Warm up the model with a test embedding
-      await this.embed('test');
-      this.logger.log('Embedding model warmed up and ready');
+      this.logger.log(
+        `Embedding model ready: ${this.provider.modelName} (${this.dimension} dimensions)`,
+      );
     } catch (error) {
-      this.logger.error(`Failed to load embedding model: ${error.message}`, error.stack);
+      this.logger.error(
+        `Failed to load embedding model: ${error.message}`,
+        error.stack,
+      );
       throw error;
     }
   }
 
+  /**
+   * Switch to another provider that is already loaded
+   * Used after a re-embedding migration activates tables built with it
+   */
+  useProvider(provider: EmbeddingProvider, dimension: number): void {
+    this.provider = provider;
+    this.dimension = dimension;
+    this.ready = Promise.resolve();
+    this.isReady = true;
+    this.version++;
+    this.logger.log(
+      `Switched to ${provider.type} embedding model: ${provider.modelName} (${dimension} dimensions)`,
+    );
+  }
+
+  /**
+   * Number of times the model was switched
+   * Read it right before embedding vectors that will be stored, so a switch
+   * before the write can be detected; embed() and embedBatch() use the model
+   * current when they are called for every vector they return
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
   /**
    * Check if the embedding service is ready
    */
@@ -65,27 +104,21 @@ export class EmbeddingService implements OnModuleInit {
   /**
    * Generate embedding for a single text
    * @param text Text to embed
-   * @returns 384-dimensional embedding vector
+   * @returns Embedding vector of `getEmbeddingDimension()` values
    */
   async embed(text: string): Promise<number[]> {
-    if (!this.isReady) {
-      throw new Error('Embedding service not initialized');
-    }
+    this.assertReady();
 
     const startTime = Date.now();
-    
+    const dimension = this.dimension;
+
     try {
-      const output = await this.extractor(text, {
-        pooling: 'mean',
-        normalize: true,
-      });
-      
-      // Convert tensor to array
-      const embedding = Array.from(output.data as Float32Array);
-      
+      const [embedding] = await this.provider.embedBatch([text]);
+      this.assertDimension(embedding, dimension);
+
       const latency = Date.now() - startTime;
       this.logger.debug(`Generated embedding in ${latency}ms`);
-      
+
       return embedding;
     } catch (error) {
       this.logger.error(`Failed to generate embedding: ${error.message}`);
@@ -97,12 +130,10 @@ export class EmbeddingService implements OnModuleInit {
    * Generate embeddings for multiple texts in batch
    * More efficient for indexing multiple frames
    * @param texts Array of texts to embed
-   * @returns Array of 384-dimensional embedding vectors
+   * @returns Array of embedding vectors, in input order
    */
   async embedBatch(texts: string[]): Promise<number[][]> {
-    if (!this.isReady) {
-      throw new Error('Embedding service not initialized');
-    }
+    this.assertReady();
 
     if (texts.length === 0) {
       return [];
@@ -111,54 +142,85 @@ export class EmbeddingService implements OnModuleInit {
     const startTime = Date.now();
     this.logger.log(`Generating embeddings for ${texts.length} texts...`);
 
+    // Keep one model for the whole call, even if it is switched meanwhile
+    const provider = this.provider;
+    const dimension = this.dimension;
+
     try {
-      // Process in batches to avoid memory issues
-      const batchSize = 32;
+      // Process in batches to respect provider limits and avoid memory issues
+      const batchSize = provider.maxBatchSize;
       const embeddings: number[][] = [];
 
       for (let i = 0; i < texts.length; i += batchSize) {
         const batch = texts.slice(i, i + batchSize);
-        
-        // Generate embeddings for the batch
-        const output = await this.extractor(batch, {
-          pooling: 'mean',
-          normalize: true,
-        });
-
-        // Extract embeddings from tensor
-        const data = output.data as Float32Array;
-        const embeddingDim = 384; // all-MiniLM-L6-v2 dimension
-        
-        for (let j = 0; j < batch.length; j++) {
-          const start = j * embeddingDim;
-          const end = start + embeddingDim;
-          embeddings.push(Array.from(data.slice(start, end)));
+        const vectors = await provider.embedBatch(batch);
+
+        if (vectors.length !== batch.length) {
+          throw new Error(
+            `Embedding provider returned ${vectors.length} vectors for ${batch.length} texts`,
+          );
+        }
+
+        for (const vector of vectors) {
+          this.assertDimension(vector, dimension);
+          embeddings.push(vector);
         }
 
-        this.logger.debug(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)}`);
+        this.logger.debug(
+          `Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)}`,
+        );
       }
 
       const latency = Date.now() - startTime;
-      this.logger.log(`Generated ${embeddings.length} embeddings in ${latency}ms (${(latency / texts.length).toFixed(2)}ms/text)`);
+      this.logger.log(
+        `Generated ${embeddings.length} embeddings in ${latency}ms (${(latency / texts.length).toFixed(2)}ms/text)`,
+      );
 
       return embeddings;
     } catch (error) {
-      this.logger.error(`Failed to generate batch embeddings: ${error.message}`);
+      this.logger.error(
+        `Failed to generate batch embeddings: ${error.message}`,
+      );
       throw error;
     }
   }
 
   /**
-   * Get the dimension of the embedding vectors
+   * Get the dimension of the embedding vectors (detected at load time)
    */
   getEmbeddingDimension(): number {
-    return 384; // all-MiniLM-L6-v2 produces 384-dimensional embeddings
+    this.assertReady();
+    return this.dimension;
   }
 
   /**
    * Get the model name being used
    */
   getModelName(): string {
-    return this.modelName;
+    return this.provider.modelName;
+  }
+
+  /**
+   * Get the embedding backend being used
+   */
+  getProviderType(): EmbeddingProviderType {
+    return this.provider.type;
+  }
+
+  private assertReady(): void {
+    if (!this.isReady) {
+      throw new Error('Embedding service not initialized');
+    }
+  }
+
+  /**
+   * Guard against vectors that would not fit the tables' vector column
+   */
+  private assertDimension(vector: number[], dimension: number): void {
+    if (vector?.length !== dimension) {
+      throw new Error(
+        `Embedding provider returned a ${vector?.length ?? 0}-dimensional vector, expected ${dimension}`,
+      );
+    }
   }
 }
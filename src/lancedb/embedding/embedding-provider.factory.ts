@@ -0,0 +1,95 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeminiService } from '../../gemini/gemini.service';
+import {
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+  EmbeddingProviderType,
+} from './embedding-provider';
+import { GeminiEmbeddingProvider } from './gemini-embedding-provider';
+import { OpenAIEmbeddingProvider } from './openai-embedding-provider';
+import { TransformersEmbeddingProvider } from './transformers-embedding-provider';
+
+/**
+ * Model used by each provider when `EMBEDDING_MODEL` is not set
+ */
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderType, string> = {
+  transformers: 'Xenova/all-MiniLM-L6-v2',
+  gemini: 'gemini-embedding-001',
+  openai: 'text-embedding-3-small',
+};
+
+/**
+ * Which provider and model to build
+ */
+export interface EmbeddingProviderOptions {
+  provider: EmbeddingProviderType;
+  /** Defaults to the provider's entry in DEFAULT_EMBEDDING_MODELS */
+  model?: string;
+  /** Optional reduced output size for models that support it */
+  dimensions?: number;
+}
+
+/**
+ * Build an embedding provider; endpoint credentials always come from config
+ */
+export function createEmbeddingProvider(
+  options: EmbeddingProviderOptions,
+  configService: ConfigService,
+  geminiService: GeminiService,
+): EmbeddingProvider {
+  const model = options.model || DEFAULT_EMBEDDING_MODELS[options.provider];
+
+  if (options.provider === 'gemini') {
+    return new GeminiEmbeddingProvider(
+      geminiService,
+      model,
+      options.dimensions,
+    );
+  }
+
+  if (options.provider === 'openai') {
+    return new OpenAIEmbeddingProvider(
+      configService.get<string>(
+        'EMBEDDING_API_URL',
+        'https://api.openai.com/v1',
+      ),
+      model,
+      configService.get<string>('EMBEDDING_API_KEY'),
+      options.dimensions,
+    );
+  }
+
+  return new TransformersEmbeddingProvider(model);
+}
+
+/**
+ * Provider for the embedding backend selected by `EMBEDDING_PROVIDER`
+ */
+export const embeddingProviderFactory: FactoryProvider<EmbeddingProvider> = {
+  provide: EMBEDDING_PROVIDER,
+  inject: [ConfigService, GeminiService],
+  useFactory: (
+    configService: ConfigService,
+    geminiService: GeminiService,
+  ): EmbeddingProvider => {
+    const providerType = configService.get<string>(
+      'EMBEDDING_PROVIDER',
+      'transformers',
+    );
+
+    return createEmbeddingProvider(
+      {
+        provider: Object.keys(DEFAULT_EMBEDDING_MODELS).includes(providerType)
+          ? (providerType as EmbeddingProviderType)
+          : 'transformers',
+        model: configService.get<string>('EMBEDDING_MODEL'),
+        dimensions:
+          Number(configService.get<number>('EMBEDDING_DIMENSIONS', 0)) ||
+          undefined,
+      },
+      configService,
+      geminiService,
+    );
+  },
+};
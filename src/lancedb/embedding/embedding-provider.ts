@@ -0,0 +1,27 @@
+/**
+ * Injection token for the configured embedding provider
+ */
+export const EMBEDDING_PROVIDER = 'EMBEDDING_PROVIDER';
+
+/**
+ * Supported embedding backends
+ */
+export type EmbeddingProviderType = 'transformers' | 'gemini' | 'openai';
+
+/**
+ * Source of text embeddings
+ * The vector dimension is not declared up front; it is detected from the
+ * first embedding produced after loading
+ */
+export interface EmbeddingProvider {
+  /** Backend this provider talks to */
+  readonly type: EmbeddingProviderType;
+  /** Model identifier used by the backend */
+  readonly modelName: string;
+  /** Maximum number of texts sent in a single call to the backend */
+  readonly maxBatchSize: number;
+  /** Load the model or prepare the client; called once before first use */
+  load(): Promise<void>;
+  /** Embed texts, returning one vector per text in input order */
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
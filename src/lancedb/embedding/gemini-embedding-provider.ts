@@ -0,0 +1,39 @@
+import { GeminiService } from '../../gemini/gemini.service';
+import { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Embedding provider using the Gemini text embedding API
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly type = 'gemini';
+  readonly maxBatchSize = 100;
+
+  constructor(
+    private readonly geminiService: GeminiService,
+    readonly modelName: string,
+    private readonly outputDimensionality?: number,
+  ) {}
+
+  async load(): Promise<void> {
+    // The shared Gemini client is created by GeminiService
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await this.geminiService.getModelsApi().embedContent({
+      model: this.modelName,
+      contents: texts,
+      config: {
+        outputDimensionality: this.outputDimensionality,
+      },
+    });
+
+    const embeddings = response.embeddings || [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `Gemini returned ${embeddings.length} embeddings for ${texts.length} texts`,
+      );
+    }
+
+    return embeddings.map((embedding) => embedding.values || []);
+  }
+}
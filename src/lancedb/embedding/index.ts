@@ -0,0 +1,5 @@
+export * from './embedding-provider';
+export * from './transformers-embedding-provider';
+export * from './gemini-embedding-provider';
+export * from './openai-embedding-provider';
+export * from './embedding-provider.factory';
@@ -0,0 +1,65 @@
+import { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Response body of an OpenAI-compatible `/embeddings` endpoint
+ */
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Embedding provider for any OpenAI-compatible `/embeddings` HTTP endpoint
+ * (OpenAI, Azure OpenAI proxies, vLLM, LocalAI, LM Studio, ...)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly type = 'openai';
+  readonly maxBatchSize = 100;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly modelName: string,
+    private readonly apiKey?: string,
+    private readonly dimensions?: number,
+  ) {}
+
+  async load(): Promise<void> {
+    // Stateless HTTP client; the endpoint is exercised when the dimension is detected
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, '')}/embeddings`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.modelName,
+          input: texts,
+          ...(this.dimensions && { dimensions: this.dimensions }),
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Embedding endpoint returned ${response.status} ${response.statusText}: ${detail}`,
+      );
+    }
+
+    const body = (await response.json()) as OpenAIEmbeddingResponse;
+    if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+      throw new Error(
+        `Embedding endpoint returned ${body.data?.length ?? 0} embeddings for ${texts.length} texts`,
+      );
+    }
+
+    // Entries carry their input index and are not guaranteed to be ordered
+    return [...body.data]
+      .sort((a, b) => a.index - b.index)
+      .map((entry) => entry.embedding);
+  }
+}
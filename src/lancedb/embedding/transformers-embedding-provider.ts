@@ -0,0 +1,37 @@
+import { EmbeddingProvider } from './embedding-provider';
+
+// Type for the pipeline function
+type FeatureExtractionPipeline = any;
+
+/**
+ * Embedding provider running a local transformers.js feature-extraction model
+ * Works with any sentence-embedding model; vectors are mean-pooled and normalized
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly type = 'transformers';
+  readonly maxBatchSize = 32;
+  private extractor: FeatureExtractionPipeline;
+
+  constructor(readonly modelName: string) {}
+
+  async load(): Promise<void> {
+    // Dynamic import for ESM compatibility
+    const { pipeline } = await import('@huggingface/transformers');
+
+    this.extractor = await pipeline('feature-extraction', this.modelName, {
+      dtype: 'fp32',
+      // Use CPU for compatibility
+      device: 'cpu',
+    });
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const output = await this.extractor(texts, {
+      pooling: 'mean',
+      normalize: true,
+    });
+
+    // Tensor of shape [texts.length, dimension]
+    return output.tolist() as number[][];
+  }
+}
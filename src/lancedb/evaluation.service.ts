@@ -0,0 +1,445 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, promises as fs } from 'fs';
+import { basename, isAbsolute, relative, resolve } from 'path';
+import { GeminiService } from '../gemini/gemini.service';
+import { parseTimestampSeconds } from '../gemini/segmentation';
+import { EmbeddingService } from './embedding.service';
+import { LanceDBService } from './lancedb.service';
+import { RAGChatService } from './rag-chat.service';
+import { RerankerService } from './reranker.service';
+import { CustomAspectService } from './custom-aspect.service';
+import { TEXT_GENERATION_PROVIDER, TextGenerationProvider } from './generation';
+import {
+  ASPECT_TYPES,
+  aspectTypesWith,
+  KeywordQueryClassifier,
+  QUERY_CLASSIFIER,
+  QueryClassifier,
+  createQueryClassifier,
+} from './classifiers';
+import {
+  averageScores,
+  matchExpectations,
+  scoreRanking,
+  RelevanceExpectation,
+} from './search';
+import {
+  AspectType,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationConfiguration,
+  EvaluationDataset,
+  EvaluationReport,
+  EvaluationRunResult,
+  RAGChatOptions,
+  RankingScores,
+  RetrievalMetrics,
+} from './interfaces';
+
+const TIMESTAMP_PATTERN = /^\d{1,2}:\d{2}(?::\d{2})?$/;
+
+/**
+ * Scores counted for a question whose retrieval failed
+ */
+const FAILED_CASE_SCORES: RankingScores = {
+  recall: 0,
+  reciprocalRank: 0,
+  ndcg: 0,
+};
+
+/**
+ * Service for scoring retrieval against golden question sets
+ * Each question is answered by RAGChatService's retrieval only (no Gemini
+ * calls), and the ranked sources are scored with recall@k, MRR and nDCG@k
+ * against the expected timestamps or aspects. Several configurations can be
+ * scored in one run, against the live database or a fixture database
+ */
+@Injectable()
+export class EvaluationService {
+  private readonly logger = new Logger(EvaluationService.name);
+  private readonly datasetsPath: string;
+  private readonly fixturesPath: string;
+  private readonly toleranceSeconds: number;
+  private readonly defaultTopK: number;
+
+  constructor(
+    private readonly embeddingService: EmbeddingService,
+    private readonly lancedbService: LanceDBService,
+    private readonly geminiService: GeminiService,
+    private readonly configService: ConfigService,
+    private readonly rerankerService: RerankerService,
+    @Inject(QUERY_CLASSIFIER)
+    private readonly queryClassifier: QueryClassifier,
+    @Inject(TEXT_GENERATION_PROVIDER)
+    private readonly textGenerationProvider: TextGenerationProvider,
+    private readonly customAspectService: CustomAspectService,
+  ) {
+    this.datasetsPath = this.configService.get<string>(
+      'EVAL_DATASETS_PATH',
+      './eval/datasets',
+    );
+    this.fixturesPath = this.configService.get<string>(
+      'EVAL_FIXTURES_PATH',
+      './eval/fixtures',
+    );
+    this.toleranceSeconds = Number(
+      this.configService.get<number>('EVAL_TIMESTAMP_TOLERANCE_SECONDS', 5),
+    );
+    this.defaultTopK = Number(this.configService.get<number>('RAG_TOP_K', 5));
+  }
+
+  /**
+   * Path of a dataset file inside EVAL_DATASETS_PATH
+   */
+  resolveDatasetPath(name: string): string {
+    return this.resolveWithin(this.datasetsPath, name, 'dataset');
+  }
+
+  /**
+   * Path of a fixture database inside EVAL_FIXTURES_PATH
+   */
+  resolveFixturePath(name: string): string {
+    return this.resolveWithin(this.fixturesPath, name, 'fixture');
+  }
+
+  /**
+   * Read and validate a golden question set
+   */
+  async loadDataset(filePath: string): Promise<EvaluationDataset> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `Evaluation dataset not found: ${filePath}`,
+          },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      this.invalidDataset(`not valid JSON (${error.message})`);
+    }
+
+    const dataset = this.validateDataset(
+      parsed,
+      aspectTypesWith(await this.customAspectService.list()),
+    );
+    return { ...dataset, name: dataset.name || basename(filePath) };
+  }
+
+  /**
+   * Score a dataset under each configuration
+   * @param configurations Settings compared side by side (default: one run with the chat defaults)
+   * @param lancedbPath Fixture database to search instead of the live one
+   */
+  async evaluate(
+    dataset: EvaluationDataset,
+    configurations: EvaluationConfiguration[] = [],
+    lancedbPath?: string,
+  ): Promise<EvaluationReport> {
+    const runs =
+      configurations.length > 0 ? configurations : [{ name: 'default' }];
+    const lancedbService = lancedbPath
+      ? await this.openFixture(lancedbPath)
+      : this.lancedbService;
+
+    this.logger.log(
+      `Evaluating ${dataset.cases.length} questions of ${dataset.name} under ${runs.length} configurations` +
+        (lancedbPath ? ` against ${lancedbPath}` : ''),
+    );
+
+    try {
+      const results: EvaluationRunResult[] = [];
+      for (const configuration of runs) {
+        results.push(
+          await this.runConfiguration(dataset, configuration, lancedbService),
+        );
+      }
+
+      return {
+        dataset: dataset.name,
+        caseCount: dataset.cases.length,
+        lancedbPath,
+        timestampToleranceSeconds: this.toleranceSeconds,
+        evaluatedAt: new Date().toISOString(),
+        results,
+      };
+    } finally {
+      if (lancedbPath) {
+        await lancedbService.onModuleDestroy();
+      }
+    }
+  }
+
+  /**
+   * Answer every question with one configuration and score the sources
+   */
+  private async runConfiguration(
+    dataset: EvaluationDataset,
+    configuration: EvaluationConfiguration,
+    lancedbService: LanceDBService,
+  ): Promise<EvaluationRunResult> {
+    const startTime = Date.now();
+    const advanced = configuration.advanced ?? true;
+    // Same default as chat: advanced retrieval keeps twice as many frames
+    const k = configuration.topK || this.defaultTopK * (advanced ? 2 : 1);
+    const options: RAGChatOptions = {
+      topK: k,
+      mode: configuration.mode,
+      rerank: configuration.rerank,
+      candidatePool: configuration.candidatePool,
+      contextWindowSeconds: configuration.contextWindowSeconds,
+    };
+
+    // A chat service of its own, so the classifier and database can differ
+    // from the live ones
+    const ragChatService = new RAGChatService(
+      this.embeddingService,
+      lancedbService,
+      this.geminiService,
+      this.configService,
+      this.rerankerService,
+      this.classifierFor(configuration),
+      this.textGenerationProvider,
+      this.customAspectService,
+    );
+
+    const cases: EvaluationCaseResult[] = [];
+    const byAspect = new Map<AspectType, RankingScores[]>();
+
+    for (const [index, golden] of dataset.cases.entries()) {
+      const result: EvaluationCaseResult = {
+        caseId: golden.id || String(index + 1),
+        videoId: golden.videoId,
+        question: golden.question,
+        retrieved: [],
+      };
+
+      try {
+        const sources = await ragChatService.retrieve(
+          golden.videoId,
+          golden.question,
+          options,
+          advanced,
+        );
+        const expected = this.toExpectation(golden);
+        const expectedCount = expected.timestamps?.length
+          ? expected.timestamps.length
+          : (expected.aspects?.length ?? 0);
+
+        result.scores = scoreRanking(
+          sources.map((source) =>
+            matchExpectations(source, expected, this.toleranceSeconds),
+          ),
+          expectedCount,
+          k,
+        );
+        result.retrieved = sources.map((source) =>
+          source.endTimestamp && source.endTimestamp !== source.timestamp
+            ? `${source.timestamp}-${source.endTimestamp}`
+            : source.timestamp,
+        );
+      } catch (error) {
+        result.error = error.message;
+        this.logger.warn(
+          `Evaluation case ${result.caseId} failed: ${error.message}`,
+        );
+      }
+
+      // A failed case found nothing, so failing is never better than a miss
+      const scores = result.scores ?? FAILED_CASE_SCORES;
+      for (const aspect of new Set(golden.expectedAspects ?? [])) {
+        byAspect.set(aspect, [...(byAspect.get(aspect) ?? []), scores]);
+      }
+
+      cases.push(result);
+    }
+
+    const overall = averageScores(
+      cases.map((c) => c.scores ?? FAILED_CASE_SCORES),
+    );
+    const aspectMetrics: Partial<Record<AspectType, RetrievalMetrics>> = {};
+    // Built-in aspects first, then custom aspects in the order they appear
+    for (const aspect of new Set([...ASPECT_TYPES, ...byAspect.keys()])) {
+      if (byAspect.has(aspect)) {
+        aspectMetrics[aspect] = averageScores(byAspect.get(aspect));
+      }
+    }
+
+    this.logger.log(
+      `Configuration ${configuration.name}: recall@${k} ${overall.recallAtK.toFixed(3)}, ` +
+        `MRR ${overall.mrr.toFixed(3)}, nDCG@${k} ${overall.ndcgAtK.toFixed(3)}`,
+    );
+
+    return {
+      configuration,
+      k,
+      overall,
+      byAspect: aspectMetrics,
+      failedCases: cases.filter((c) => c.error !== undefined).length,
+      latencyMs: Date.now() - startTime,
+      cases,
+    };
+  }
+
+  /**
+   * Classifier of a configuration; the gemini classifier is never used so
+   * that evaluation makes no Gemini calls
+   */
+  private classifierFor(
+    configuration: EvaluationConfiguration,
+  ): QueryClassifier {
+    if (configuration.classifier) {
+      return createQueryClassifier(
+        configuration.classifier,
+        this.embeddingService,
+        this.geminiService,
+      );
+    }
+
+    return this.queryClassifier.type === 'gemini'
+      ? new KeywordQueryClassifier()
+      : this.queryClassifier;
+  }
+
+  private toExpectation(golden: EvaluationCase): RelevanceExpectation {
+    return {
+      timestamps: golden.expectedTimestamps?.map(parseTimestampSeconds),
+      aspects: golden.expectedAspects,
+    };
+  }
+
+  /**
+   * Connect to a fixture database with its own LanceDB service
+   */
+  private async openFixture(lancedbPath: string): Promise<LanceDBService> {
+    if (!existsSync(lancedbPath)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Fixture database not found: ${lancedbPath}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const fixture = new LanceDBService(
+      new ConfigService({ LANCEDB_PATH: lancedbPath }),
+      this.embeddingService,
+    );
+
+    try {
+      await fixture.onModuleInit();
+    } catch (error) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: `Cannot open fixture database ${lancedbPath}: ${error.message}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return fixture;
+  }
+
+  /**
+   * Resolve a file name inside a directory, rejecting paths that leave it
+   */
+  private resolveWithin(root: string, name: string, kind: string): string {
+    const path = resolve(root, name);
+    const inside = relative(resolve(root), path);
+
+    if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: `Invalid ${kind} name: ${name}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return path;
+  }
+
+  /**
+   * Check a parsed dataset; expected aspects may be built-in or registered
+   * custom aspects
+   */
+  private validateDataset(
+    parsed: unknown,
+    aspects: AspectType[],
+  ): EvaluationDataset {
+    const dataset = parsed as EvaluationDataset;
+    if (
+      !dataset ||
+      !Array.isArray(dataset.cases) ||
+      dataset.cases.length === 0
+    ) {
+      this.invalidDataset('"cases" must be a non-empty array');
+    }
+
+    dataset.cases.forEach((golden, index) => {
+      const label = `case ${golden?.id || index + 1}`;
+      if (typeof golden?.videoId !== 'string' || !golden.videoId) {
+        this.invalidDataset(`${label} has no videoId`);
+      }
+      if (typeof golden.question !== 'string' || !golden.question.trim()) {
+        this.invalidDataset(`${label} has no question`);
+      }
+      if (
+        !golden.expectedTimestamps?.length &&
+        !golden.expectedAspects?.length
+      ) {
+        this.invalidDataset(
+          `${label} needs expectedTimestamps or expectedAspects`,
+        );
+      }
+      if (
+        golden.expectedTimestamps &&
+        (!Array.isArray(golden.expectedTimestamps) ||
+          !golden.expectedTimestamps.every((t) => TIMESTAMP_PATTERN.test(t)))
+      ) {
+        this.invalidDataset(
+          `${label} has expectedTimestamps that are not MM:SS or HH:MM:SS`,
+        );
+      }
+      if (
+        golden.expectedAspects &&
+        (!Array.isArray(golden.expectedAspects) ||
+          !golden.expectedAspects.every((a) => aspects.includes(a)))
+      ) {
+        this.invalidDataset(
+          `${label} has unknown expectedAspects (use ${aspects.join(', ')})`,
+        );
+      }
+    });
+
+    return dataset;
+  }
+
+  private invalidDataset(reason: string): never {
+    throw new HttpException(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: `Invalid evaluation dataset: ${reason}`,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
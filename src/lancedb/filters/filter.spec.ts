@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as lancedb from '@lancedb/lancedb';
+import { Filter } from './filter';
+
+describe('Filter', () => {
+  describe('rendering', () => {
+    it('quotes identifiers and string literals', () => {
+      expect(Filter.eq('videoId', 'abc').toSql()).toBe("`videoId` = 'abc'");
+    });
+
+    it('renders numbers and booleans as bare literals', () => {
+      expect(Filter.gte('timestampSeconds', 1.5).toSql()).toBe(
+        '`timestampSeconds` >= 1.5',
+      );
+      expect(Filter.eq('deleted', false).toSql()).toBe('`deleted` = FALSE');
+    });
+
+    it('combines filters with parentheses and skips undefined parts', () => {
+      const filter = Filter.and(
+        Filter.eq('videoId', 'v1'),
+        undefined,
+        Filter.or(Filter.eq('aspectType', 'scene'), Filter.lt('score', 2)),
+      );
+      expect(filter.toSql()).toBe(
+        "(`videoId` = 'v1') AND ((`aspectType` = 'scene') OR (`score` < 2))",
+      );
+    });
+
+    it('returns the only filter unchanged and undefined for none', () => {
+      expect(Filter.and(undefined, Filter.eq('id', 'x')).toSql()).toBe(
+        "`id` = 'x'",
+      );
+      expect(Filter.or()).toBeUndefined();
+      expect(Filter.range('timestampSeconds', {})).toBeUndefined();
+    });
+
+    it('renders ranges and lists', () => {
+      expect(Filter.range('t', { gt: 1, lte: 5 }).toSql()).toBe(
+        '(`t` > 1) AND (`t` <= 5)',
+      );
+      expect(Filter.in('aspectType', ['scene', 'audio']).toSql()).toBe(
+        "`aspectType` IN ('scene', 'audio')",
+      );
+      expect(Filter.in('aspectType', []).toSql()).toBe('FALSE');
+      expect(Filter.not(Filter.eq('id', 'x')).toSql()).toBe("NOT (`id` = 'x')");
+    });
+  });
+
+  describe('malicious input', () => {
+    it('escapes quotes so a value cannot close the literal', () => {
+      expect(Filter.eq('videoId', "x' OR '1'='1").toSql()).toBe(
+        "`videoId` = 'x'' OR ''1''=''1'",
+      );
+    });
+
+    it('escapes quotes inside IN lists', () => {
+      expect(Filter.in('aspectType', ["scene') OR ('1'='1"]).toSql()).toBe(
+        "`aspectType` IN ('scene'') OR (''1''=''1')",
+      );
+    });
+
+    it('rejects column names that are not plain identifiers', () => {
+      for (const column of [
+        'videoId = videoId OR 1',
+        'videoId`',
+        'a b',
+        '',
+        '1abc',
+      ]) {
+        expect(() => Filter.eq(column, 'x')).toThrow('Invalid filter column');
+      }
+    });
+
+    it('rejects non-finite numbers and unsupported value types', () => {
+      expect(() => Filter.gt('t', NaN)).toThrow('Invalid filter value');
+      expect(() => Filter.lt('t', Infinity)).toThrow('Invalid filter value');
+      expect(() => Filter.eq('t', {} as unknown as string)).toThrow(
+        'Unsupported filter value type',
+      );
+    });
+  });
+
+  describe('against LanceDB', () => {
+    let dir: string;
+    let table: Awaited<ReturnType<lancedb.Connection['createTable']>>;
+
+    const ids = async (filter: Filter) =>
+      (await table.query().where(filter.toSql()).toArray())
+        .map((row) => row.id)
+        .sort();
+
+    beforeAll(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'deepcap-filter-'));
+      const db = await lancedb.connect(dir);
+      table = await db.createTable('frames', [
+        { id: 'a', videoId: "it's", aspectType: 'scene', timestampSeconds: 5 },
+        { id: 'b', videoId: 'v2', aspectType: 'audio', timestampSeconds: 15 },
+        {
+          id: 'c',
+          videoId: 'back\\slash',
+          aspectType: 'people',
+          timestampSeconds: 25,
+        },
+      ]);
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('matches values containing quotes and backslashes exactly', async () => {
+      expect(await ids(Filter.eq('videoId', "it's"))).toEqual(['a']);
+      expect(await ids(Filter.eq('videoId', 'back\\slash'))).toEqual(['c']);
+    });
+
+    it('does not widen a search with injected predicates', async () => {
+      expect(await ids(Filter.eq('videoId', "x' OR '1'='1"))).toEqual([]);
+      expect(await ids(Filter.eq('videoId', "v2' OR videoId != '"))).toEqual(
+        [],
+      );
+      expect(await ids(Filter.eq('videoId', "\\' OR 1=1 --"))).toEqual([]);
+      expect(
+        await ids(Filter.in('aspectType', ['scene', "') OR ('1'='1"])),
+      ).toEqual(['a']);
+    });
+
+    it('does not widen a delete with injected predicates', async () => {
+      await table.delete(Filter.eq('videoId', "v2' OR '1'='1").toSql());
+      expect(await table.countRows()).toBe(3);
+    });
+
+    it('supports ranges combined with AND/OR', async () => {
+      expect(
+        await ids(Filter.range('timestampSeconds', { gte: 5, lt: 25 })),
+      ).toEqual(['a', 'b']);
+      expect(
+        await ids(
+          Filter.and(
+            Filter.or(Filter.eq('id', 'a'), Filter.eq('id', 'c')),
+            Filter.not(Filter.eq('aspectType', 'people')),
+          ),
+        ),
+      ).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Literal value that can be compared against a column
+ */
+export type FilterValue = string | number | boolean;
+
+/**
+ * Bounds for a range filter; omitted bounds are open
+ */
+export interface FilterRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Where-clause for LanceDB queries and deletes, built from typed parts
+ * Column names are validated and quoted, and values are rendered as escaped
+ * literals, so user input can never change the structure of the predicate
+ */
+export class Filter {
+  private constructor(private readonly sql: string) {}
+
+  /** `column = value` */
+  static eq(column: string, value: FilterValue): Filter {
+    return Filter.compare(column, '=', value);
+  }
+
+  /** `column != value` */
+  static ne(column: string, value: FilterValue): Filter {
+    return Filter.compare(column, '!=', value);
+  }
+
+  /** `column > value` */
+  static gt(column: string, value: number): Filter {
+    return Filter.compare(column, '>', value);
+  }
+
+  /** `column >= value` */
+  static gte(column: string, value: number): Filter {
+    return Filter.compare(column, '>=', value);
+  }
+
+  /** `column < value` */
+  static lt(column: string, value: number): Filter {
+    return Filter.compare(column, '<', value);
+  }
+
+  /** `column <= value` */
+  static lte(column: string, value: number): Filter {
+    return Filter.compare(column, '<=', value);
+  }
+
+  /**
+   * `column IN (values)`; an empty list matches nothing
+   */
+  static in(column: string, values: readonly FilterValue[]): Filter {
+    if (values.length === 0) {
+      return new Filter('FALSE');
+    }
+    const literals = values.map((value) => Filter.literal(value)).join(', ');
+    return new Filter(`${Filter.identifier(column)} IN (${literals})`);
+  }
+
+  /**
+   * Combination of the given bounds, or undefined when no bound is set
+   */
+  static range(column: string, range: FilterRange): Filter | undefined {
+    return Filter.and(
+      range.gt !== undefined ? Filter.gt(column, range.gt) : undefined,
+      range.gte !== undefined ? Filter.gte(column, range.gte) : undefined,
+      range.lt !== undefined ? Filter.lt(column, range.lt) : undefined,
+      range.lte !== undefined ? Filter.lte(column, range.lte) : undefined,
+    );
+  }
+
+  /**
+   * All filters must match; undefined filters are skipped
+   * Returns undefined when there is nothing to combine
+   */
+  static and(...filters: Array<Filter | undefined>): Filter | undefined {
+    return Filter.combine('AND', filters);
+  }
+
+  /**
+   * Any filter must match; undefined filters are skipped
+   * Returns undefined when there is nothing to combine
+   */
+  static or(...filters: Array<Filter | undefined>): Filter | undefined {
+    return Filter.combine('OR', filters);
+  }
+
+  /** Negation of a filter */
+  static not(filter: Filter): Filter {
+    return new Filter(`NOT (${filter.sql})`);
+  }
+
+  /**
+   * Predicate string to pass to LanceDB `where()` / `delete()`
+   */
+  toSql(): string {
+    return this.sql;
+  }
+
+  toString(): string {
+    return this.sql;
+  }
+
+  private static compare(
+    column: string,
+    operator: string,
+    value: FilterValue,
+  ): Filter {
+    return new Filter(
+      `${Filter.identifier(column)} ${operator} ${Filter.literal(value)}`,
+    );
+  }
+
+  private static combine(
+    operator: 'AND' | 'OR',
+    filters: Array<Filter | undefined>,
+  ): Filter | undefined {
+    const parts = filters.filter((filter): filter is Filter => !!filter);
+    if (parts.length <= 1) {
+      return parts[0];
+    }
+    return new Filter(
+      parts.map((part) => `(${part.sql})`).join(` ${operator} `),
+    );
+  }
+
+  /**
+   * Column names come from code, but are still checked so a mistake cannot
+   * turn into an injection point
+   */
+  private static identifier(column: string): string {
+    if (!IDENTIFIER_PATTERN.test(column)) {
+      throw new Error(`Invalid filter column name: ${JSON.stringify(column)}`);
+    }
+    return `\`${column}\``;
+  }
+
+  private static literal(value: FilterValue): string {
+    switch (typeof value) {
+      case 'string':
+        return `'${value.replace(/'/g, "''")}'`;
+      case 'number':
+        if (!Number.isFinite(value)) {
+          throw new Error(`Invalid filter value: ${value}`);
+        }
+        return String(value);
+      case 'boolean':
+        return value ? 'TRUE' : 'FALSE';
+      default:
+        throw new Error(`Unsupported filter value type: ${typeof value}`);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  ThinkingLevel,
+} from '@google/genai';
+import { GeminiService } from '../../gemini/gemini.service';
+import {
+  TextGenerationChunk,
+  TextGenerationProvider,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextGenerationUsage,
+} from './text-generation-provider';
+
+const THINKING_LEVELS: Record<
+  NonNullable<TextGenerationRequest['thinkingLevel']>,
+  ThinkingLevel
+> = {
+  minimal: ThinkingLevel.MINIMAL,
+  low: ThinkingLevel.LOW,
+  medium: ThinkingLevel.MEDIUM,
+  high: ThinkingLevel.HIGH,
+};
+
+/**
+ * Text generation provider using the Gemini API
+ */
+export class GeminiTextGenerationProvider implements TextGenerationProvider {
+  readonly type = 'gemini';
+
+  /**
+   * @param model Defaults to `GEMINI_MODEL`
+   */
+  constructor(
+    private readonly geminiService: GeminiService,
+    private readonly model?: string,
+  ) {}
+
+  // Resolved on use: GeminiService reads its model name on module init
+  get modelName(): string {
+    return this.model || this.geminiService.getModelName();
+  }
+
+  async generate(
+    request: TextGenerationRequest,
+  ): Promise<TextGenerationResult> {
+    const response = await this.geminiService
+      .getModelsApi()
+      .generateContent(this.toParameters(request));
+
+    return {
+      text: this.extractAnswerText(response),
+      tokenUsage: this.toUsage(response),
+    };
+  }
+
+  async *generateStream(
+    request: TextGenerationRequest,
+  ): AsyncGenerator<TextGenerationChunk> {
+    const stream = await this.geminiService
+      .getModelsApi()
+      .generateContentStream(this.toParameters(request));
+
+    // Usage metadata is cumulative; the last chunk carries the final totals
+    for await (const chunk of stream) {
+      yield {
+        text: this.extractAnswerText(chunk),
+        tokenUsage: this.toUsage(chunk),
+      };
+    }
+  }
+
+  private toParameters(
+    request: TextGenerationRequest,
+  ): GenerateContentParameters {
+    return {
+      model: this.modelName,
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      config: {
+        systemInstruction: request.systemInstruction,
+        thinkingConfig: request.thinkingLevel
+          ? { thinkingLevel: THINKING_LEVELS[request.thinkingLevel] }
+          : undefined,
+        ...(request.responseSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: request.responseSchema,
+        }),
+        maxOutputTokens: request.maxOutputTokens,
+        abortSignal: request.signal,
+      },
+    };
+  }
+
+  /**
+   * Extract the non-thought answer text from a response (or stream chunk)
+   */
+  private extractAnswerText(response: GenerateContentResponse): string {
+    const candidate = response.candidates?.[0];
+    let text = '';
+
+    if (candidate?.content?.parts) {
+      for (const part of candidate.content.parts) {
+        if (part.text && !part.thought) {
+          text += part.text;
+        }
+      }
+    }
+
+    return text;
+  }
+
+  private toUsage(
+    response: GenerateContentResponse,
+  ): TextGenerationUsage | undefined {
+    return response.usageMetadata
+      ? {
+          inputTokens: response.usageMetadata.promptTokenCount || 0,
+          outputTokens: response.usageMetadata.candidatesTokenCount || 0,
+        }
+      : undefined;
+  }
+}
@@ -0,0 +1,6 @@
+export * from './text-generation-provider';
+export * from './response-lines';
+export * from './gemini-text-generation-provider';
+export * from './openai-text-generation-provider';
+export * from './ollama-text-generation-provider';
+export * from './text-generation-provider.factory';
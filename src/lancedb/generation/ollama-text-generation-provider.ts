@@ -0,0 +1,102 @@
+import {
+  TextGenerationChunk,
+  TextGenerationProvider,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextGenerationUsage,
+} from './text-generation-provider';
+import {
+  assertResponseOk,
+  readResponseLines,
+  requestSignal,
+} from './response-lines';
+
+/**
+ * Response body of Ollama's `/api/chat`, or one line of it when streaming
+ * (the last line has `done` set and carries the token counts)
+ */
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Text generation provider for a local Ollama server (`/api/chat`)
+ */
+export class OllamaTextGenerationProvider implements TextGenerationProvider {
+  readonly type = 'ollama';
+
+  /**
+   * @param timeoutMs Time limit of a request, including reading a streamed answer
+   */
+  constructor(
+    private readonly baseUrl: string,
+    readonly modelName: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async generate(
+    request: TextGenerationRequest,
+  ): Promise<TextGenerationResult> {
+    const response = await this.post(request, false);
+    const body = (await response.json()) as OllamaChatResponse;
+
+    return {
+      text: body.message?.content ?? '',
+      tokenUsage: this.toUsage(body),
+    };
+  }
+
+  async *generateStream(
+    request: TextGenerationRequest,
+  ): AsyncGenerator<TextGenerationChunk> {
+    const response = await this.post(request, true);
+
+    for await (const line of readResponseLines(response)) {
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      yield {
+        text: chunk.message?.content ?? '',
+        tokenUsage: this.toUsage(chunk),
+      };
+    }
+  }
+
+  private async post(
+    request: TextGenerationRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, '')}/api/chat`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            { role: 'user', content: request.prompt },
+          ],
+          stream,
+          // Ollama constrains the output to a JSON schema passed as `format`
+          ...(request.responseSchema && { format: request.responseSchema }),
+          options: { num_predict: request.maxOutputTokens },
+        }),
+        signal: requestSignal(this.timeoutMs, request.signal),
+      },
+    );
+
+    await assertResponseOk(response, 'Ollama chat endpoint');
+    return response;
+  }
+
+  private toUsage(body: OllamaChatResponse): TextGenerationUsage | undefined {
+    return body.done
+      ? {
+          inputTokens: body.prompt_eval_count || 0,
+          outputTokens: body.eval_count || 0,
+        }
+      : undefined;
+  }
+}
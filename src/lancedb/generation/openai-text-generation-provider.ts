@@ -0,0 +1,133 @@
+import {
+  TextGenerationChunk,
+  TextGenerationProvider,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextGenerationUsage,
+} from './text-generation-provider';
+import {
+  assertResponseOk,
+  readResponseLines,
+  requestSignal,
+} from './response-lines';
+
+/**
+ * Usage block of an OpenAI-compatible chat completion
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Response body of an OpenAI-compatible `/chat/completions` endpoint
+ */
+interface OpenAIChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: OpenAIUsage;
+}
+
+/**
+ * Server-sent event of a streamed chat completion
+ */
+interface OpenAIChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * Text generation provider for any OpenAI-compatible `/chat/completions`
+ * HTTP endpoint (OpenAI, vLLM, LocalAI, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAITextGenerationProvider implements TextGenerationProvider {
+  readonly type = 'openai';
+
+  /**
+   * @param timeoutMs Time limit of a request, including reading a streamed answer
+   */
+  constructor(
+    private readonly baseUrl: string,
+    readonly modelName: string,
+    private readonly timeoutMs: number,
+    private readonly apiKey?: string,
+  ) {}
+
+  async generate(
+    request: TextGenerationRequest,
+  ): Promise<TextGenerationResult> {
+    const response = await this.post(request, false);
+    const body = (await response.json()) as OpenAIChatCompletion;
+
+    return {
+      text: body.choices?.[0]?.message?.content ?? '',
+      tokenUsage: this.toUsage(body.usage),
+    };
+  }
+
+  async *generateStream(
+    request: TextGenerationRequest,
+  ): AsyncGenerator<TextGenerationChunk> {
+    const response = await this.post(request, true);
+
+    for await (const line of readResponseLines(response)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') {
+        return;
+      }
+
+      const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+      yield {
+        text: chunk.choices?.[0]?.delta?.content ?? '',
+        tokenUsage: this.toUsage(chunk.usage),
+      };
+    }
+  }
+
+  private async post(
+    request: TextGenerationRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            { role: 'user', content: request.prompt },
+          ],
+          max_tokens: request.maxOutputTokens,
+          ...(request.responseSchema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'answer', schema: request.responseSchema },
+            },
+          }),
+          // Usage is only sent in a final chunk when asked for
+          ...(stream && { stream, stream_options: { include_usage: true } }),
+        }),
+        signal: requestSignal(this.timeoutMs, request.signal),
+      },
+    );
+
+    await assertResponseOk(response, 'Chat completions endpoint');
+    return response;
+  }
+
+  private toUsage(usage?: OpenAIUsage | null): TextGenerationUsage | undefined {
+    return usage
+      ? {
+          inputTokens: usage.prompt_tokens || 0,
+          outputTokens: usage.completion_tokens || 0,
+        }
+      : undefined;
+  }
+}
@@ -0,0 +1,103 @@
+import { assertResponseOk, readResponseLines } from './response-lines';
+
+/**
+ * Response whose body arrives in the given chunks; `cancelled` is set when
+ * the reader closes it early
+ */
+function streamedResponse(chunks: string[]) {
+  const state = { cancelled: false };
+  const encoder = new TextEncoder();
+  let next = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (next < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[next++]));
+      } else {
+        controller.close();
+      }
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+
+  return { response: new Response(body), state };
+}
+
+async function collect(lines: AsyncGenerator<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const line of lines) {
+    collected.push(line);
+  }
+  return collected;
+}
+
+describe('readResponseLines', () => {
+  it('joins lines split across chunks and skips blank ones', async () => {
+    const { response } = streamedResponse([
+      'data: {"a":',
+      '1}\n\n',
+      'data: [DONE]\n  \ntrailing',
+    ]);
+
+    expect(await collect(readResponseLines(response))).toEqual([
+      'data: {"a":1}',
+      'data: [DONE]',
+      'trailing',
+    ]);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('café\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 4));
+        controller.enqueue(bytes.slice(4));
+        controller.close();
+      },
+    });
+
+    expect(await collect(readResponseLines(new Response(body)))).toEqual([
+      'café',
+    ]);
+  });
+
+  it('cancels the body when the consumer stops early', async () => {
+    const { response, state } = streamedResponse(['one\n', 'two\n', 'three\n']);
+
+    for await (const line of readResponseLines(response)) {
+      expect(line).toBe('one');
+      break;
+    }
+
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('does not cancel a body read to the end', async () => {
+    const { response, state } = streamedResponse(['one\n']);
+
+    await collect(readResponseLines(response));
+
+    expect(state.cancelled).toBe(false);
+  });
+});
+
+describe('assertResponseOk', () => {
+  it('throws with the status and body of a failed response', async () => {
+    const response = new Response('model not found', {
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    await expect(assertResponseOk(response, 'Chat endpoint')).rejects.toThrow(
+      'Chat endpoint returned 404 Not Found: model not found',
+    );
+  });
+
+  it('accepts a successful response', async () => {
+    await expect(
+      assertResponseOk(new Response('{}'), 'Chat endpoint'),
+    ).resolves.toBeUndefined();
+  });
+});
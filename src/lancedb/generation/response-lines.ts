@@ -0,0 +1,69 @@
+/**
+ * Non-empty lines of a streamed HTTP response body, as they arrive
+ * Used for server-sent events and newline-delimited JSON
+ */
+export async function* readResponseLines(
+  response: Response,
+): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop();
+      for (const line of lines) {
+        if (line.trim()) {
+          yield line.trim();
+        }
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    // Stopped early (the consumer returned or reading failed): close the connection
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Signal for one request to a model endpoint: aborted after `timeoutMs`,
+ * or earlier when the caller's signal aborts
+ */
+export function requestSignal(
+  timeoutMs: number,
+  signal?: AbortSignal,
+): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Throw with the status and body of a failed response
+ */
+export async function assertResponseOk(
+  response: Response,
+  endpoint: string,
+): Promise<void> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(
+      `${endpoint} returned ${response.status} ${response.statusText}: ${detail}`,
+    );
+  }
+}
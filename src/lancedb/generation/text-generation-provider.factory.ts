@@ -0,0 +1,94 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeminiService } from '../../gemini/gemini.service';
+import {
+  TEXT_GENERATION_PROVIDER,
+  TextGenerationProvider,
+  TextGenerationProviderType,
+} from './text-generation-provider';
+import { GeminiTextGenerationProvider } from './gemini-text-generation-provider';
+import { OpenAITextGenerationProvider } from './openai-text-generation-provider';
+import { OllamaTextGenerationProvider } from './ollama-text-generation-provider';
+
+/**
+ * Model used by each HTTP provider when no model is named
+ * Gemini uses `GEMINI_MODEL`
+ */
+export const DEFAULT_TEXT_GENERATION_MODELS: Record<
+  Exclude<TextGenerationProviderType, 'gemini'>,
+  string
+> = {
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+};
+
+/**
+ * Which provider and model to build
+ */
+export interface TextGenerationProviderOptions {
+  provider: TextGenerationProviderType;
+  /** Defaults to the provider's default model */
+  model?: string;
+}
+
+/**
+ * Build a text generation provider; endpoints and credentials always come
+ * from config, so a request can pick a backend but never point at a new one
+ */
+export function createTextGenerationProvider(
+  options: TextGenerationProviderOptions,
+  configService: ConfigService,
+  geminiService: GeminiService,
+): TextGenerationProvider {
+  const timeoutMs = Number(
+    configService.get<number>('LLM_REQUEST_TIMEOUT_MS', 120000),
+  );
+
+  if (options.provider === 'openai') {
+    return new OpenAITextGenerationProvider(
+      configService.get<string>(
+        'LLM_OPENAI_API_URL',
+        'https://api.openai.com/v1',
+      ),
+      options.model || DEFAULT_TEXT_GENERATION_MODELS.openai,
+      timeoutMs,
+      configService.get<string>('LLM_OPENAI_API_KEY'),
+    );
+  }
+
+  if (options.provider === 'ollama') {
+    return new OllamaTextGenerationProvider(
+      configService.get<string>('LLM_OLLAMA_URL', 'http://localhost:11434'),
+      options.model || DEFAULT_TEXT_GENERATION_MODELS.ollama,
+      timeoutMs,
+    );
+  }
+
+  return new GeminiTextGenerationProvider(geminiService, options.model);
+}
+
+/**
+ * Provider for the answer model selected by `LLM_PROVIDER`
+ */
+export const textGenerationProviderFactory: FactoryProvider<TextGenerationProvider> =
+  {
+    provide: TEXT_GENERATION_PROVIDER,
+    inject: [ConfigService, GeminiService],
+    useFactory: (
+      configService: ConfigService,
+      geminiService: GeminiService,
+    ): TextGenerationProvider => {
+      const type = configService.get<string>('LLM_PROVIDER', 'gemini');
+
+      return createTextGenerationProvider(
+        {
+          provider: ['gemini', 'openai', 'ollama'].includes(type)
+            ? (type as TextGenerationProviderType)
+            : 'gemini',
+          model: configService.get<string>('LLM_MODEL'),
+        },
+        configService,
+        geminiService,
+      );
+    },
+  };
@@ -0,0 +1,65 @@
+/**
+ * Injection token for the configured text generation provider
+ */
+export const TEXT_GENERATION_PROVIDER = 'TEXT_GENERATION_PROVIDER';
+
+/**
+ * Supported text generation backends
+ */
+export type TextGenerationProviderType = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * One text-only generation: a system instruction and a single user prompt
+ */
+export interface TextGenerationRequest {
+  systemInstruction: string;
+  prompt: string;
+  maxOutputTokens: number;
+  /** How long the model may think before answering; ignored by backends without a thinking budget */
+  thinkingLevel?: 'minimal' | 'low' | 'medium' | 'high';
+  /** JSON schema the answer must follow; the answer text is then JSON */
+  responseSchema?: Record<string, unknown>;
+  /** Stops the generation, e.g. when a streaming client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Token counts of a generation, in the backend's own tokens
+ */
+export interface TextGenerationUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Answer text (without any thoughts) and its token usage
+ */
+export interface TextGenerationResult {
+  text: string;
+  tokenUsage?: TextGenerationUsage;
+}
+
+/**
+ * Piece of a streamed answer; the usage arrives with the last chunks
+ */
+export interface TextGenerationChunk {
+  text: string;
+  tokenUsage?: TextGenerationUsage;
+}
+
+/**
+ * Model that writes answers from retrieved context
+ * Only text goes in and out, so any chat model can answer once videos are indexed
+ */
+export interface TextGenerationProvider {
+  /** Backend this provider talks to */
+  readonly type: TextGenerationProviderType;
+  /** Model identifier used by the backend */
+  readonly modelName: string;
+  /** Generate the complete answer */
+  generate(request: TextGenerationRequest): Promise<TextGenerationResult>;
+  /** Generate the answer as a stream of text deltas */
+  generateStream(
+    request: TextGenerationRequest,
+  ): AsyncGenerator<TextGenerationChunk>;
+}
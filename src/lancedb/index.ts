@@ -1,7 +1,21 @@
 export * from './lancedb.module';
 export * from './embedding.service';
+export * from './embedding';
+export * from './classifiers';
+export * from './generation';
+export * from './reranker.service';
+export * from './custom-aspect.service';
 export * from './lancedb.service';
 export * from './video-index.service';
 export * from './rag-chat.service';
+export * from './rag-session.service';
+export * from './indexing-job.service';
+export * from './cleanup.service';
+export * from './embedding-migration.service';
+export * from './consistency.service';
+export * from './video-search.service';
+export * from './evaluation.service';
+export * from './filters';
+export * from './aspects';
 export * from './dto';
 export * from './interfaces';
@@ -0,0 +1,533 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  HttpStatus,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, unlinkSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { VideoIndexService } from './video-index.service';
+import { CustomAspectService } from './custom-aspect.service';
+import { VideoAnalyzeService } from '../gemini/video-analyze.service';
+import { FileManagerService } from '../gemini/file-manager.service';
+import {
+  ThinkingLevelInput,
+  MediaResolutionInput,
+} from '../gemini/dto/analyze-video.dto';
+import { JsonFileStore, hashFile } from '../common/storage';
+import {
+  IndexingJob,
+  IndexingJobInput,
+  IndexingJobResult,
+  IndexingJobStage,
+  IndexingJobStatus,
+} from './interfaces';
+
+/**
+ * Approximate progress reported when a job enters each stage
+ */
+const STAGE_PROGRESS: Record<IndexingJobStage, number> = {
+  uploading: 5,
+  processing: 15,
+  extracting: 30,
+  embedding: 70,
+  storing: 90,
+};
+
+/**
+ * Service that runs the video indexing pipeline as background jobs
+ * Jobs are persisted to disk so their status survives a restart, and
+ * unfinished jobs are re-queued on startup when their input is still available
+ */
+@Injectable()
+export class IndexingJobService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IndexingJobService.name);
+  private readonly store: JsonFileStore<IndexingJob>;
+  private readonly concurrency: number;
+  private readonly queue: string[] = [];
+  private activeCount = 0;
+  private isShuttingDown = false;
+
+  constructor(
+    private readonly videoIndexService: VideoIndexService,
+    private readonly videoAnalyzeService: VideoAnalyzeService,
+    private readonly fileManagerService: FileManagerService,
+    private readonly customAspectService: CustomAspectService,
+    private readonly configService: ConfigService,
+  ) {
+    this.store = new JsonFileStore<IndexingJob>(
+      this.configService.get<string>('INDEX_JOBS_PATH', './data/jobs'),
+    );
+    this.concurrency = Number(
+      this.configService.get<number>('INDEX_JOB_CONCURRENCY', 1),
+    );
+  }
+
+  async onModuleInit() {
+    await this.recoverJobs();
+  }
+
+  onModuleDestroy() {
+    this.isShuttingDown = true;
+  }
+
+  /**
+   * Create a new indexing job and schedule it for execution
+   */
+  async enqueue(input: IndexingJobInput): Promise<IndexingJob> {
+    const now = new Date().toISOString();
+    const job: IndexingJob = {
+      id: uuidv4(),
+      status: 'queued',
+      progress: 0,
+      input,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.write(job.id, job);
+    this.logger.log(
+      `Queued ${input.analysisType} indexing job ${job.id} for "${input.title}"`,
+    );
+
+    this.queue.push(job.id);
+    this.pump();
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<IndexingJob> {
+    const job = await this.store.read(jobId);
+    if (!job) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Indexing job not found: ${jobId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return job;
+  }
+
+  /**
+   * List jobs, newest first, optionally filtered by status
+   */
+  async listJobs(status?: IndexingJobStatus): Promise<IndexingJob[]> {
+    const jobs = await this.store.list();
+    return jobs
+      .filter((job) => !status || job.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Re-queue jobs that were queued or running when the process stopped
+   */
+  private async recoverJobs(): Promise<void> {
+    const jobs = await this.store.list();
+    const unfinished = jobs
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of unfinished) {
+      // A remote upload from an interrupted run will never be used again
+      if (job.geminiFileName) {
+        await this.deleteGeminiFile(job.geminiFileName);
+        job.geminiFileName = undefined;
+      }
+
+      if (!this.isInputAvailable(job.input)) {
+        await this.update(job, {
+          status: 'failed',
+          error:
+            'Job was interrupted by a restart and its uploaded file is no longer available',
+          completedAt: new Date().toISOString(),
+        });
+        continue;
+      }
+
+      await this.update(job, {
+        status: 'queued',
+        stage: undefined,
+        progress: 0,
+      });
+      this.queue.push(job.id);
+    }
+
+    if (this.queue.length > 0) {
+      this.logger.log(
+        `Recovered ${this.queue.length} unfinished indexing jobs`,
+      );
+      this.pump();
+    }
+  }
+
+  /**
+   * Start queued jobs while worker slots are available
+   */
+  private pump(): void {
+    while (
+      !this.isShuttingDown &&
+      this.activeCount < this.concurrency &&
+      this.queue.length > 0
+    ) {
+      const jobId = this.queue.shift();
+      this.activeCount++;
+
+      this.runJob(jobId)
+        .catch((error) =>
+          this.logger.error(
+            `Indexing job ${jobId} crashed: ${error.message}`,
+            error.stack,
+          ),
+        )
+        .finally(() => {
+          this.activeCount--;
+          this.pump();
+        });
+    }
+  }
+
+  /**
+   * Execute a single job through upload, extraction, embedding and storage
+   */
+  private async runJob(jobId: string): Promise<void> {
+    const job = await this.store.read(jobId);
+    if (!job || job.status !== 'queued') {
+      return;
+    }
+
+    await this.update(job, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: new Date().toISOString(),
+      error: undefined,
+      errorStatusCode: undefined,
+    });
+
+    const onProgress = (stage: IndexingJobStage) => this.setStage(job, stage);
+
+    try {
+      const result =
+        job.input.source === 'file'
+          ? await this.runFileJob(job, onProgress)
+          : await this.runYouTubeJob(job, onProgress);
+
+      if (!result.success) {
+        await this.update(job, {
+          status: 'failed',
+          error: result.error || 'Indexing failed',
+          result,
+          completedAt: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await this.update(job, {
+        status: 'completed',
+        progress: 100,
+        result,
+        completedAt: new Date().toISOString(),
+      });
+      this.logger.log(`Indexing job ${job.id} completed: ${result.videoId}`);
+    } catch (error) {
+      this.logger.error(
+        `Indexing job ${job.id} failed: ${error.message}`,
+        error.stack,
+      );
+      await this.update(job, {
+        status: 'failed',
+        error: this.extractErrorMessage(error),
+        errorStatusCode:
+          error instanceof HttpException ? error.getStatus() : undefined,
+        completedAt: new Date().toISOString(),
+      });
+    } finally {
+      if (job.input.source === 'file') {
+        this.deleteLocalFile(job.input.filePath);
+      }
+    }
+  }
+
+  /**
+   * Pipeline for an uploaded video file
+   */
+  private async runFileJob(
+    job: IndexingJob,
+    onProgress: (stage: IndexingJobStage) => Promise<void>,
+  ): Promise<IndexingJobResult> {
+    const { input } = job;
+    const startTime = Date.now();
+
+    try {
+      // The Gemini file URI is temporary, so identify the video by its content
+      const contentHash = input.contentHash ?? (await hashFile(input.filePath));
+      const sourceUri = `upload://sha256/${contentHash}`;
+      const indexOptions = {
+        contentHash,
+        originalFilename: input.originalFilename,
+        mode: input.mode,
+      };
+
+      // Skip extraction when the same file was indexed before,
+      // e.g. two uploads queued back to back
+      const skipped = await this.skipIfIndexed(job, sourceUri, contentHash);
+      if (skipped) {
+        return skipped;
+      }
+
+      // Upload file to Gemini File API
+      await onProgress('uploading');
+      const uploaded = await this.fileManagerService.uploadVideo(
+        input.filePath,
+        input.mimeType,
+        input.title,
+      );
+      await this.update(job, { geminiFileName: uploaded.name });
+
+      // Wait for Gemini to finish processing the upload
+      await onProgress('processing');
+      const fileMetadata =
+        uploaded.state === 'ACTIVE'
+          ? uploaded
+          : await this.fileManagerService.waitForActive(uploaded.name);
+
+      this.logger.log(`File uploaded and active: ${fileMetadata.uri}`);
+
+      await onProgress('extracting');
+      const options = {
+        thinkingLevel: input.thinkingLevel as ThinkingLevelInput,
+        mediaResolution: input.mediaResolution as MediaResolutionInput,
+      };
+
+      if (input.analysisType === 'advanced') {
+        const customAspects = await this.customAspectService.list();
+        const analysis =
+          await this.videoAnalyzeService.analyzeForAdvancedIndexing(
+            fileMetadata.uri,
+            fileMetadata.mimeType,
+            {
+              ...options,
+              durationSeconds: fileMetadata.videoDurationSeconds,
+              customAspects,
+            },
+          );
+
+        const result = await this.videoIndexService.indexAdvancedVideoAnalysis(
+          sourceUri,
+          input.title,
+          analysis,
+          fileMetadata.videoDurationSeconds,
+          onProgress,
+          { ...indexOptions, customAspects },
+        );
+
+        return {
+          ...result,
+          indexingTimeMs: Date.now() - startTime,
+          tokenUsage: analysis.tokenUsage,
+          analysisType: 'advanced',
+        };
+      }
+
+      const analysis = await this.videoAnalyzeService.analyzeForIndexing(
+        fileMetadata.uri,
+        fileMetadata.mimeType,
+        options,
+      );
+
+      const result = await this.videoIndexService.indexVideoAnalysis(
+        sourceUri,
+        input.title,
+        analysis,
+        analysis.frames || [],
+        fileMetadata.videoDurationSeconds,
+        onProgress,
+        indexOptions,
+      );
+
+      return {
+        ...result,
+        indexingTimeMs: Date.now() - startTime,
+        tokenUsage: analysis.tokenUsage,
+        analysisType: 'basic',
+      };
+    } finally {
+      // Clean up the uploaded file from Gemini
+      if (job.geminiFileName) {
+        await this.deleteGeminiFile(job.geminiFileName);
+        await this.update(job, { geminiFileName: undefined });
+      }
+    }
+  }
+
+  /**
+   * Pipeline for a YouTube URL (no upload needed)
+   */
+  private async runYouTubeJob(
+    job: IndexingJob,
+    onProgress: (stage: IndexingJobStage) => Promise<void>,
+  ): Promise<IndexingJobResult> {
+    const { input } = job;
+    const startTime = Date.now();
+    const options = {
+      thinkingLevel: input.thinkingLevel as ThinkingLevelInput,
+      mediaResolution: input.mediaResolution as MediaResolutionInput,
+      startOffset: input.startOffset,
+      endOffset: input.endOffset,
+    };
+
+    const skipped = await this.skipIfIndexed(job, input.url);
+    if (skipped) {
+      return skipped;
+    }
+
+    await onProgress('extracting');
+
+    if (input.analysisType === 'advanced') {
+      const customAspects = await this.customAspectService.list();
+      const analysis =
+        await this.videoAnalyzeService.analyzeYouTubeForAdvancedIndexing(
+          input.url,
+          { ...options, customAspects },
+        );
+
+      const result = await this.videoIndexService.indexAdvancedVideoAnalysis(
+        input.url,
+        input.title,
+        analysis,
+        undefined,
+        onProgress,
+        { mode: input.mode, customAspects },
+      );
+
+      return {
+        ...result,
+        indexingTimeMs: Date.now() - startTime,
+        tokenUsage: analysis.tokenUsage,
+        analysisType: 'advanced',
+      };
+    }
+
+    const analysis = await this.videoAnalyzeService.analyzeYouTubeForIndexing(
+      input.url,
+      options,
+    );
+
+    const result = await this.videoIndexService.indexVideoAnalysis(
+      input.url,
+      input.title,
+      analysis,
+      analysis.frames || [],
+      undefined,
+      onProgress,
+      { mode: input.mode },
+    );
+
+    return {
+      ...result,
+      indexingTimeMs: Date.now() - startTime,
+      tokenUsage: analysis.tokenUsage,
+      analysisType: 'basic',
+    };
+  }
+
+  /**
+   * Result for a video that is already indexed when the job doesn't re-index,
+   * or null to run the pipeline
+   */
+  private async skipIfIndexed(
+    job: IndexingJob,
+    sourceUri: string,
+    contentHash?: string,
+  ): Promise<IndexingJobResult | null> {
+    if ((job.input.mode ?? 'skip') !== 'skip') {
+      return null;
+    }
+
+    const existing = await this.videoIndexService.findIndexedVideo(
+      sourceUri,
+      contentHash,
+    );
+    if (!existing) {
+      return null;
+    }
+
+    return {
+      ...this.videoIndexService.skippedResult(existing, Date.now()),
+      analysisType: job.input.analysisType,
+    };
+  }
+
+  /**
+   * Record a stage transition
+   */
+  private async setStage(
+    job: IndexingJob,
+    stage: IndexingJobStage,
+  ): Promise<void> {
+    this.logger.debug(`Indexing job ${job.id}: ${stage}`);
+    await this.update(job, { stage, progress: STAGE_PROGRESS[stage] });
+  }
+
+  /**
+   * Apply changes to a job and persist it
+   * Writes of one job are queued so a slower earlier write never lands last
+   */
+  private async update(
+    job: IndexingJob,
+    changes: Partial<IndexingJob>,
+  ): Promise<void> {
+    await this.store.withLock(job.id, async () => {
+      Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+      await this.store.write(job.id, job);
+    });
+  }
+
+  /**
+   * Check whether a job can still be executed (its input has not been cleaned up)
+   */
+  private isInputAvailable(input: IndexingJobInput): boolean {
+    if (input.source === 'youtube') {
+      return Boolean(input.url);
+    }
+    return Boolean(input.filePath) && existsSync(input.filePath);
+  }
+
+  private extractErrorMessage(error: any): string {
+    if (error instanceof HttpException) {
+      const response = error.getResponse() as any;
+      if (typeof response === 'object' && response?.message) {
+        return Array.isArray(response.message)
+          ? response.message.join(', ')
+          : String(response.message);
+      }
+    }
+    return error.message || 'Unknown error';
+  }
+
+  private async deleteGeminiFile(fileName: string): Promise<void> {
+    try {
+      await this.fileManagerService.deleteFile(fileName);
+    } catch (error) {
+      this.logger.warn(`Failed to cleanup Gemini file: ${error.message}`);
+    }
+  }
+
+  private deleteLocalFile(filePath?: string): void {
+    try {
+      if (filePath && existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to cleanup local file: ${error.message}`);
+    }
+  }
+}
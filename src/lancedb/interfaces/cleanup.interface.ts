@@ -0,0 +1,30 @@
+/**
+ * Outcome of a single cleanup sweep
+ */
+export interface CleanupRunResult {
+  startedAt: string;
+  durationMs: number;
+  /** IDs of idle chat sessions that were ended */
+  expiredSessions: string[];
+  /** Names of orphaned Gemini files that were deleted */
+  deletedFiles: string[];
+  /** Non-fatal errors encountered during the sweep */
+  errors: string[];
+}
+
+/**
+ * Cumulative cleanup metrics since startup
+ */
+export interface CleanupMetrics {
+  /** Whether the scheduled sweeper is running */
+  enabled: boolean;
+  intervalMs: number;
+  sessionTtlMs: number;
+  orphanFileGraceMs: number;
+  runs: number;
+  failedRuns: number;
+  sessionsExpired: number;
+  filesDeleted: number;
+  fileDeleteFailures: number;
+  lastRun?: CleanupRunResult;
+}
@@ -0,0 +1,43 @@
+/**
+ * Frame or video vector rows whose video record no longer exists
+ */
+export interface OrphanFrames {
+  /** Table holding the rows (e.g. `frames`, `enhanced_frames_v2` or `video_vectors`) */
+  table: string;
+  videoId: string;
+  rows: number;
+}
+
+/**
+ * Video whose stored frame count differs from the rows actually stored
+ */
+export interface FrameCountMismatch {
+  videoId: string;
+  /** `frameCount` on the video record */
+  recorded: number;
+  /** Legacy and enhanced frame rows stored for the video */
+  actual: number;
+}
+
+/**
+ * Result of checking the videos table against the frame tables
+ */
+export interface ConsistencyReport {
+  consistent: boolean;
+  checkedAt: string;
+  videoCount: number;
+  orphanFrames: OrphanFrames[];
+  /** IDs of videos with no frame rows in any table */
+  videosWithoutFrames: string[];
+  frameCountMismatches: FrameCountMismatch[];
+}
+
+/**
+ * What a repair changed, with a fresh check afterwards
+ */
+export interface ConsistencyRepairResult {
+  deletedOrphanFrames: number;
+  deletedVideos: number;
+  fixedFrameCounts: number;
+  report: ConsistencyReport;
+}
@@ -0,0 +1,30 @@
+/**
+ * Aspect registered through the API and extracted alongside the built-in
+ * aspects during advanced indexing
+ */
+export interface CustomAspect {
+  /** Stored as the `aspectType` of the aspect's frames (e.g. `license_plates`) */
+  name: string;
+  /** What the aspect covers; the query classifiers match questions against it */
+  description: string;
+  /** What Gemini should extract for the aspect at each moment */
+  instructions: string;
+  /** JSON schema of the value extracted at each moment */
+  schema: Record<string, unknown>;
+  /** Renders an extracted value as the searchable content of a frame */
+  contentTemplate: string;
+  /** Words in a question that point to this aspect (keyword classifier) */
+  keywords: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Videos affected by deleting the frames of an aspect
+ */
+export interface AspectFramesDeletion {
+  /** Videos that kept other frames; their frame counts were reset */
+  updatedVideoIds: string[];
+  /** Videos that had no other frames and were deleted with their vector */
+  deletedVideoIds: string[];
+}
@@ -0,0 +1,76 @@
+import { EmbeddingProviderType } from '../embedding';
+
+/**
+ * A table holding vectors, with the text column its vectors embed
+ */
+export interface VectorTableInfo {
+  /** Unversioned table name (e.g. `frames`) */
+  baseName: string;
+  /** Table currently used for reads and writes (e.g. `frames_v2`) */
+  tableName: string;
+  /** Column whose text is embedded into `vector` */
+  textColumn: string;
+  /** Whether rows are frames (counted in `frameCount`) or one per video */
+  level: 'frame' | 'video';
+}
+
+/**
+ * Lifecycle status of a re-embedding migration
+ */
+export type EmbeddingMigrationStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Embedding model the migration re-embeds rows with
+ */
+export interface EmbeddingMigrationTarget {
+  provider: EmbeddingProviderType;
+  model: string;
+  /** Optional reduced output size for models that support it */
+  dimensions?: number;
+}
+
+/**
+ * Copy progress for one vector table
+ */
+export interface EmbeddingMigrationTableProgress {
+  /** Unversioned table name (e.g. `frames`) */
+  baseName: string;
+  /** Table rows are read from (active when the migration was created) */
+  sourceTable: string;
+  /** Versioned table rows are written to */
+  targetTable: string;
+  /** Column whose text is re-embedded */
+  textColumn: string;
+  /** Rows in the source table at the last check */
+  totalRows: number;
+  /** Rows already present in the target table */
+  migratedRows: number;
+}
+
+/**
+ * Re-embedding of all frame tables into new versioned tables
+ * Persisted so an interrupted migration can be resumed where it stopped
+ */
+export interface EmbeddingMigration {
+  id: string;
+  status: EmbeddingMigrationStatus;
+  target: EmbeddingMigrationTarget;
+  /** Vector dimension detected for the target model */
+  dimension?: number;
+  /** Version suffix of the target tables */
+  version: number;
+  tables: EmbeddingMigrationTableProgress[];
+  /** Overall progress (0-100) */
+  progress: number;
+  /** Number of times the migration has been run */
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
@@ -0,0 +1,106 @@
+import { QueryClassifierType } from '../classifiers';
+import { AspectType, SearchMode } from './video-index.interface';
+
+/**
+ * One golden question: what retrieval should find for it
+ * At least one of `expectedTimestamps` and `expectedAspects` is set
+ */
+export interface EvaluationCase {
+  /** Defaults to the case's position in the dataset */
+  id?: string;
+  videoId: string;
+  question: string;
+  /** Moments the sources should cover ("MM:SS" or "HH:MM:SS") */
+  expectedTimestamps?: string[];
+  /** Aspects the sources should cover; also groups the per-aspect metrics */
+  expectedAspects?: AspectType[];
+}
+
+/**
+ * Golden question set, loaded from a JSON file
+ */
+export interface EvaluationDataset {
+  name?: string;
+  cases: EvaluationCase[];
+}
+
+/**
+ * Retrieval settings evaluated side by side
+ * Unset fields use the same defaults as chat
+ */
+export interface EvaluationConfiguration {
+  name: string;
+  /** Search multi-aspect frames as advanced chat does (default: true) */
+  advanced?: boolean;
+  topK?: number;
+  mode?: SearchMode;
+  rerank?: boolean;
+  candidatePool?: number;
+  contextWindowSeconds?: number;
+  /** Defaults to QUERY_CLASSIFIER, or keyword when that is gemini */
+  classifier?: Exclude<QueryClassifierType, 'gemini'>;
+}
+
+/**
+ * Scores of one question's ranked sources
+ */
+export interface RankingScores {
+  recall: number;
+  /** 1 / rank of the first relevant source, 0 when none is relevant */
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+/**
+ * Mean scores over a set of questions
+ */
+export interface RetrievalMetrics {
+  cases: number;
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+}
+
+/**
+ * Result of one golden question
+ */
+export interface EvaluationCaseResult {
+  caseId: string;
+  videoId: string;
+  question: string;
+  /** Unset when retrieval failed (the means count it as all zeros) */
+  scores?: RankingScores;
+  /** Time spans of the ranked sources ("0:10-0:20") */
+  retrieved: string[];
+  /** Why retrieval failed (e.g. video missing from the database) */
+  error?: string;
+}
+
+/**
+ * Scores of one configuration over the dataset
+ * Failed cases count as zeros in the means
+ */
+export interface EvaluationRunResult {
+  configuration: EvaluationConfiguration;
+  /** Rank cut-off of the metrics (the configuration's top K) */
+  k: number;
+  overall: RetrievalMetrics;
+  byAspect: Partial<Record<AspectType, RetrievalMetrics>>;
+  failedCases: number;
+  latencyMs: number;
+  cases: EvaluationCaseResult[];
+}
+
+/**
+ * Evaluation of one dataset under each configuration
+ */
+export interface EvaluationReport {
+  dataset: string;
+  caseCount: number;
+  /** Fixture database the dataset was evaluated against (unset: the live database) */
+  lancedbPath?: string;
+  /** Seconds a source may miss an expected timestamp by */
+  timestampToleranceSeconds: number;
+  evaluatedAt: string;
+  results: EvaluationRunResult[];
+}
@@ -1 +1,8 @@
 export * from './video-index.interface';
+export * from './indexing-job.interface';
+export * from './cleanup.interface';
+export * from './rag-session.interface';
+export * from './embedding-migration.interface';
+export * from './consistency.interface';
+export * from './evaluation.interface';
+export * from './custom-aspect.interface';
@@ -0,0 +1,95 @@
+import { IndexMode, IndexResult } from './video-index.interface';
+
+/**
+ * Lifecycle status of a background indexing job
+ */
+export type IndexingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Pipeline stage a running job is currently in
+ */
+export type IndexingJobStage =
+  | 'uploading'
+  | 'processing'
+  | 'extracting'
+  | 'embedding'
+  | 'storing';
+
+/**
+ * Callback used by the indexing pipeline to report stage changes
+ */
+export type IndexProgressCallback = (
+  stage: IndexingJobStage,
+) => void | Promise<void>;
+
+/**
+ * Everything needed to (re)run an indexing job from scratch
+ */
+export interface IndexingJobInput {
+  /** Where the video comes from */
+  source: 'file' | 'youtube';
+  /** Basic frame descriptions or advanced multi-aspect extraction */
+  analysisType: 'basic' | 'advanced';
+  /** Video title */
+  title: string;
+  /** Local path of the uploaded file (file source only) */
+  filePath?: string;
+  /** MIME type of the uploaded file (file source only) */
+  mimeType?: string;
+  /** SHA-256 of the uploaded file (file source only) */
+  contentHash?: string;
+  /** Filename the video was uploaded with (file source only) */
+  originalFilename?: string;
+  /** YouTube URL (youtube source only) */
+  url?: string;
+  /** What to do when the video is already indexed */
+  mode?: IndexMode;
+  thinkingLevel?: string;
+  mediaResolution?: string;
+  startOffset?: string;
+  endOffset?: string;
+}
+
+/**
+ * Final outcome of a successful indexing job
+ */
+export interface IndexingJobResult extends IndexResult {
+  /** Token usage of the Gemini extraction */
+  tokenUsage?: {
+    inputTokens: number;
+    outputTokens: number;
+    thoughtsTokens?: number;
+  };
+  /** Analysis type used */
+  analysisType: 'basic' | 'advanced';
+}
+
+/**
+ * Persisted state of a background indexing job
+ */
+export interface IndexingJob {
+  /** Job identifier (UUID) */
+  id: string;
+  /** Current lifecycle status */
+  status: IndexingJobStatus;
+  /** Current pipeline stage (set once the job starts running) */
+  stage?: IndexingJobStage;
+  /** Rough completion percentage (0-100) */
+  progress: number;
+  /** Job input parameters */
+  input: IndexingJobInput;
+  /** Gemini Files API name of the upload, while it exists */
+  geminiFileName?: string;
+  /** Final result when completed */
+  result?: IndexingJobResult;
+  /** Error message when failed */
+  error?: string;
+  /** HTTP status code associated with the failure, if any */
+  errorStatusCode?: number;
+  /** Number of times the job has been started */
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
@@ -0,0 +1,29 @@
+import { RAGChatTurn, RAGSource } from './video-index.interface';
+
+/**
+ * Which retrieval pipeline a RAG chat session uses
+ */
+export type RAGChatType = 'basic' | 'advanced';
+
+/**
+ * A stored message in a RAG chat session
+ */
+export interface RAGChatMessage extends RAGChatTurn {
+  /** Retrieval query the question was rewritten to (user messages) */
+  standaloneQuery?: string;
+  /** Frames the answer was based on (assistant messages) */
+  sources?: RAGSource[];
+  createdAt: string;
+}
+
+/**
+ * Multi-turn RAG conversation over a single indexed video
+ */
+export interface RAGChatSession {
+  id: string;
+  videoId: string;
+  chatType: RAGChatType;
+  messages: RAGChatMessage[];
+  createdAt: string;
+  lastActivityAt: string;
+}
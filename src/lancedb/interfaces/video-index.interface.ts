@@ -1,11 +1,19 @@
+import { QueryClassifierType } from '../classifiers';
+import { TextGenerationProviderType } from '../generation';
+import { CustomAspect } from './custom-aspect.interface';
+
 /**
  * Video metadata stored in LanceDB
  */
 export interface VideoRecord {
   /** Unique identifier (UUID) */
   id: string;
-  /** YouTube URL or original file path */
+  /** YouTube URL, or `upload://sha256/<contentHash>` for uploaded files */
   sourceUri: string;
+  /** SHA-256 of the uploaded file (uploads only), used for deduplication */
+  contentHash?: string;
+  /** Filename the video was uploaded with (uploads only) */
+  originalFilename?: string;
   /** Video title or display name */
   title: string;
   /** Video duration in seconds */
@@ -25,9 +33,9 @@ export interface VideoRecord {
 }
 
 /**
- * Aspect types for multi-modal indexing
+ * Aspects every advanced extraction covers
  */
-export type AspectType =
+export type BuiltInAspectType =
   | 'people'
   | 'objects'
   | 'scene'
@@ -35,6 +43,13 @@ export type AspectType =
   | 'action'
   | 'text';
 
+/**
+ * Aspect types for multi-modal indexing: a built-in aspect or the name of a
+ * registered custom aspect (the intersection keeps the built-in names from
+ * collapsing into `string`)
+ */
+export type AspectType = BuiltInAspectType | (string & Record<never, never>);
+
 /**
  * Frame-level record with embedding vector (legacy)
  */
@@ -92,6 +107,43 @@ export interface EnhancedFrameRecordBase {
   metadata: string;
 }
 
+/**
+ * Video-level record embedding the summary and aggregated aspects of a video
+ */
+export interface VideoVectorRecord {
+  /** Same as `videoId` (one row per video) */
+  id: string;
+  /** Foreign key to video */
+  videoId: string;
+  /** Title, summary and per-aspect digest that was embedded */
+  content: string;
+  /** Embedding vector of `content` */
+  vector: number[];
+  /** Timestamp when built */
+  updatedAt: string;
+  /** Index signature for LanceDB compatibility */
+  [key: string]: string | number | number[] | undefined;
+}
+
+/**
+ * Embedding model a vector table was built with, stored per table so a
+ * different model cannot silently write or query incompatible vectors
+ */
+export interface EmbeddingMetadataRecord {
+  /** Name of the vector table */
+  tableName: string;
+  /** Embedding backend (transformers, gemini, openai) */
+  provider: string;
+  /** Embedding model name */
+  model: string;
+  /** Vector dimension */
+  dimension: number;
+  /** Timestamp when recorded */
+  updatedAt: string;
+  /** Index signature for LanceDB compatibility */
+  [key: string]: string | number;
+}
+
 /**
  * Person metadata extracted from video
  */
@@ -227,6 +279,8 @@ export interface AdvancedFrameData {
   textOnScreen?: TextOnScreenMetadata[];
   /** Overall action description */
   actionDescription?: string;
+  /** Values of the requested custom aspects, keyed by aspect name */
+  customAspects?: Record<string, unknown>;
 }
 
 /**
@@ -271,16 +325,35 @@ export interface IndexResult {
   indexingTimeMs: number;
   /** Whether indexing was successful */
   success: boolean;
+  /** What happened to the video (set when successful) */
+  action?: IndexAction;
   /** Error message if failed */
   error?: string;
 }
 
+/**
+ * How to handle a video that is already indexed
+ * - skip: keep the existing index and return its video ID
+ * - replace: swap in the new frames under the same video ID
+ * - merge: add frames for new timestamps/aspects, keeping existing ones
+ */
+export type IndexMode = 'skip' | 'replace' | 'merge';
+
+/**
+ * Outcome of an indexing run
+ */
+export type IndexAction = 'created' | 'skipped' | 'replaced' | 'merged';
+
 /**
  * Search result from vector search (legacy)
  */
 export interface FrameSearchResult extends FrameRecord {
   /** Distance/similarity score from vector search */
   _distance?: number;
+  /** BM25 score from full-text search */
+  _score?: number;
+  /** Relevance normalized to 0-1 (search mode score, or cross-encoder score when re-ranked) */
+  _relevance?: number;
 }
 
 /**
@@ -289,6 +362,173 @@ export interface FrameSearchResult extends FrameRecord {
 export interface EnhancedFrameSearchResult extends EnhancedFrameRecord {
   /** Distance/similarity score from vector search */
   _distance?: number;
+  /** BM25 score from full-text search */
+  _score?: number;
+  /** Relevance normalized to 0-1 (search mode score, or cross-encoder score when re-ranked) */
+  _relevance?: number;
+}
+
+/**
+ * Search result from the video-level vectors
+ */
+export interface VideoVectorSearchResult extends VideoVectorRecord {
+  _distance?: number;
+  _score?: number;
+  _relevance?: number;
+}
+
+/**
+ * Retrieval strategy: embeddings only, BM25 full-text only, or both fused
+ */
+export type SearchMode = 'vector' | 'fts' | 'hybrid';
+
+/**
+ * Parameters for a frame search in any mode
+ */
+export interface FrameSearchOptions {
+  /** Query text (used for full-text search) */
+  queryText: string;
+  /** Query embedding (required for vector and hybrid modes) */
+  queryVector?: number[];
+  mode: SearchMode;
+  videoId?: string;
+  /** Only match frames inside this window of video time */
+  timeRange?: TimeRange;
+  limit?: number;
+}
+
+/**
+ * Parameters for a search over whole videos
+ */
+export interface VideoVectorSearchOptions extends Omit<
+  FrameSearchOptions,
+  'videoId' | 'timeRange'
+> {
+  /** Leave this video out (e.g. the video related videos are found for) */
+  excludeVideoId?: string;
+}
+
+/**
+ * Window of video time in seconds; a missing bound leaves that side open
+ */
+export interface TimeRange {
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * Frame row inside a source moment
+ */
+export interface MomentFrame {
+  timestamp: string;
+  description: string;
+  aspectType?: AspectType;
+  /** Set on search hits; rows added as surrounding context have none */
+  relevanceScore?: number;
+}
+
+/**
+ * Source used as context for a RAG answer or returned by a search
+ * Consecutive frames of a video are merged into one moment spanning a time range
+ */
+export interface RAGSource {
+  /** ID the answer cites the source by (structured answers only) */
+  sourceId?: string;
+  videoId: string;
+  /** Start of the moment (MM:SS) */
+  timestamp: string;
+  /** End of the moment (MM:SS); equal to `timestamp` for a single frame */
+  endTimestamp: string;
+  /** Start of the moment in seconds */
+  startTime: number;
+  /** End of the moment in seconds */
+  endTime: number;
+  /** Text of the moment's frames in time order, one per line */
+  description: string;
+  /** Aspects covered by the moment's frames (enhanced frames only) */
+  aspectTypes?: AspectType[];
+  /** Best relevance among the moment's search hits */
+  relevanceScore?: number;
+  /** Indexes into the response's `expansions` of the queries that found the moment */
+  expansions?: number[];
+  frames: MomentFrame[];
+}
+
+/**
+ * A prior turn in a RAG conversation
+ */
+export interface RAGChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options for a RAG chat request
+ */
+export interface RAGChatOptions {
+  /** Number of frames to retrieve */
+  topK?: number;
+  /** Retrieval strategy (default: RAG_SEARCH_MODE) */
+  mode?: SearchMode;
+  /** Re-score candidates with the cross-encoder before synthesis (default: RAG_RERANK) */
+  rerank?: boolean;
+  /** Number of candidates fetched for re-ranking (default: RAG_RERANK_CANDIDATE_POOL) */
+  candidatePool?: number;
+  /** Prior conversation turns, oldest first, used to resolve follow-up questions */
+  history?: RAGChatTurn[];
+  /**
+   * Only retrieve frames inside this window; when unset, a time named in the
+   * question ("at 2:30", "in the last minute") selects the window
+   */
+  timeRange?: TimeRange;
+  /** Also use every frame this many seconds around each hit (default: RAG_CONTEXT_WINDOW_SECONDS) */
+  contextWindowSeconds?: number;
+  /** Also search with paraphrases and a hypothetical frame description (default: RAG_QUERY_EXPANSION) */
+  expand?: boolean;
+  /** Answer as claims citing sources, with verified citations (default: RAG_STRUCTURED_ANSWERS) */
+  structured?: boolean;
+  /** Backend that writes the answer (default: LLM_PROVIDER) */
+  llmProvider?: TextGenerationProviderType;
+  /** Answer model of that backend (default: LLM_MODEL for LLM_PROVIDER, else the backend's default) */
+  llmModel?: string;
+  /** Stops a streamed answer, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Kind of query searched when query expansion is on
+ */
+export type QueryExpansionType = 'original' | 'paraphrase' | 'hypothetical';
+
+/**
+ * One of the queries searched when query expansion is on
+ */
+export interface QueryExpansion {
+  type: QueryExpansionType;
+  text: string;
+  /** Number of returned sources this query found */
+  sourceCount: number;
+}
+
+/**
+ * Source and timestamp a claim of a structured answer cites
+ */
+export interface RAGCitation {
+  sourceId: string;
+  /** MM:SS */
+  timestamp: string;
+  /** Whether the source was retrieved and the timestamp lies within it */
+  verified: boolean;
+}
+
+/**
+ * Statement of a structured answer with its citations
+ */
+export interface RAGClaim {
+  text: string;
+  citations: RAGCitation[];
+  /** Whether at least one citation is verified */
+  grounded: boolean;
 }
 
 /**
@@ -298,13 +538,18 @@ export interface RAGResponse {
   /** Generated answer */
   answer: string;
   /** Source frames used for context */
-  sources: Array<{
-    timestamp: string;
-    description: string;
-    aspectType?: AspectType;
-    relevanceScore?: number;
-  }>;
-  /** Token usage metadata */
+  sources: RAGSource[];
+  /** Follow-up question rewritten for retrieval (only set when history was given) */
+  standaloneQuery?: string;
+  /** Window of video time the sources were restricted to */
+  timeRange?: TimeRange;
+  /** Queries searched, the original first (only set when query expansion was used) */
+  expansions?: QueryExpansion[];
+  /** Claims of the answer with checked citations (structured answers only) */
+  claims?: RAGClaim[];
+  /** Share of claims with a verified citation (structured answers only) */
+  groundingScore?: number;
+  /** Token usage of the answer model, normalized across providers */
   tokenUsage?: {
     inputTokens: number;
     outputTokens: number;
@@ -313,6 +558,34 @@ export interface RAGResponse {
   latencyMs: number;
 }
 
+/**
+ * Answer to a question asked across several videos
+ */
+export interface MultiVideoRAGResponse extends Omit<
+  RAGResponse,
+  'sources' | 'standaloneQuery'
+> {
+  /** Moments used as context, grouped by video */
+  sources: Array<RAGSource & { videoTitle: string }>;
+  /** Videos that contributed context, in the order they were given to the model */
+  videos: Array<{ videoId: string; title: string; sourceCount: number }>;
+}
+
+/**
+ * Event emitted by a streaming RAG chat
+ * Order: one `sources` event, zero or more `delta` events, then `done` (or `error`)
+ */
+export type RAGStreamEvent =
+  | { type: 'sources'; sources: RAGSource[]; expansions?: QueryExpansion[] }
+  | { type: 'delta'; text: string }
+  | {
+      type: 'done';
+      answer: string;
+      tokenUsage?: RAGResponse['tokenUsage'];
+      latencyMs: number;
+    }
+  | { type: 'error'; statusCode: number; message: string };
+
 /**
  * Indexed video summary
  */
@@ -320,17 +593,68 @@ export interface IndexedVideoSummary {
   id: string;
   title: string;
   sourceUri: string;
+  originalFilename?: string;
   frameCount: number;
   indexedAt: string;
   confidence: string;
 }
 
+/**
+ * Video ranked by library-wide video search
+ */
+export interface VideoSearchResult {
+  videoId: string;
+  title: string;
+  sourceUri: string;
+  duration?: number;
+  frameCount: number;
+  indexedAt: string;
+  /** Beginning of the stored analysis */
+  summary: string;
+  relevanceScore?: number;
+}
+
+/**
+ * Outcome of building the missing video-level vectors
+ */
+export interface VideoVectorBackfillResult {
+  /** Videos that had no vector */
+  missing: number;
+  indexed: number;
+  failed: number;
+}
+
+/**
+ * Identity of an uploaded video file, stored alongside its video record
+ */
+export type VideoSourceDetails = Pick<
+  VideoRecord,
+  'contentHash' | 'originalFilename'
+>;
+
+/**
+ * Optional inputs of an indexing run
+ */
+export interface IndexVideoOptions extends VideoSourceDetails {
+  /** What to do when the video is already indexed (default: skip) */
+  mode?: IndexMode;
+  /** Custom aspects the extraction was asked for (advanced indexing only) */
+  customAspects?: CustomAspect[];
+}
+
+/**
+ * Relevance of each aspect to a query, summing to 1
+ */
+export type AspectWeights = Record<AspectType, number>;
+
 /**
  * Query classification result for smart routing
  */
 export interface QueryClassification {
-  /** Detected aspect types relevant to the query */
-  aspects: AspectType[];
+  /** Share of the retrieved frames each aspect should get */
+  weights: AspectWeights;
   /** Confidence in the classification */
   confidence: number;
+  /** Classifier that produced the weights */
+  classifier: QueryClassifierType;
 }
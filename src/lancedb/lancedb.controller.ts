@@ -3,6 +3,7 @@ import {
   Post,
   Get,
   Delete,
+  Put,
   Body,
   Param,
   Query,
@@ -10,10 +11,13 @@ import {
   UploadedFile,
   HttpException,
   HttpStatus,
+  HttpCode,
   Logger,
   ParseFilePipe,
   MaxFileSizeValidator,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import { extname, join } from 'path';
@@ -22,16 +26,37 @@ import { VideoIndexService } from './video-index.service';
 import { RAGChatService } from './rag-chat.service';
 import { LanceDBService } from './lancedb.service';
 import { EmbeddingService } from './embedding.service';
-import { VideoAnalyzeService } from '../gemini/video-analyze.service';
-import { FileManagerService } from '../gemini/file-manager.service';
+import { IndexingJobService } from './indexing-job.service';
+import { RAGSessionService } from './rag-session.service';
+import { VideoSearchService } from './video-search.service';
+import { CustomAspectService } from './custom-aspect.service';
 import {
   IndexVideoDto,
   IndexYouTubeDto,
   RAGChatDto,
+  MultiVideoChatDto,
+  CreateRAGSessionDto,
+  RAGSessionMessageDto,
   GlobalSearchDto,
+  VideoSearchDto,
+  IndexJobAcceptedDto,
+  IndexDuplicateDto,
+  CreateCustomAspectDto,
+  UpdateCustomAspectDto,
+  SEARCH_MODES,
 } from './dto';
+import {
+  IndexingJob,
+  IndexingJobInput,
+  IndexingJobStatus,
+  RAGStreamEvent,
+  RAGChatOptions,
+  SearchMode,
+  TimeRange,
+} from './interfaces';
 import { ConfigService } from '@nestjs/config';
 import { VideoFileValidator } from '../common/validators';
+import { hashFile } from '../common/storage';
 
 // Ensure uploads directory exists
 const uploadsDir = join(process.cwd(), 'uploads');
@@ -48,16 +73,21 @@ export class LanceDBController {
     private readonly ragChatService: RAGChatService,
     private readonly lancedbService: LanceDBService,
     private readonly embeddingService: EmbeddingService,
-    private readonly videoAnalyzeService: VideoAnalyzeService,
-    private readonly fileManagerService: FileManagerService,
+    private readonly indexingJobService: IndexingJobService,
+    private readonly ragSessionService: RAGSessionService,
+    private readonly videoSearchService: VideoSearchService,
+    private readonly customAspectService: CustomAspectService,
     private readonly configService: ConfigService,
   ) {}
 
   /**
    * Index an uploaded video file for RAG search
-   * Analyzes the video with Gemini to extract frame descriptions, then indexes them
+   * Queues a background job that analyzes the video with Gemini and indexes the frames
+   * Returns the existing video (200) when the same file is already indexed,
+   * unless `mode` is replace or merge
    */
   @Post('index')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('video', {
       storage: diskStorage({
@@ -84,9 +114,8 @@ export class LanceDBController {
     )
     file: Express.Multer.File,
     @Body() dto: IndexVideoDto,
-  ) {
-    const startTime = Date.now();
-
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<IndexJobAcceptedDto | IndexDuplicateDto> {
     // Auto-generate title from filename if not provided
     const title =
       dto.title ||
@@ -95,122 +124,46 @@ export class LanceDBController {
 
     this.logger.log(`Indexing video: ${title}, size: ${file.size} bytes`);
 
-    let fileMetadata: { uri: string; mimeType: string; name: string } | null =
-      null;
-
-    try {
-      // Upload file to Gemini File API and wait for it to be ready
-      fileMetadata = await this.fileManagerService.uploadAndWaitForActive(
-        file.path,
-        file.mimetype,
-        title,
-      );
-
-      this.logger.log(`File uploaded and active: ${fileMetadata.uri}`);
-
-      // Analyze video to extract frame descriptions
-      const analysis = await this.videoAnalyzeService.analyzeForIndexing(
-        fileMetadata.uri,
-        fileMetadata.mimeType,
-        {
-          thinkingLevel: dto.thinkingLevel,
-          mediaResolution: dto.mediaResolution,
-        },
-      );
-
-      this.logger.log(
-        `Analysis complete, ${analysis.frames?.length || 0} frames extracted`,
-      );
-
-      // Index the video with frame descriptions
-      const result = await this.videoIndexService.indexVideoAnalysis(
-        fileMetadata.uri,
-        title,
-        analysis,
-        analysis.frames || [],
-      );
-
-      return {
-        ...result,
-        indexingTimeMs: Date.now() - startTime,
-        tokenUsage: analysis.tokenUsage,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to index video: ${error.message}`, error.stack);
-      throw error;
-    } finally {
-      // Clean up the local file
-      try {
-        if (existsSync(file.path)) {
-          unlinkSync(file.path);
-        }
-      } catch (cleanupError) {
-        this.logger.warn(
-          `Failed to cleanup local file: ${cleanupError.message}`,
-        );
-      }
-
-      // Clean up the uploaded file from Gemini
-      if (fileMetadata) {
-        try {
-          await this.fileManagerService.deleteFile(fileMetadata.name);
-        } catch (cleanupError) {
-          this.logger.warn(
-            `Failed to cleanup Gemini file: ${cleanupError.message}`,
-          );
-        }
-      }
-    }
+    return this.enqueueFileJob(file, res, {
+      source: 'file',
+      analysisType: 'basic',
+      title,
+      filePath: file.path,
+      mimeType: file.mimetype,
+      originalFilename: file.originalname,
+      thinkingLevel: dto.thinkingLevel,
+      mediaResolution: dto.mediaResolution,
+      mode: dto.mode,
+    });
   }
 
   /**
    * Index a YouTube video for RAG search (legacy - basic frame extraction)
-   * Analyzes the video with Gemini to extract frame descriptions, then indexes them
+   * Queues a background job that analyzes the video with Gemini and indexes the frames
    */
   @Post('index/youtube')
-  async indexYouTube(@Body() dto: IndexYouTubeDto) {
-    const startTime = Date.now();
+  @HttpCode(HttpStatus.ACCEPTED)
+  async indexYouTube(
+    @Body() dto: IndexYouTubeDto,
+  ): Promise<IndexJobAcceptedDto> {
     this.logger.log(`Indexing YouTube video: ${dto.url}`);
 
     // Auto-generate title if not provided
     const title = dto.title || this.generateTitleFromUrl(dto.url);
 
-    try {
-      // Analyze YouTube video to extract frame descriptions
-      const analysis = await this.videoAnalyzeService.analyzeYouTubeForIndexing(
-        dto.url,
-        {
-          thinkingLevel: dto.thinkingLevel,
-          mediaResolution: dto.mediaResolution,
-          startOffset: dto.startOffset,
-          endOffset: dto.endOffset,
-        },
-      );
-
-      this.logger.log(
-        `Analysis complete, ${analysis.frames?.length || 0} frames extracted`,
-      );
-
-      // Index the video with frame descriptions
-      const result = await this.videoIndexService.indexVideoAnalysis(
-        dto.url,
-        title,
-        analysis,
-        analysis.frames || [],
-      );
-
-      return {
-        ...result,
-        indexingTimeMs: Date.now() - startTime,
-        tokenUsage: analysis.tokenUsage,
-      };
-    } catch (error) {
-      this.logger.error(
-        `Failed to index YouTube video: ${error.message}`,
-        error.stack,
-      );
-      throw error;
-    }
+    const job = await this.indexingJobService.enqueue({
+      source: 'youtube',
+      analysisType: 'basic',
+      title,
+      url: dto.url,
+      thinkingLevel: dto.thinkingLevel,
+      mediaResolution: dto.mediaResolution,
+      startOffset: dto.startOffset,
+      endOffset: dto.endOffset,
+      mode: dto.mode,
+    });
+
+    return this.toJobAccepted(job);
   }
 
   /**
@@ -219,57 +172,38 @@ export class LanceDBController {
    * This enables answering detailed questions about demographics, speech, etc.
    */
   @Post('index/youtube/advanced')
-  async indexYouTubeAdvanced(@Body() dto: IndexYouTubeDto) {
-    const startTime = Date.now();
+  @HttpCode(HttpStatus.ACCEPTED)
+  async indexYouTubeAdvanced(
+    @Body() dto: IndexYouTubeDto,
+  ): Promise<IndexJobAcceptedDto> {
     this.logger.log(`Advanced indexing YouTube video: ${dto.url}`);
 
     // Auto-generate title if not provided
     const title = dto.title || this.generateTitleFromUrl(dto.url);
 
-    try {
-      // Perform advanced multi-modal analysis
-      const analysis =
-        await this.videoAnalyzeService.analyzeYouTubeForAdvancedIndexing(
-          dto.url,
-          {
-            thinkingLevel: dto.thinkingLevel,
-            mediaResolution: dto.mediaResolution,
-            startOffset: dto.startOffset,
-            endOffset: dto.endOffset,
-          },
-        );
-
-      this.logger.log(
-        `Advanced analysis complete, ${analysis.frames?.length || 0} frames extracted`,
-      );
-
-      // Index with multi-aspect embedding generation
-      const result = await this.videoIndexService.indexAdvancedVideoAnalysis(
-        dto.url,
-        title,
-        analysis,
-      );
-
-      return {
-        ...result,
-        indexingTimeMs: Date.now() - startTime,
-        tokenUsage: analysis.tokenUsage,
-        analysisType: 'advanced',
-      };
-    } catch (error) {
-      this.logger.error(
-        `Failed to perform advanced YouTube indexing: ${error.message}`,
-        error.stack,
-      );
-      throw error;
-    }
+    const job = await this.indexingJobService.enqueue({
+      source: 'youtube',
+      analysisType: 'advanced',
+      title,
+      url: dto.url,
+      thinkingLevel: dto.thinkingLevel,
+      mediaResolution: dto.mediaResolution,
+      startOffset: dto.startOffset,
+      endOffset: dto.endOffset,
+      mode: dto.mode,
+    });
+
+    return this.toJobAccepted(job);
   }
 
   /**
    * ADVANCED: Index an uploaded video with comprehensive multi-modal extraction
    * Extracts detailed information about people, objects, scenes, audio, and text
+   * Returns the existing video (200) when the same file is already indexed,
+   * unless `mode` is replace or merge
    */
   @Post('index/advanced')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('video', {
       storage: diskStorage({
@@ -294,9 +228,8 @@ export class LanceDBController {
     )
     file: Express.Multer.File,
     @Body() dto: IndexVideoDto,
-  ) {
-    const startTime = Date.now();
-
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<IndexJobAcceptedDto | IndexDuplicateDto> {
     const title =
       dto.title ||
       file.originalname.replace(/\.[^/.]+$/, '') ||
@@ -306,75 +239,38 @@ export class LanceDBController {
       `Advanced indexing video: ${title}, size: ${file.size} bytes`,
     );
 
-    let fileMetadata: { uri: string; mimeType: string; name: string } | null =
-      null;
-
-    try {
-      // Upload file to Gemini
-      fileMetadata = await this.fileManagerService.uploadAndWaitForActive(
-        file.path,
-        file.mimetype,
-        title,
-      );
-
-      this.logger.log(`File uploaded and active: ${fileMetadata.uri}`);
-
-      // Perform advanced multi-modal analysis
-      const analysis =
-        await this.videoAnalyzeService.analyzeForAdvancedIndexing(
-          fileMetadata.uri,
-          fileMetadata.mimeType,
-          {
-            thinkingLevel: dto.thinkingLevel,
-            mediaResolution: dto.mediaResolution,
-          },
-        );
-
-      this.logger.log(
-        `Advanced analysis complete, ${analysis.frames?.length || 0} frames extracted`,
-      );
-
-      // Index with multi-aspect embedding generation
-      const result = await this.videoIndexService.indexAdvancedVideoAnalysis(
-        fileMetadata.uri,
-        title,
-        analysis,
-      );
+    return this.enqueueFileJob(file, res, {
+      source: 'file',
+      analysisType: 'advanced',
+      title,
+      filePath: file.path,
+      mimeType: file.mimetype,
+      originalFilename: file.originalname,
+      thinkingLevel: dto.thinkingLevel,
+      mediaResolution: dto.mediaResolution,
+      mode: dto.mode,
+    });
+  }
 
-      return {
-        ...result,
-        indexingTimeMs: Date.now() - startTime,
-        tokenUsage: analysis.tokenUsage,
-        analysisType: 'advanced',
-      };
-    } catch (error) {
-      this.logger.error(
-        `Failed to perform advanced video indexing: ${error.message}`,
-        error.stack,
-      );
-      throw error;
-    } finally {
-      // Cleanup
-      try {
-        if (existsSync(file.path)) {
-          unlinkSync(file.path);
-        }
-      } catch (cleanupError) {
-        this.logger.warn(
-          `Failed to cleanup local file: ${cleanupError.message}`,
-        );
-      }
+  /**
+   * List indexing jobs, newest first
+   */
+  @Get('jobs')
+  async listJobs(@Query('status') status?: IndexingJobStatus) {
+    const jobs = await this.indexingJobService.listJobs(status);
+    return {
+      jobs,
+      count: jobs.length,
+    };
+  }
 
-      if (fileMetadata) {
-        try {
-          await this.fileManagerService.deleteFile(fileMetadata.name);
-        } catch (cleanupError) {
-          this.logger.warn(
-            `Failed to cleanup Gemini file: ${cleanupError.message}`,
-          );
-        }
-      }
-    }
+  /**
+   * Get the status of an indexing job
+   * Reports the current stage, progress, errors and the final IndexResult
+   */
+  @Get('jobs/:id')
+  async getJob(@Param('id') id: string) {
+    return this.indexingJobService.getJob(id);
   }
 
   /**
@@ -392,7 +288,7 @@ export class LanceDBController {
       const response = await this.ragChatService.chat(
         dto.videoId,
         dto.query,
-        dto.topK,
+        this.toChatOptions(dto),
       );
 
       return {
@@ -421,7 +317,7 @@ export class LanceDBController {
       const response = await this.ragChatService.advancedChat(
         dto.videoId,
         dto.query,
-        dto.topK,
+        this.toChatOptions(dto),
       );
 
       return {
@@ -438,6 +334,167 @@ export class LanceDBController {
     }
   }
 
+  /**
+   * Chat across several indexed videos (or the whole library)
+   * Answers cite the video title and timestamp of each fact
+   */
+  @Post('chat/multi')
+  async chatMulti(@Body() dto: MultiVideoChatDto) {
+    const startTime = Date.now();
+    this.logger.log(
+      `Multi-video RAG chat over ${dto.videoIds === 'all' ? 'all videos' : dto.videoIds.join(', ')}: ${dto.query.substring(0, 100)}...`,
+    );
+
+    try {
+      const response = await this.ragChatService.multiVideoChat(
+        dto.videoIds,
+        dto.query,
+        this.toChatOptions(dto),
+      );
+
+      return {
+        ...response,
+        latencyMs: Date.now() - startTime,
+        chatType: 'multi',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Multi-video RAG chat failed: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming variant of POST /lancedb/chat (Server-Sent Events)
+   * Emits `sources`, then `delta` events with answer text, then `done`
+   */
+  @Post('chat/stream')
+  async chatStream(@Body() dto: RAGChatDto, @Res() res: Response) {
+    this.logger.log(
+      `Streaming RAG chat for video ${dto.videoId}: ${dto.query.substring(0, 100)}...`,
+    );
+
+    const events = await this.ragChatService.streamChat(
+      dto.videoId,
+      dto.query,
+      {
+        ...this.toChatOptions(dto),
+        signal: this.abortOnClose(res),
+      },
+    );
+    await this.writeEventStream(res, events);
+  }
+
+  /**
+   * Streaming variant of POST /lancedb/chat/advanced (Server-Sent Events)
+   */
+  @Post('chat/advanced/stream')
+  async chatAdvancedStream(@Body() dto: RAGChatDto, @Res() res: Response) {
+    this.logger.log(
+      `Streaming advanced RAG chat for video ${dto.videoId}: ${dto.query.substring(0, 100)}...`,
+    );
+
+    const events = await this.ragChatService.streamAdvancedChat(
+      dto.videoId,
+      dto.query,
+      {
+        ...this.toChatOptions(dto),
+        signal: this.abortOnClose(res),
+      },
+    );
+    await this.writeEventStream(res, events);
+  }
+
+  /**
+   * Start a multi-turn RAG chat session over an indexed video
+   */
+  @Post('chat/sessions')
+  @HttpCode(HttpStatus.CREATED)
+  async createChatSession(@Body() dto: CreateRAGSessionDto) {
+    const session = await this.ragSessionService.createSession(
+      dto.videoId,
+      dto.chatType,
+    );
+
+    return {
+      sessionId: session.id,
+      videoId: session.videoId,
+      chatType: session.chatType,
+      createdAt: session.createdAt,
+    };
+  }
+
+  /**
+   * Ask a question in a RAG chat session
+   * Follow-ups like "what did she say after that?" are resolved using prior turns
+   */
+  @Post('chat/sessions/:id/messages')
+  async sendChatSessionMessage(
+    @Param('id') id: string,
+    @Body() dto: RAGSessionMessageDto,
+  ) {
+    this.logger.log(
+      `RAG session message in ${id}: ${dto.query.substring(0, 100)}...`,
+    );
+
+    try {
+      const response = await this.ragSessionService.sendMessage(
+        id,
+        dto.query,
+        this.toChatOptions(dto),
+      );
+
+      return {
+        sessionId: id,
+        ...response,
+      };
+    } catch (error) {
+      this.logger.error(
+        `RAG session message failed: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List RAG chat sessions, optionally for one video
+   */
+  @Get('chat/sessions')
+  async listChatSessions(@Query('videoId') videoId?: string) {
+    const sessions = await this.ragSessionService.listSessions(videoId);
+    return {
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        videoId: session.videoId,
+        chatType: session.chatType,
+        messageCount: session.messages.length,
+        createdAt: session.createdAt,
+        lastActivityAt: session.lastActivityAt,
+      })),
+      count: sessions.length,
+    };
+  }
+
+  /**
+   * Get a RAG chat session with its full message history
+   */
+  @Get('chat/sessions/:id')
+  async getChatSession(@Param('id') id: string) {
+    return this.ragSessionService.getSession(id);
+  }
+
+  /**
+   * Delete a RAG chat session
+   */
+  @Delete('chat/sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteChatSession(@Param('id') id: string): Promise<void> {
+    await this.ragSessionService.deleteSession(id);
+  }
+
   /**
    * Search across all indexed videos (legacy)
    * Returns relevant frames from any video
@@ -451,6 +508,9 @@ export class LanceDBController {
       const response = await this.ragChatService.globalSearch(
         dto.query,
         dto.topK,
+        dto.mode,
+        this.toTimeRange(dto),
+        dto.contextWindowSeconds,
       );
 
       return {
@@ -478,6 +538,9 @@ export class LanceDBController {
       const response = await this.ragChatService.advancedGlobalSearch(
         dto.query,
         dto.topK,
+        dto.mode,
+        this.toTimeRange(dto),
+        dto.contextWindowSeconds,
       );
 
       return {
@@ -511,6 +574,59 @@ export class LanceDBController {
     }
   }
 
+  /**
+   * Rank whole videos by what they are about (title, summary and aspects)
+   * rather than by individual frames
+   */
+  @Post('videos/search')
+  async searchVideos(@Body() dto: VideoSearchDto) {
+    this.logger.log(`Video search: ${dto.query.substring(0, 100)}...`);
+
+    try {
+      const response = await this.videoSearchService.searchVideos(
+        dto.query,
+        dto.topK,
+        dto.mode,
+      );
+
+      return {
+        ...response,
+        count: response.results.length,
+      };
+    } catch (error) {
+      this.logger.error(`Video search failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the indexed videos most similar to a given video
+   */
+  @Get('videos/:id/related')
+  async getRelatedVideos(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    try {
+      const results = await this.videoSearchService.findRelatedVideos(
+        id,
+        limit ? parseInt(limit, 10) : undefined,
+      );
+
+      return {
+        videoId: id,
+        results,
+        count: results.length,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to find videos related to ${id}: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get details of a specific indexed video
    */
@@ -548,6 +664,52 @@ export class LanceDBController {
     }
   }
 
+  /**
+   * Register a custom aspect for advanced indexing
+   * Videos indexed afterwards get frames of this aspect type
+   */
+  @Post('aspects')
+  async createCustomAspect(@Body() dto: CreateCustomAspectDto) {
+    return this.customAspectService.create(dto);
+  }
+
+  /**
+   * List registered custom aspects
+   */
+  @Get('aspects')
+  async listCustomAspects() {
+    const aspects = await this.customAspectService.list();
+    return { aspects, count: aspects.length };
+  }
+
+  /**
+   * Get a custom aspect
+   */
+  @Get('aspects/:name')
+  async getCustomAspect(@Param('name') name: string) {
+    return this.customAspectService.get(name);
+  }
+
+  /**
+   * Change a custom aspect; frames already indexed keep their content
+   */
+  @Put('aspects/:name')
+  async updateCustomAspect(
+    @Param('name') name: string,
+    @Body() dto: UpdateCustomAspectDto,
+  ) {
+    return this.customAspectService.update(name, dto);
+  }
+
+  /**
+   * Stop extracting a custom aspect and delete its indexed frames
+   */
+  @Delete('aspects/:name')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteCustomAspect(@Param('name') name: string): Promise<void> {
+    await this.customAspectService.delete(name);
+  }
+
   /**
    * Get LanceDB statistics
    */
@@ -557,10 +719,11 @@ export class LanceDBController {
       const stats = await this.lancedbService.getStats();
       return {
         ...stats,
-        embeddingModel: this.configService.get<string>(
-          'EMBEDDING_MODEL',
-          'Xenova/all-MiniLM-L6-v2',
-        ),
+        embeddingProvider: this.embeddingService.getProviderType(),
+        embeddingModel: this.embeddingService.getModelName(),
+        embeddingDimension: this.embeddingService.isInitialized()
+          ? this.embeddingService.getEmbeddingDimension()
+          : null,
         embeddingServiceReady: this.embeddingService.isInitialized(),
       };
     } catch (error) {
@@ -577,6 +740,7 @@ export class LanceDBController {
     @Query('query') query: string,
     @Query('videoId') videoId?: string,
     @Query('limit') limit?: string,
+    @Query('mode') mode?: SearchMode,
   ) {
     if (!query) {
       throw new HttpException(
@@ -588,11 +752,22 @@ export class LanceDBController {
       );
     }
 
+    if (mode && !SEARCH_MODES.includes(mode)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: `mode must be one of: ${SEARCH_MODES.join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
       const results = await this.ragChatService.findSimilarByQuery(
         query,
         videoId,
         limit ? parseInt(limit, 10) : undefined,
+        mode,
       );
 
       return {
@@ -618,6 +793,186 @@ export class LanceDBController {
     };
   }
 
+  /**
+   * Retrieval options shared by the chat and session message endpoints
+   */
+  private toChatOptions(
+    dto: RAGChatDto | RAGSessionMessageDto | MultiVideoChatDto,
+  ): RAGChatOptions {
+    return {
+      topK: dto.topK,
+      mode: dto.mode,
+      rerank: dto.rerank,
+      candidatePool: dto.candidatePool,
+      timeRange: this.toTimeRange(dto),
+      contextWindowSeconds: dto.contextWindowSeconds,
+      expand: dto.expand,
+      structured: dto.structured,
+      llmProvider: dto.llmProvider,
+      llmModel: dto.llmModel,
+    };
+  }
+
+  /**
+   * Time window from a request's `startTime`/`endTime`, if either is set
+   */
+  private toTimeRange(dto: {
+    startTime?: number;
+    endTime?: number;
+  }): TimeRange | undefined {
+    if (dto.startTime === undefined && dto.endTime === undefined) {
+      return undefined;
+    }
+
+    if (
+      dto.startTime !== undefined &&
+      dto.endTime !== undefined &&
+      dto.startTime > dto.endTime
+    ) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'startTime must not be after endTime',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return { startTime: dto.startTime, endTime: dto.endTime };
+  }
+
+  /**
+   * Queue a job for an uploaded file, removing the upload if queuing fails
+   * Files whose SHA-256 matches an indexed video are not sent to Gemini again
+   * when the job would skip them anyway
+   */
+  private async enqueueFileJob(
+    file: Express.Multer.File,
+    res: Response,
+    input: IndexingJobInput,
+  ): Promise<IndexJobAcceptedDto | IndexDuplicateDto> {
+    try {
+      const contentHash = await hashFile(file.path);
+      const existing =
+        (input.mode ?? 'skip') === 'skip'
+          ? await this.videoIndexService.findVideoByContentHash(contentHash)
+          : null;
+
+      if (existing) {
+        this.logger.log(
+          `Upload ${file.originalname} is already indexed as ${existing.id}`,
+        );
+        unlinkSync(file.path);
+        res.status(HttpStatus.OK);
+        return {
+          videoId: existing.id,
+          status: 'already_indexed',
+          contentHash,
+          videoUrl: `/lancedb/videos/${existing.id}`,
+        };
+      }
+
+      const job = await this.indexingJobService.enqueue({
+        ...input,
+        contentHash,
+      });
+      return this.toJobAccepted(job);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue indexing job: ${error.message}`,
+        error.stack,
+      );
+      try {
+        if (existsSync(file.path)) {
+          unlinkSync(file.path);
+        }
+      } catch (cleanupError) {
+        this.logger.warn(
+          `Failed to cleanup local file: ${cleanupError.message}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Signal aborted when the client closes the connection
+   * Lets a streamed answer stop while the model is still generating
+   */
+  private abortOnClose(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    return controller.signal;
+  }
+
+  /**
+   * Write stream events to the response as Server-Sent Events
+   * Stops when the client disconnects; failures become an `error` event
+   */
+  private async writeEventStream(
+    res: Response,
+    events: AsyncGenerator<RAGStreamEvent>,
+  ): Promise<void> {
+    // The client may already be gone after retrieval
+    let clientClosed = res.destroyed;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    const send = (event: RAGStreamEvent) => {
+      const { type, ...data } = event;
+      res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      for await (const event of events) {
+        if (clientClosed) {
+          // Leaving the loop closes the generator, which stops the model stream
+          break;
+        }
+        send(event);
+      }
+    } catch (error) {
+      if (clientClosed) {
+        // The generation was aborted because the client went away
+        this.logger.log('Streaming RAG chat stopped: client disconnected');
+      } else {
+        this.logger.error(
+          `Streaming RAG chat failed: ${error.message}`,
+          error.stack,
+        );
+        send({
+          type: 'error',
+          statusCode:
+            error instanceof HttpException
+              ? error.getStatus()
+              : HttpStatus.INTERNAL_SERVER_ERROR,
+          message: `RAG chat failed: ${error.message}`,
+        });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Build the 202 response for a newly queued job
+   */
+  private toJobAccepted(job: IndexingJob): IndexJobAcceptedDto {
+    return {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/lancedb/jobs/${job.id}`,
+    };
+  }
+
   /**
    * Generate a title from a URL (YouTube or file)
    */
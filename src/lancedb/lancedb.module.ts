@@ -1,21 +1,45 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
 import { EmbeddingService } from './embedding.service';
+import { RerankerService } from './reranker.service';
+import { CustomAspectService } from './custom-aspect.service';
 import { LanceDBService } from './lancedb.service';
 import { VideoIndexService } from './video-index.service';
 import { RAGChatService } from './rag-chat.service';
+import { RAGSessionService } from './rag-session.service';
+import { IndexingJobService } from './indexing-job.service';
+import { CleanupService } from './cleanup.service';
+import { EmbeddingMigrationService } from './embedding-migration.service';
+import { ConsistencyService } from './consistency.service';
+import { VideoSearchService } from './video-search.service';
+import { EvaluationService } from './evaluation.service';
 import { LanceDBController } from './lancedb.controller';
+import { AdminController } from './admin.controller';
 import { GeminiModule } from '../gemini/gemini.module';
+import { embeddingProviderFactory } from './embedding';
+import { queryClassifierFactory } from './classifiers';
+import { textGenerationProviderFactory } from './generation';
 
 /**
  * LanceDB module for vector-based video search and RAG
  * 
  * Provides:
- * - Local embedding generation using all-MiniLM-L6-v2
+ * - Embedding generation through a pluggable provider (local all-MiniLM-L6-v2
+ *   by default, Gemini or an OpenAI-compatible endpoint)
+ * - Query classification into aspect weights (keywords, local zero-shot
+ *   on the embedding model, or Gemini)
+ * - User-defined extraction aspects with their own JSON schemas
+ * - Optional cross-encoder re-ranking of retrieved frames
  * - LanceDB vector storage and search
- * - Video indexing pipeline
- * - RAG chat for fast video Q&A
+ * - Video indexing pipeline (background jobs with persisted status)
+ * - RAG chat for fast video Q&A, including multi-turn sessions, answered by
+ *   Gemini, an OpenAI-compatible endpoint or a local Ollama model
+ * - Scheduled cleanup of idle chat sessions and orphaned Gemini uploads
+ * - Re-embedding migrations into versioned tables when the model changes
+ * - Consistency checks and repair of the videos and frame tables
+ * - Video-level vectors for ranking whole videos and finding related ones
+ * - Offline retrieval evaluation against golden question sets
  */
 @Module({
   imports: [
@@ -27,18 +51,59 @@ import { GeminiModule } from '../gemini/gemini.module';
     }),
     GeminiModule,
   ],
-  controllers: [LanceDBController],
+  controllers: [LanceDBController, AdminController],
   providers: [
+    embeddingProviderFactory,
     EmbeddingService,
+    queryClassifierFactory,
+    RerankerService,
+    textGenerationProviderFactory,
+    CustomAspectService,
     LanceDBService,
     VideoIndexService,
     RAGChatService,
+    RAGSessionService,
+    IndexingJobService,
+    CleanupService,
+    EmbeddingMigrationService,
+    ConsistencyService,
+    VideoSearchService,
+    EvaluationService,
   ],
   exports: [
     EmbeddingService,
+    RerankerService,
+    CustomAspectService,
     LanceDBService,
     VideoIndexService,
     RAGChatService,
+    RAGSessionService,
+    IndexingJobService,
+    CleanupService,
+    EmbeddingMigrationService,
+    ConsistencyService,
+    VideoSearchService,
+    EvaluationService,
   ],
 })
-export class LanceDBModule {}
+export class LanceDBModule implements OnModuleInit, OnModuleDestroy {
+  constructor(
+    private readonly lancedbService: LanceDBService,
+    private readonly embeddingMigrationService: EmbeddingMigrationService,
+  ) {}
+
+  /**
+   * Only the server recovers migrations on startup: a command run next to a
+   * running server would otherwise fail the server's live migration
+   * The server marks the database as in use, so commands that write to it
+   * refuse to run meanwhile
+   */
+  async onModuleInit() {
+    this.lancedbService.lockForServer();
+    await this.embeddingMigrationService.recoverInterrupted();
+  }
+
+  onModuleDestroy() {
+    this.lancedbService.unlockForServer();
+  }
+}
@@ -0,0 +1,138 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { EmbeddingService } from './embedding.service';
+import { EmbeddingProvider } from './embedding/embedding-provider';
+import { FrameRecord, VideoRecord } from './interfaces';
+import { LanceDBService } from './lancedb.service';
+
+const provider: EmbeddingProvider = {
+  type: 'transformers',
+  modelName: 'test-model',
+  maxBatchSize: 8,
+  load: async () => undefined,
+  embedBatch: async (texts) => texts.map(() => [0.1, 0.2, 0.3]),
+};
+
+function video(id: string, overrides: Partial<VideoRecord> = {}): VideoRecord {
+  return {
+    id,
+    sourceUri: `file://${id}.mp4`,
+    title: id,
+    fullAnalysis: 'analysis',
+    confidence: 'High',
+    indexedAt: '2024-01-01T00:00:00.000Z',
+    frameCount: 2,
+    ...overrides,
+  };
+}
+
+function frames(videoId: string, seconds: number[]): FrameRecord[] {
+  return seconds.map((second) => ({
+    id: `${videoId}-${second}`,
+    videoId,
+    timestamp: `00:${String(second).padStart(2, '0')}`,
+    timestampSeconds: second,
+    description: `frame at ${second}`,
+    vector: [0.1, 0.2, 0.3],
+  }));
+}
+
+const seconds = (rows: FrameRecord[]) =>
+  rows.map((row) => row.timestampSeconds).sort((a, b) => a - b);
+
+describe('LanceDBService video writes', () => {
+  let dir: string;
+  let lancedb: LanceDBService;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'deepcap-lancedb-'));
+    const embedding = new EmbeddingService(provider);
+    lancedb = new LanceDBService(
+      new ConfigService({ LANCEDB_PATH: dir }),
+      embedding,
+    );
+    await Promise.all([embedding.onModuleInit(), lancedb.onModuleInit()]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('insertVideoWithFrames', () => {
+    it('removes the frames again when the record cannot be written', async () => {
+      await lancedb.insertVideoWithFrames(video('kept'), frames('kept', [1]));
+      jest
+        .spyOn(lancedb, 'insertVideo')
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(
+        lancedb.insertVideoWithFrames(video('new'), frames('new', [1, 2])),
+      ).rejects.toThrow('disk full');
+
+      expect(await lancedb.getVideo('new')).toBeNull();
+      expect(await lancedb.getVideoFrames('new')).toEqual([]);
+      expect(await lancedb.getVideoFrames('kept')).toHaveLength(1);
+    });
+  });
+
+  describe('replaceVideoFrames', () => {
+    beforeEach(async () => {
+      await lancedb.insertVideoWithFrames(
+        video('v', { title: 'old', contentHash: 'hash', duration: 30 }),
+        frames('v', [1, 2]),
+      );
+    });
+
+    it('swaps the frames and clears fields the new record lacks', async () => {
+      await lancedb.replaceVideoFrames(
+        video('v', { title: 'new', frameCount: 3 }),
+        frames('v', [5, 6, 7]),
+      );
+
+      const record = await lancedb.getVideo('v');
+      expect(record).toMatchObject({ title: 'new', frameCount: 3 });
+      expect(record?.contentHash ?? undefined).toBeUndefined();
+      expect(record?.duration ?? undefined).toBeUndefined();
+      expect(seconds(await lancedb.getVideoFrames('v'))).toEqual([5, 6, 7]);
+    });
+
+    it('restores the previous record when the frame swap fails', async () => {
+      jest
+        .spyOn(lancedb as any, 'replaceVideoRows')
+        .mockRejectedValueOnce(new Error('swap failed'));
+
+      await expect(
+        lancedb.replaceVideoFrames(
+          video('v', { title: 'new', frameCount: 1 }),
+          frames('v', [9]),
+        ),
+      ).rejects.toThrow('swap failed');
+
+      expect(await lancedb.getVideo('v')).toMatchObject({
+        title: 'old',
+        contentHash: 'hash',
+        duration: 30,
+        frameCount: 2,
+      });
+      expect(seconds(await lancedb.getVideoFrames('v'))).toEqual([1, 2]);
+    });
+  });
+
+  describe('mergeVideoFrames', () => {
+    it('adds only new timestamps and counts concurrent merges', async () => {
+      await lancedb.insertVideoWithFrames(video('v'), frames('v', [1, 2]));
+
+      const added = await Promise.all([
+        lancedb.mergeVideoFrames('v', frames('v', [2, 3])),
+        lancedb.mergeVideoFrames('v', frames('v', [4])),
+      ]);
+
+      expect(added).toEqual([1, 1]);
+      expect((await lancedb.getVideo('v'))?.frameCount).toBe(4);
+      expect(seconds(await lancedb.getVideoFrames('v'))).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
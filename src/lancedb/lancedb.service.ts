@@ -1,6 +1,9 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as lancedb from '@lancedb/lancedb';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { Field, FixedSizeList, Float32, Schema } from 'apache-arrow';
 import {
   VideoRecord,
   FrameRecord,
@@ -9,16 +12,45 @@ import {
   EnhancedFrameRecord,
   EnhancedFrameSearchResult,
   AspectType,
+  AspectWeights,
+  FrameSearchOptions,
+  EmbeddingMetadataRecord,
+  VectorTableInfo,
+  TimeRange,
+  VideoVectorRecord,
+  VideoVectorSearchResult,
+  VideoVectorSearchOptions,
+  AspectFramesDeletion,
 } from './interfaces';
+import { reciprocalRankFusion } from './search';
+import { allocateAspectLimits, normalizeWeights } from './classifiers';
+import { Filter } from './filters';
+import { EmbeddingService } from './embedding.service';
+import { acquirePidLock, readPidLock, releasePidLock } from '../common/storage';
 
 // Type aliases for LanceDB
 type Connection = Awaited<ReturnType<typeof lancedb.connect>>;
 type Table = Awaited<ReturnType<Connection['createTable']>>;
 
+/**
+ * Each side of a hybrid search fetches this many times the requested limit,
+ * so rows ranked moderately by both retrievers can still make the fused top-k
+ */
+const HYBRID_CANDIDATE_MULTIPLIER = 2;
+
+/**
+ * Embedding model details recorded for a vector table
+ */
+type EmbeddingModelInfo = Pick<
+  EmbeddingMetadataRecord,
+  'provider' | 'model' | 'dimension'
+>;
+
 /**
  * Service for managing LanceDB connection and operations
  * Handles video and frame tables for vector search
- * Supports both legacy frames and enhanced multi-aspect frames
+ * Supports both legacy frames and enhanced multi-aspect frames, plus one
+ * video-level vector per video
  */
 @Injectable()
 export class LanceDBService implements OnModuleInit, OnModuleDestroy {
@@ -27,6 +59,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
   private videosTable: Table | null = null;
   private framesTable: Table | null = null;
   private enhancedFramesTable: Table | null = null;
+  private videoVectorsTable: Table | null = null;
   private dbPath: string;
   private isReady = false;
 
@@ -34,8 +67,36 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
   private readonly VIDEOS_TABLE = 'videos';
   private readonly FRAMES_TABLE = 'frames';
   private readonly ENHANCED_FRAMES_TABLE = 'enhanced_frames';
-
-  constructor(private readonly configService: ConfigService) {
+  private readonly VIDEO_VECTORS_TABLE = 'video_vectors';
+  private readonly EMBEDDING_METADATA_TABLE = 'embedding_metadata';
+  private readonly ACTIVE_TABLES_TABLE = 'active_tables';
+
+  // Versioned tables currently used for each vector table (see activateVectorTables)
+  private framesTableName = this.FRAMES_TABLE;
+  private enhancedFramesTableName = this.ENHANCED_FRAMES_TABLE;
+  private videoVectorsTableName = this.VIDEO_VECTORS_TABLE;
+
+  // Frame writes run one at a time so a table switch never races a write
+  private writeLock: Promise<unknown> = Promise.resolve();
+
+  // Optional video columns and their SQL types; LanceDB infers a table's schema
+  // from its first row, so columns that row left out are added explicitly
+  private readonly VIDEO_OPTIONAL_COLUMNS: Record<string, string> = {
+    duration: 'DOUBLE',
+    thoughtSummary: 'STRING',
+    contentHash: 'STRING',
+    originalFilename: 'STRING',
+  };
+
+  // Text columns with a full-text (BM25) index
+  private readonly FRAMES_TEXT_COLUMN = 'description';
+  private readonly ENHANCED_FRAMES_TEXT_COLUMN = 'content';
+  private readonly VIDEO_VECTORS_TEXT_COLUMN = 'content';
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly embeddingService: EmbeddingService,
+  ) {
     this.dbPath = this.configService.get<string>(
       'LANCEDB_PATH',
       './data/deepcap-vectors',
@@ -60,6 +121,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     try {
       this.db = await lancedb.connect(this.dbPath);
       await this.initializeTables();
+      await this.verifyEmbeddingModel();
       this.isReady = true;
       this.logger.log('LanceDB connected and tables initialized');
     } catch (error) {
@@ -73,32 +135,188 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
    */
   private async initializeTables(): Promise<void> {
     const tableNames = await this.db.tableNames();
+    await this.resolveActiveTables(tableNames);
 
     // Initialize videos table
     if (tableNames.includes(this.VIDEOS_TABLE)) {
       this.videosTable = await this.db.openTable(this.VIDEOS_TABLE);
       this.logger.log(`Opened existing videos table`);
+      await this.ensureVideoColumns(this.videosTable);
     } else {
       this.logger.log('Videos table will be created on first insert');
     }
 
     // Initialize frames table (legacy)
-    if (tableNames.includes(this.FRAMES_TABLE)) {
-      this.framesTable = await this.db.openTable(this.FRAMES_TABLE);
+    if (tableNames.includes(this.framesTableName)) {
+      this.framesTable = await this.db.openTable(this.framesTableName);
       const count = await this.framesTable.countRows();
-      this.logger.log(`Opened existing frames table with ${count} rows`);
+      this.logger.log(
+        `Opened existing frames table ${this.framesTableName} with ${count} rows`,
+      );
+      await this.ensureFtsIndex(this.framesTable, this.FRAMES_TEXT_COLUMN);
     } else {
       this.logger.log('Frames table will be created on first insert');
     }
 
     // Initialize enhanced frames table (multi-aspect)
-    if (tableNames.includes(this.ENHANCED_FRAMES_TABLE)) {
-      this.enhancedFramesTable = await this.db.openTable(this.ENHANCED_FRAMES_TABLE);
+    if (tableNames.includes(this.enhancedFramesTableName)) {
+      this.enhancedFramesTable = await this.db.openTable(
+        this.enhancedFramesTableName,
+      );
       const count = await this.enhancedFramesTable.countRows();
-      this.logger.log(`Opened existing enhanced frames table with ${count} rows`);
+      this.logger.log(
+        `Opened existing enhanced frames table ${this.enhancedFramesTableName} with ${count} rows`,
+      );
+      await this.ensureFtsIndex(
+        this.enhancedFramesTable,
+        this.ENHANCED_FRAMES_TEXT_COLUMN,
+      );
     } else {
       this.logger.log('Enhanced frames table will be created on first insert');
     }
+
+    // Initialize video-level vectors table
+    if (tableNames.includes(this.videoVectorsTableName)) {
+      this.videoVectorsTable = await this.db.openTable(
+        this.videoVectorsTableName,
+      );
+      await this.ensureFtsIndex(
+        this.videoVectorsTable,
+        this.VIDEO_VECTORS_TEXT_COLUMN,
+      );
+    }
+  }
+
+  /**
+   * Load which versioned frame tables are active (unversioned names by default)
+   */
+  private async resolveActiveTables(tableNames: string[]): Promise<void> {
+    if (!tableNames.includes(this.ACTIVE_TABLES_TABLE)) {
+      return;
+    }
+
+    const table = await this.db.openTable(this.ACTIVE_TABLES_TABLE);
+    const rows = await table.query().toArray();
+
+    for (const row of rows) {
+      if (row.name === this.FRAMES_TABLE) {
+        this.framesTableName = row.tableName;
+      } else if (row.name === this.ENHANCED_FRAMES_TABLE) {
+        this.enhancedFramesTableName = row.tableName;
+      } else if (row.name === this.VIDEO_VECTORS_TABLE) {
+        this.videoVectorsTableName = row.tableName;
+      }
+    }
+  }
+
+  /**
+   * Refuse to start when a vector table was built with a different embedding
+   * model or dimension than the one currently configured
+   */
+  private async verifyEmbeddingModel(): Promise<void> {
+    await this.embeddingService.whenReady();
+
+    const model = this.embeddingService.getModelName();
+    const dimension = this.embeddingService.getEmbeddingDimension();
+    const vectorTables: Array<[string, Table | null]> = [
+      [this.framesTableName, this.framesTable],
+      [this.enhancedFramesTableName, this.enhancedFramesTable],
+      [this.videoVectorsTableName, this.videoVectorsTable],
+    ];
+
+    for (const [tableName, table] of vectorTables) {
+      if (!table) {
+        continue;
+      }
+
+      const stored = await this.getEmbeddingMetadata(tableName);
+
+      if (stored) {
+        if (stored.model !== model || stored.dimension !== dimension) {
+          throw new Error(
+            `Table "${tableName}" was embedded with ${stored.model} (${stored.dimension} dimensions), ` +
+              `but the configured embedding model is ${model} (${dimension} dimensions). ` +
+              'Re-embed the table or set EMBEDDING_PROVIDER/EMBEDDING_MODEL to match',
+          );
+        }
+        continue;
+      }
+
+      // Tables created before the model was recorded: the vector column still
+      // tells us the dimension they were built with
+      const schema = await table.schema();
+      const vectorField = schema.fields.find(
+        (field) => field.name === 'vector',
+      );
+      const tableDimension = (vectorField?.type as { listSize?: number })
+        ?.listSize;
+
+      if (tableDimension && tableDimension !== dimension) {
+        throw new Error(
+          `Table "${tableName}" stores ${tableDimension}-dimensional vectors, ` +
+            `but the configured embedding model ${model} produces ${dimension}. ` +
+            'Re-embed the table or set EMBEDDING_PROVIDER/EMBEDDING_MODEL to match',
+        );
+      }
+
+      this.logger.warn(
+        `Table "${tableName}" has no recorded embedding model; assuming ${model}`,
+      );
+      await this.recordEmbeddingMetadata(tableName);
+    }
+  }
+
+  /**
+   * Get the embedding model recorded for a vector table
+   */
+  async getEmbeddingMetadata(
+    tableName: string,
+  ): Promise<EmbeddingMetadataRecord | null> {
+    const tableNames = await this.db.tableNames();
+    if (!tableNames.includes(this.EMBEDDING_METADATA_TABLE)) {
+      return null;
+    }
+
+    const table = await this.db.openTable(this.EMBEDDING_METADATA_TABLE);
+    const rows = await table
+      .query()
+      .where(Filter.eq('tableName', tableName).toSql())
+      .limit(1)
+      .toArray();
+
+    return rows.length > 0 ? (rows[0] as EmbeddingMetadataRecord) : null;
+  }
+
+  /**
+   * Record the embedding model used by a vector table
+   * Defaults to the model currently configured
+   */
+  private async recordEmbeddingMetadata(
+    tableName: string,
+    embedding: EmbeddingModelInfo = {
+      provider: this.embeddingService.getProviderType(),
+      model: this.embeddingService.getModelName(),
+      dimension: this.embeddingService.getEmbeddingDimension(),
+    },
+  ): Promise<void> {
+    const record: EmbeddingMetadataRecord = {
+      tableName,
+      ...embedding,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const tableNames = await this.db.tableNames();
+    if (!tableNames.includes(this.EMBEDDING_METADATA_TABLE)) {
+      await this.db.createTable(this.EMBEDDING_METADATA_TABLE, [record]);
+      return;
+    }
+
+    const table = await this.db.openTable(this.EMBEDDING_METADATA_TABLE);
+    await table
+      .mergeInsert('tableName')
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute([record]);
   }
 
   /**
@@ -119,6 +337,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
         // Create table with first record
         this.videosTable = await this.db.createTable(this.VIDEOS_TABLE, [video]);
         this.logger.log('Created videos table');
+        await this.ensureVideoColumns(this.videosTable);
       } else {
         await this.videosTable.add([video]);
       }
@@ -128,6 +347,32 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Add optional video columns missing from the videos table
+   * Covers tables created before a column existed and first rows without it
+   */
+  private async ensureVideoColumns(table: Table): Promise<void> {
+    const schema = await table.schema();
+    const existing = new Set(schema.fields.map((field) => field.name));
+    const missing = Object.entries(this.VIDEO_OPTIONAL_COLUMNS).filter(
+      ([name]) => !existing.has(name),
+    );
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    await table.addColumns(
+      missing.map(([name, type]) => ({
+        name,
+        valueSql: `CAST(NULL AS ${type})`,
+      })),
+    );
+    this.logger.log(
+      `Added videos columns: ${missing.map(([name]) => name).join(', ')}`,
+    );
+  }
+
   /**
    * Insert frame records with vectors (legacy)
    */
@@ -138,18 +383,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
 
     this.logger.log(`Inserting ${frames.length} frames`);
 
-    try {
-      if (!this.framesTable) {
-        // Create table with first batch
-        this.framesTable = await this.db.createTable(this.FRAMES_TABLE, frames);
-        this.logger.log('Created frames table');
-      } else {
-        await this.framesTable.add(frames);
-      }
-    } catch (error) {
-      this.logger.error(`Failed to insert frames: ${error.message}`);
-      throw error;
-    }
+    return this.withWriteLock(() => this.addFrames(frames));
   }
 
   /**
@@ -162,14 +396,96 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
 
     this.logger.log(`Inserting ${frames.length} enhanced frames`);
 
+    return this.withWriteLock(() => this.addEnhancedFrames(frames));
+  }
+
+  /**
+   * Insert a new video together with its legacy frames, all or nothing
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   */
+  async insertVideoWithFrames(
+    video: VideoRecord,
+    frames: FrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<void> {
+    return this.insertVideoAtomically(video, async () =>
+      this.addFrames(
+        await this.withCurrentVectors(
+          frames,
+          this.FRAMES_TEXT_COLUMN,
+          embeddingVersion,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Insert a new video together with its enhanced frames, all or nothing
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   */
+  async insertVideoWithEnhancedFrames(
+    video: VideoRecord,
+    frames: EnhancedFrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<void> {
+    return this.insertVideoAtomically(video, async () =>
+      this.addEnhancedFrames(
+        await this.withCurrentVectors(
+          frames,
+          this.ENHANCED_FRAMES_TEXT_COLUMN,
+          embeddingVersion,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Write a video's frames, then its record, undoing both if either fails
+   * LanceDB has no cross-table transactions; frames go first so a crash
+   * between the writes leaves orphan frames (found by the consistency check)
+   * rather than a listed video without frames
+   */
+  private async insertVideoAtomically(
+    video: VideoRecord,
+    writeFrames: () => Promise<void>,
+  ): Promise<void> {
+    return this.withWriteLock(async () => {
+      try {
+        await writeFrames();
+        await this.insertVideo(video);
+      } catch (error) {
+        this.logger.warn(`Rolling back video ${video.id}: ${error.message}`);
+        await this.deleteVideoRows(video.id).catch((rollbackError) =>
+          this.logger.error(
+            `Rollback of video ${video.id} incomplete, run the consistency repair: ${rollbackError.message}`,
+          ),
+        );
+        throw error;
+      }
+    });
+  }
+
+  private async addFrames(frames: FrameRecord[]): Promise<void> {
+    try {
+      if (!this.framesTable) {
+        // Create table with first batch
+        await this.createFramesTable(frames);
+      } else {
+        await this.framesTable.add(frames);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to insert frames: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async addEnhancedFrames(
+    frames: EnhancedFrameRecord[],
+  ): Promise<void> {
     try {
       if (!this.enhancedFramesTable) {
         // Create table with first batch
-        this.enhancedFramesTable = await this.db.createTable(
-          this.ENHANCED_FRAMES_TABLE,
-          frames,
-        );
-        this.logger.log('Created enhanced frames table');
+        await this.createEnhancedFramesTable(frames);
       } else {
         await this.enhancedFramesTable.add(frames);
       }
@@ -179,66 +495,315 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  private async createFramesTable(frames: FrameRecord[]): Promise<void> {
+    this.framesTable = await this.db.createTable(this.framesTableName, frames);
+    this.logger.log('Created frames table');
+    await this.recordEmbeddingMetadata(this.framesTableName);
+    await this.ensureFtsIndex(this.framesTable, this.FRAMES_TEXT_COLUMN);
+  }
+
+  private async createEnhancedFramesTable(
+    frames: EnhancedFrameRecord[],
+  ): Promise<void> {
+    this.enhancedFramesTable = await this.db.createTable(
+      this.enhancedFramesTableName,
+      frames,
+    );
+    this.logger.log('Created enhanced frames table');
+    await this.recordEmbeddingMetadata(this.enhancedFramesTableName);
+    await this.ensureFtsIndex(
+      this.enhancedFramesTable,
+      this.ENHANCED_FRAMES_TEXT_COLUMN,
+    );
+  }
+
   /**
-   * Perform vector search on enhanced frames with optional aspect filtering
-   * @param queryVector The query embedding vector
-   * @param videoId Optional filter by video ID
-   * @param aspectTypes Optional filter by aspect types
-   * @param limit Maximum number of results
+   * Replace the record and all frames of a video with a new legacy analysis
+   * The swap is one merge-insert commit, so searches see either the old or the
+   * new frames; enhanced frames left from an earlier advanced index are removed
+   * @param embeddingVersion EmbeddingService version the vectors were made with
    */
-  async enhancedVectorSearch(
-    queryVector: number[],
-    options: {
-      videoId?: string;
-      aspectTypes?: AspectType[];
-      limit?: number;
-    } = {},
-  ): Promise<EnhancedFrameSearchResult[]> {
-    const { videoId, aspectTypes, limit = 10 } = options;
-
-    if (!this.enhancedFramesTable) {
-      this.logger.warn('Enhanced frames table not initialized, returning empty results');
-      return [];
-    }
+  async replaceVideoFrames(
+    video: VideoRecord,
+    frames: FrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<void> {
+    this.logger.log(`Replacing frames of ${video.id} with ${frames.length}`);
+
+    return this.replaceVideoAtomically(video, async () => {
+      frames = await this.withCurrentVectors(
+        frames,
+        this.FRAMES_TEXT_COLUMN,
+        embeddingVersion,
+      );
+      if (!this.framesTable) {
+        await this.createFramesTable(frames);
+      } else {
+        await this.replaceVideoRows(this.framesTable, video.id, frames);
+      }
 
-    const startTime = Date.now();
+      if (this.enhancedFramesTable) {
+        await this.enhancedFramesTable.delete(
+          Filter.eq('videoId', video.id).toSql(),
+        );
+      }
+    });
+  }
 
-    try {
-      let query = this.enhancedFramesTable
-        .vectorSearch(queryVector)
-        .distanceType('cosine')
-        .limit(limit);
+  /**
+   * Replace the record and all frames of a video with a new advanced analysis
+   * Counterpart of replaceVideoFrames for advanced indexing
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   */
+  async replaceVideoEnhancedFrames(
+    video: VideoRecord,
+    frames: EnhancedFrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<void> {
+    this.logger.log(
+      `Replacing enhanced frames of ${video.id} with ${frames.length}`,
+    );
 
-      // Build filter conditions
-      const conditions: string[] = [];
+    return this.replaceVideoAtomically(video, async () => {
+      frames = await this.withCurrentVectors(
+        frames,
+        this.ENHANCED_FRAMES_TEXT_COLUMN,
+        embeddingVersion,
+      );
+      if (!this.enhancedFramesTable) {
+        await this.createEnhancedFramesTable(frames);
+      } else {
+        await this.replaceVideoRows(this.enhancedFramesTable, video.id, frames);
+      }
 
-      if (videoId) {
-        conditions.push(`videoId = '${videoId}'`);
+      if (this.framesTable) {
+        await this.framesTable.delete(Filter.eq('videoId', video.id).toSql());
       }
+    });
+  }
 
-      if (aspectTypes && aspectTypes.length > 0) {
-        const aspectFilter = aspectTypes
-          .map((t) => `aspectType = '${t}'`)
-          .join(' OR ');
-        conditions.push(`(${aspectFilter})`);
+  /**
+   * Overwrite a video's record, then swap its frames, restoring the previous
+   * record if the swap fails
+   * Optional fields the new record lacks are cleared, not kept
+   */
+  private async replaceVideoAtomically(
+    video: VideoRecord,
+    swapFrames: () => Promise<void>,
+  ): Promise<void> {
+    return this.withWriteLock(async () => {
+      const previous = await this.getVideo(video.id);
+
+      await this.updateVideo(this.withClearedOptionalColumns(video));
+      try {
+        await swapFrames();
+      } catch (error) {
+        if (previous) {
+          this.logger.warn(
+            `Restoring video record ${video.id} after failed replace: ${error.message}`,
+          );
+          await this.updateVideo(this.withClearedOptionalColumns(previous));
+        }
+        throw error;
       }
+    });
+  }
 
-      if (conditions.length > 0) {
-        query = query.where(conditions.join(' AND '));
+  /**
+   * A video record with null for every optional column it doesn't set
+   */
+  private withClearedOptionalColumns(
+    video: VideoRecord,
+  ): Partial<VideoRecord> & { id: string } {
+    const cleared = Object.fromEntries(
+      Object.keys(this.VIDEO_OPTIONAL_COLUMNS).map((column) => [column, null]),
+    );
+    return {
+      ...cleared,
+      ...Object.fromEntries(
+        Object.entries(video).filter(([, value]) => value != null),
+      ),
+      id: video.id,
+    };
+  }
+
+  /**
+   * Add legacy frames at timestamps the video doesn't have yet
+   * Existing frames are left untouched
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   * @returns Number of frames added
+   */
+  async mergeVideoFrames(
+    videoId: string,
+    frames: FrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<number> {
+    return this.mergeIntoVideo(videoId, async () => {
+      frames = await this.withCurrentVectors(
+        frames,
+        this.FRAMES_TEXT_COLUMN,
+        embeddingVersion,
+      );
+      if (!this.framesTable) {
+        await this.createFramesTable(frames);
+        return frames.length;
       }
 
-      const results = await query.toArray();
+      return this.addMissingVideoRows(this.framesTable, videoId, frames, [
+        'timestampSeconds',
+      ]);
+    });
+  }
 
-      const latency = Date.now() - startTime;
-      this.logger.debug(
-        `Enhanced vector search completed in ${latency}ms, found ${results.length} results`,
+  /**
+   * Add enhanced frames for timestamp/aspect pairs the video doesn't have yet
+   * Existing frames are left untouched
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   * @returns Number of frames added
+   */
+  async mergeVideoEnhancedFrames(
+    videoId: string,
+    frames: EnhancedFrameRecord[],
+    embeddingVersion?: number,
+  ): Promise<number> {
+    return this.mergeIntoVideo(videoId, async () => {
+      frames = await this.withCurrentVectors(
+        frames,
+        this.ENHANCED_FRAMES_TEXT_COLUMN,
+        embeddingVersion,
       );
+      if (!this.enhancedFramesTable) {
+        await this.createEnhancedFramesTable(frames);
+        return frames.length;
+      }
 
-      return results as EnhancedFrameSearchResult[];
-    } catch (error) {
-      this.logger.error(`Enhanced vector search failed: ${error.message}`);
-      throw error;
+      return this.addMissingVideoRows(
+        this.enhancedFramesTable,
+        videoId,
+        frames,
+        ['timestampSeconds', 'aspectType'],
+      );
+    });
+  }
+
+  /**
+   * Add frames to a video, then set its frame count to the rows stored
+   * Both happen under the write lock, so concurrent merges can't lose counts
+   */
+  private async mergeIntoVideo(
+    videoId: string,
+    addFrames: () => Promise<number>,
+  ): Promise<number> {
+    return this.withWriteLock(async () => {
+      const added = await addFrames();
+      const frameCount = (await this.countVideoFrames([videoId])).get(videoId);
+      await this.updateVideo({ id: videoId, frameCount: frameCount ?? 0 });
+      return added;
+    });
+  }
+
+  /**
+   * Count the stored frames (legacy and enhanced) of the given videos
+   */
+  private async countVideoFrames(
+    videoIds: string[],
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+
+    for (const table of [this.framesTable, this.enhancedFramesTable]) {
+      if (!table) {
+        continue;
+      }
+      const rows = await table
+        .query()
+        .where(Filter.in('videoId', videoIds).toSql())
+        .select(['videoId'])
+        .toArray();
+      for (const row of rows) {
+        const videoId = row.videoId as string;
+        counts.set(videoId, (counts.get(videoId) ?? 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Re-embed rows whose vectors came from a model that has been switched
+   * since (a migration completed while they were being prepared)
+   * Called inside the write lock, where the model can't change before the
+   * rows are written
+   * @param embeddingVersion EmbeddingService version of the vectors; rows
+   * without one are taken as they are
+   */
+  private async withCurrentVectors<T extends { vector: number[] }>(
+    rows: T[],
+    textColumn: string,
+    embeddingVersion?: number,
+  ): Promise<T[]> {
+    if (
+      embeddingVersion === undefined ||
+      embeddingVersion === this.embeddingService.getVersion()
+    ) {
+      return rows;
+    }
+
+    this.logger.warn(
+      `Embedding model changed while ${rows.length} rows were prepared, re-embedding them with ${this.embeddingService.getModelName()}`,
+    );
+    const vectors = await this.embeddingService.embedBatch(
+      rows.map((row) => String(row[textColumn] ?? '')),
+    );
+    return rows.map((row, i) => ({ ...row, vector: vectors[i] }));
+  }
+
+  /**
+   * Swap a video's rows for `rows` in a single commit: rows are matched by
+   * id, and the video's rows missing from `rows` are deleted
+   */
+  private async replaceVideoRows(
+    table: Table,
+    videoId: string,
+    rows: Array<FrameRecord | EnhancedFrameRecord>,
+  ): Promise<void> {
+    await table
+      .mergeInsert('id')
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .whenNotMatchedBySourceDelete({
+        where: Filter.eq('videoId', videoId).toSql(),
+      })
+      .execute(rows);
+  }
+
+  /**
+   * Insert the rows whose key columns don't match a row of the video
+   */
+  private async addMissingVideoRows(
+    table: Table,
+    videoId: string,
+    rows: Array<FrameRecord | EnhancedFrameRecord>,
+    keyColumns: string[],
+  ): Promise<number> {
+    const keyOf = (row: Record<string, unknown>) =>
+      JSON.stringify(keyColumns.map((column) => row[column]));
+
+    const existing = await table
+      .query()
+      .where(Filter.eq('videoId', videoId).toSql())
+      .select(keyColumns)
+      .toArray();
+    const existingKeys = new Set(existing.map(keyOf));
+    const missing = rows.filter((row) => !existingKeys.has(keyOf(row)));
+
+    if (missing.length > 0) {
+      await table.add(missing);
     }
+
+    this.logger.log(
+      `Merged ${missing.length} of ${rows.length} frames into ${videoId}`,
+    );
+    return missing.length;
   }
 
   /**
@@ -246,11 +811,13 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
    * @param queryVector The query embedding vector
    * @param videoId Optional filter by video ID
    * @param limit Maximum number of results
+   * @param timeRange Optional window of video time
    */
   async vectorSearch(
     queryVector: number[],
     videoId?: string,
     limit: number = 10,
+    timeRange?: TimeRange,
   ): Promise<FrameSearchResult[]> {
     if (!this.framesTable) {
       this.logger.warn('Frames table not initialized, returning empty results');
@@ -265,9 +832,13 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
         .distanceType('cosine')
         .limit(limit);
 
-      // Filter by videoId if provided
-      if (videoId) {
-        query = query.where(`videoId = '${videoId}'`);
+      // Filter by videoId and time window if provided
+      const filter = Filter.and(
+        videoId ? Filter.eq('videoId', videoId) : undefined,
+        this.buildTimeFilter(timeRange),
+      );
+      if (filter) {
+        query = query.where(filter.toSql());
       }
 
       const results = await query.toArray();
@@ -275,13 +846,286 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
       const latency = Date.now() - startTime;
       this.logger.debug(`Vector search completed in ${latency}ms, found ${results.length} results`);
 
-      return results as FrameSearchResult[];
+      return results as FrameSearchResult[];
+    } catch (error) {
+      this.logger.error(`Vector search failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Search legacy frames by vector similarity, full-text (BM25), or both
+   * Hybrid mode fuses the two rankings with Reciprocal Rank Fusion
+   */
+  async searchFrames(
+    options: FrameSearchOptions,
+  ): Promise<FrameSearchResult[]> {
+    if (!this.framesTable) {
+      this.logger.warn('Frames table not initialized, returning empty results');
+      return [];
+    }
+
+    return this.search<FrameSearchResult>(
+      this.framesTable,
+      Filter.and(
+        options.videoId ? Filter.eq('videoId', options.videoId) : undefined,
+        this.buildTimeFilter(options.timeRange),
+      ),
+      options,
+    );
+  }
+
+  /**
+   * Search enhanced frames by vector similarity, full-text (BM25), or both
+   * with optional aspect filtering, or with the limit split across aspects
+   * by `aspectWeights`
+   */
+  async searchEnhancedFrames(
+    options: FrameSearchOptions & {
+      aspectTypes?: AspectType[];
+      aspectWeights?: AspectWeights;
+    },
+  ): Promise<EnhancedFrameSearchResult[]> {
+    if (!this.enhancedFramesTable) {
+      this.logger.warn(
+        'Enhanced frames table not initialized, returning empty results',
+      );
+      return [];
+    }
+
+    const { aspectWeights, limit = 10, ...rest } = options;
+    const aspectLimits =
+      aspectWeights && allocateAspectLimits(aspectWeights, limit);
+    if (aspectLimits) {
+      return this.searchByAspect(
+        aspectWeights,
+        aspectLimits,
+        limit,
+        (aspectTypes, aspectLimit) =>
+          this.searchEnhancedFrames({
+            ...rest,
+            aspectTypes,
+            limit: aspectLimit,
+          }),
+      );
+    }
+
+    return this.search<EnhancedFrameSearchResult>(
+      this.enhancedFramesTable,
+      this.buildEnhancedFilter(
+        options.videoId,
+        options.aspectTypes,
+        options.timeRange,
+      ),
+      options,
+    );
+  }
+
+  /**
+   * Run one search per aspect with its share of the limit
+   * Slots an aspect cannot fill (it has too few frames) go to the best
+   * remaining frames of any aspect. Scores are only comparable within one
+   * search, so the lists are merged with RRF weighted by aspect; the
+   * fill-ins count as a list with the lowest weight
+   */
+  private async searchByAspect(
+    aspectWeights: AspectWeights,
+    aspectLimits: Partial<Record<AspectType, number>>,
+    limit: number,
+    run: (
+      aspectTypes: AspectType[] | undefined,
+      limit: number,
+    ) => Promise<EnhancedFrameSearchResult[]>,
+  ): Promise<EnhancedFrameSearchResult[]> {
+    const weights = normalizeWeights(aspectWeights, Object.keys(aspectWeights));
+    const rankings: EnhancedFrameSearchResult[][] = [];
+    const rankingWeights: number[] = [];
+    for (const [aspectType, aspectLimit] of Object.entries(aspectLimits)) {
+      rankings.push(await run([aspectType as AspectType], aspectLimit));
+      rankingWeights.push(weights[aspectType]);
+    }
+
+    const found = rankings.flat();
+    if (found.length < limit) {
+      const seen = new Set(found.map((row) => row.id));
+      const others = (await run(undefined, limit)).filter(
+        (row) => !seen.has(row.id),
+      );
+      rankings.push(others.slice(0, limit - found.length));
+      rankingWeights.push(Math.min(...rankingWeights));
+    }
+
+    return reciprocalRankFusion(rankings, limit, rankingWeights);
+  }
+
+  /**
+   * Run a search in the requested mode against a frames table
+   */
+  private async search<
+    T extends
+      | FrameSearchResult
+      | EnhancedFrameSearchResult
+      | VideoVectorSearchResult,
+  >(
+    table: Table,
+    filter: Filter | undefined,
+    options: FrameSearchOptions | VideoVectorSearchOptions,
+  ): Promise<T[]> {
+    const { queryText, queryVector, mode, limit = 10 } = options;
+    const startTime = Date.now();
+
+    if (mode !== 'fts' && !queryVector) {
+      throw new Error(`A query vector is required for ${mode} search`);
+    }
+
+    try {
+      let results: T[];
+
+      if (mode === 'vector') {
+        results = await this.vectorQuery<T>(table, queryVector, filter, limit);
+      } else if (mode === 'fts') {
+        results = this.normalizeFtsScores(
+          await this.ftsQuery<T>(table, queryText, filter, limit),
+        );
+      } else {
+        const candidates = limit * HYBRID_CANDIDATE_MULTIPLIER;
+        const [vectorResults, ftsResults] = await Promise.all([
+          this.vectorQuery<T>(table, queryVector, filter, candidates).catch(
+            (error) => this.failedHybridLeg<T>('Vector', error),
+          ),
+          this.ftsQuery<T>(table, queryText, filter, candidates).catch(
+            (error) => this.failedHybridLeg<T>('Full-text', error),
+          ),
+        ]);
+
+        // A failed leg leaves the other one's ranking as it is: fusing it
+        // with an empty list would halve every relevance
+        if (!vectorResults && !ftsResults) {
+          throw new Error('Both vector and full-text search failed');
+        } else if (!ftsResults) {
+          results = vectorResults.slice(0, limit);
+        } else if (!vectorResults) {
+          results = this.normalizeFtsScores(ftsResults).slice(0, limit);
+        } else {
+          results = reciprocalRankFusion([vectorResults, ftsResults], limit);
+        }
+      }
+
+      this.logger.debug(
+        `${mode} search completed in ${Date.now() - startTime}ms, found ${results.length} results`,
+      );
+
+      return results;
+    } catch (error) {
+      this.logger.error(`${mode} search failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private failedHybridLeg<T>(leg: string, error: Error): T[] | null {
+    this.logger.warn(
+      `${leg} search failed, using the other hybrid results only: ${error.message}`,
+    );
+    return null;
+  }
+
+  private async vectorQuery<T extends { _distance?: number }>(
+    table: Table,
+    queryVector: number[],
+    filter: Filter | undefined,
+    limit: number,
+  ): Promise<T[]> {
+    let query = table
+      .vectorSearch(queryVector)
+      .distanceType('cosine')
+      .limit(limit);
+    if (filter) {
+      query = query.where(filter.toSql());
+    }
+
+    const results = (await query.toArray()) as T[];
+    return results.map((row) => ({
+      ...row,
+      _relevance: row._distance !== undefined ? 1 - row._distance : undefined,
+    }));
+  }
+
+  private async ftsQuery<T>(
+    table: Table,
+    queryText: string,
+    filter: Filter | undefined,
+    limit: number,
+  ): Promise<T[]> {
+    let query = table.query().fullTextSearch(queryText).limit(limit);
+    if (filter) {
+      query = query.where(filter.toSql());
+    }
+    return (await query.toArray()) as T[];
+  }
+
+  /**
+   * Scale BM25 scores to 0-1 relative to the best match
+   */
+  private normalizeFtsScores<T extends { _score?: number }>(results: T[]): T[] {
+    const maxScore = Math.max(0, ...results.map((row) => row._score || 0));
+    return results.map((row) => ({
+      ...row,
+      _relevance: maxScore > 0 ? (row._score || 0) / maxScore : undefined,
+    }));
+  }
+
+  /**
+   * Create a full-text index on a text column if the table doesn't have one
+   * Rows added later are still searchable (unindexed rows are scanned)
+   */
+  private async ensureFtsIndex(table: Table, column: string): Promise<void> {
+    try {
+      const indices = await table.listIndices();
+      const hasFtsIndex = indices.some(
+        (index) => index.indexType === 'FTS' && index.columns.includes(column),
+      );
+      if (hasFtsIndex) {
+        return;
+      }
+
+      this.logger.log(`Creating full-text index on ${column}...`);
+      await table.createIndex(column, { config: lancedb.Index.fts() });
+      this.logger.log(`Full-text index on ${column} created`);
     } catch (error) {
-      this.logger.error(`Vector search failed: ${error.message}`);
-      throw error;
+      // Vector search keeps working without it
+      this.logger.error(
+        `Failed to create full-text index on ${column}: ${error.message}`,
+      );
     }
   }
 
+  /**
+   * Build the where clause for enhanced frame searches
+   */
+  private buildEnhancedFilter(
+    videoId?: string,
+    aspectTypes?: AspectType[],
+    timeRange?: TimeRange,
+  ): Filter | undefined {
+    return Filter.and(
+      videoId ? Filter.eq('videoId', videoId) : undefined,
+      aspectTypes && aspectTypes.length > 0
+        ? Filter.in('aspectType', aspectTypes)
+        : undefined,
+      this.buildTimeFilter(timeRange),
+    );
+  }
+
+  /**
+   * Restrict rows to a window of video time (bounds inclusive)
+   */
+  private buildTimeFilter(timeRange?: TimeRange): Filter | undefined {
+    return Filter.range('timestampSeconds', {
+      gte: timeRange?.startTime,
+      lte: timeRange?.endTime,
+    });
+  }
+
   /**
    * Get video by ID
    */
@@ -293,7 +1137,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     try {
       const results = await this.videosTable
         .query()
-        .where(`id = '${videoId}'`)
+        .where(Filter.eq('id', videoId).toSql())
         .limit(1)
         .toArray();
 
@@ -305,17 +1149,25 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get all frames for a video
+   * Get all frames for a video, optionally within a window of video time
    */
-  async getVideoFrames(videoId: string): Promise<FrameRecord[]> {
+  async getVideoFrames(
+    videoId: string,
+    timeRange?: TimeRange,
+  ): Promise<FrameRecord[]> {
     if (!this.framesTable) {
       return [];
     }
 
     try {
+      const filter = Filter.and(
+        Filter.eq('videoId', videoId),
+        this.buildTimeFilter(timeRange),
+      );
+
       const results = await this.framesTable
         .query()
-        .where(`videoId = '${videoId}'`)
+        .where(filter.toSql())
         .toArray();
 
       // Sort by timestamp seconds
@@ -343,6 +1195,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
         id: v.id,
         title: v.title,
         sourceUri: v.sourceUri,
+        originalFilename: v.originalFilename ?? undefined,
         frameCount: v.frameCount,
         indexedAt: v.indexedAt,
         confidence: v.confidence,
@@ -364,7 +1217,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     try {
       const results = await this.videosTable
         .query()
-        .where(`sourceUri = '${sourceUri}'`)
+        .where(Filter.eq('sourceUri', sourceUri).toSql())
         .limit(1)
         .toArray();
 
@@ -375,32 +1228,129 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Update fields of an existing video record, keeping its ID
+   */
+  async updateVideo(
+    video: Partial<VideoRecord> & { id: string },
+  ): Promise<void> {
+    if (!this.videosTable) {
+      return;
+    }
+
+    // Undefined fields keep their stored value
+    const changes = Object.fromEntries(
+      Object.entries(video).filter(([, value]) => value !== undefined),
+    );
+
+    try {
+      await this.videosTable
+        .mergeInsert('id')
+        .whenMatchedUpdateAll()
+        .execute([changes]);
+    } catch (error) {
+      this.logger.error(`Failed to update video: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an indexed video by its source URI
+   */
+  async findVideoBySourceUri(sourceUri: string): Promise<VideoRecord | null> {
+    if (!this.videosTable) {
+      return null;
+    }
+
+    try {
+      const results = await this.videosTable
+        .query()
+        .where(Filter.eq('sourceUri', sourceUri).toSql())
+        .limit(1)
+        .toArray();
+
+      return results.length > 0 ? (results[0] as VideoRecord) : null;
+    } catch (error) {
+      this.logger.error(`Failed to find video by source: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an indexed video by the SHA-256 of its uploaded file
+   */
+  async findVideoByContentHash(
+    contentHash: string,
+  ): Promise<VideoRecord | null> {
+    if (!this.videosTable) {
+      return null;
+    }
+
+    try {
+      const results = await this.videosTable
+        .query()
+        .where(Filter.eq('contentHash', contentHash).toSql())
+        .limit(1)
+        .toArray();
+
+      return results.length > 0 ? (results[0] as VideoRecord) : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to find video by content hash: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Delete a video and its frames (both legacy and enhanced)
    */
   async deleteVideo(videoId: string): Promise<void> {
     this.logger.log(`Deleting video: ${videoId}`);
 
-    try {
-      // Delete legacy frames
-      if (this.framesTable) {
-        await this.framesTable.delete(`videoId = '${videoId}'`);
+    return this.withWriteLock(async () => {
+      try {
+        await this.deleteVideoRows(videoId);
+        this.logger.log(`Video deleted: ${videoId}`);
+      } catch (error) {
+        this.logger.error(`Failed to delete video: ${error.message}`);
+        throw error;
       }
+    });
+  }
 
-      // Delete enhanced frames
-      if (this.enhancedFramesTable) {
-        await this.enhancedFramesTable.delete(`videoId = '${videoId}'`);
+  /**
+   * Delete a video's frames and video-level vector, then its record
+   * Every vector table is attempted even if one fails; the record is kept
+   * in that case so the delete can be retried
+   */
+  private async deleteVideoRows(videoId: string): Promise<void> {
+    const failures: string[] = [];
+    const tables = [
+      this.framesTable,
+      this.enhancedFramesTable,
+      this.videoVectorsTable,
+    ];
+
+    for (const table of tables) {
+      if (!table) {
+        continue;
       }
-
-      // Delete video record
-      if (this.videosTable) {
-        await this.videosTable.delete(`id = '${videoId}'`);
+      try {
+        await table.delete(Filter.eq('videoId', videoId).toSql());
+      } catch (error) {
+        failures.push(`${table.name}: ${error.message}`);
       }
+    }
 
-      this.logger.log(`Video deleted: ${videoId}`);
-    } catch (error) {
-      this.logger.error(`Failed to delete video: ${error.message}`);
-      throw error;
+    if (failures.length > 0) {
+      throw new Error(
+        `Failed to delete frames of video ${videoId} (${failures.join('; ')})`,
+      );
+    }
+
+    if (this.videosTable) {
+      await this.videosTable.delete(Filter.eq('id', videoId).toSql());
     }
   }
 
@@ -411,6 +1361,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     videoCount: number;
     frameCount: number;
     enhancedFrameCount: number;
+    videoVectorCount: number;
     dbPath: string;
   }> {
     const videoCount = this.videosTable
@@ -422,36 +1373,42 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     const enhancedFrameCount = this.enhancedFramesTable
       ? await this.enhancedFramesTable.countRows()
       : 0;
+    const videoVectorCount = this.videoVectorsTable
+      ? await this.videoVectorsTable.countRows()
+      : 0;
 
     return {
       videoCount,
       frameCount,
       enhancedFrameCount,
+      videoVectorCount,
       dbPath: this.dbPath,
     };
   }
 
   /**
-   * Get all enhanced frames for a video
+   * Get all enhanced frames for a video, optionally within a window of video time
    */
   async getEnhancedVideoFrames(
     videoId: string,
     aspectType?: AspectType,
+    timeRange?: TimeRange,
   ): Promise<EnhancedFrameRecord[]> {
     if (!this.enhancedFramesTable) {
       return [];
     }
 
     try {
-      let query = this.enhancedFramesTable
-        .query()
-        .where(`videoId = '${videoId}'`);
-
-      if (aspectType) {
-        query = query.where(`aspectType = '${aspectType}'`);
-      }
+      const filter = Filter.and(
+        Filter.eq('videoId', videoId),
+        aspectType ? Filter.eq('aspectType', aspectType) : undefined,
+        this.buildTimeFilter(timeRange),
+      );
 
-      const results = await query.toArray();
+      const results = await this.enhancedFramesTable
+        .query()
+        .where(filter.toSql())
+        .toArray();
 
       // Sort by timestamp seconds
       return (results as EnhancedFrameRecord[]).sort(
@@ -463,13 +1420,167 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Insert or replace the video-level vector of a video
+   * @param embeddingVersion EmbeddingService version the vectors were made with
+   */
+  async upsertVideoVector(
+    record: VideoVectorRecord,
+    embeddingVersion?: number,
+  ): Promise<void> {
+    return this.withWriteLock(async () => {
+      [record] = await this.withCurrentVectors(
+        [record],
+        this.VIDEO_VECTORS_TEXT_COLUMN,
+        embeddingVersion,
+      );
+      if (!this.videoVectorsTable) {
+        this.videoVectorsTable = await this.db.createTable(
+          this.videoVectorsTableName,
+          [record],
+        );
+        this.logger.log('Created video vectors table');
+        await this.recordEmbeddingMetadata(this.videoVectorsTableName);
+        await this.ensureFtsIndex(
+          this.videoVectorsTable,
+          this.VIDEO_VECTORS_TEXT_COLUMN,
+        );
+        return;
+      }
+
+      await this.videoVectorsTable
+        .mergeInsert('id')
+        .whenMatchedUpdateAll()
+        .whenNotMatchedInsertAll()
+        .execute([record]);
+    });
+  }
+
+  /**
+   * Get the video-level vector of a video
+   */
+  async getVideoVector(videoId: string): Promise<VideoVectorRecord | null> {
+    if (!this.videoVectorsTable) {
+      return null;
+    }
+
+    const results = await this.videoVectorsTable
+      .query()
+      .where(Filter.eq('videoId', videoId).toSql())
+      .limit(1)
+      .toArray();
+    if (results.length === 0) {
+      return null;
+    }
+
+    // Vectors come back as Arrow vectors
+    const record = results[0] as VideoVectorRecord;
+    return { ...record, vector: Array.from(record.vector) };
+  }
+
+  /**
+   * IDs of the videos that have a video-level vector
+   */
+  async getVideoVectorIds(): Promise<Set<string>> {
+    if (!this.videoVectorsTable) {
+      return new Set();
+    }
+
+    const rows = await this.videoVectorsTable
+      .query()
+      .select(['videoId'])
+      .toArray();
+    return new Set(rows.map((row) => row.videoId as string));
+  }
+
+  /**
+   * Search whole videos by their video-level vectors, full-text, or both
+   */
+  async searchVideoVectors(
+    options: VideoVectorSearchOptions,
+  ): Promise<VideoVectorSearchResult[]> {
+    if (!this.videoVectorsTable) {
+      this.logger.warn(
+        'Video vectors table not initialized, returning empty results',
+      );
+      return [];
+    }
+
+    return this.search<VideoVectorSearchResult>(
+      this.videoVectorsTable,
+      options.excludeVideoId
+        ? Filter.ne('videoId', options.excludeVideoId)
+        : undefined,
+      options,
+    );
+  }
+
   /**
    * Delete enhanced frames for a video
    */
   async deleteEnhancedFrames(videoId: string): Promise<void> {
-    if (this.enhancedFramesTable) {
-      await this.enhancedFramesTable.delete(`videoId = '${videoId}'`);
-    }
+    return this.withWriteLock(async () => {
+      if (this.enhancedFramesTable) {
+        await this.enhancedFramesTable.delete(
+          Filter.eq('videoId', videoId).toSql(),
+        );
+      }
+    });
+  }
+
+  /**
+   * Delete the enhanced frames of one aspect across all videos
+   * Frame counts of the affected videos are reset to the rows left; videos
+   * left without frames are deleted with their video vector, as the
+   * consistency repair would
+   */
+  async deleteAspectFrames(
+    aspectType: AspectType,
+  ): Promise<AspectFramesDeletion> {
+    return this.withWriteLock(async () => {
+      const deletion: AspectFramesDeletion = {
+        updatedVideoIds: [],
+        deletedVideoIds: [],
+      };
+      if (!this.enhancedFramesTable) {
+        return deletion;
+      }
+
+      const aspectFilter = Filter.eq('aspectType', aspectType).toSql();
+      const rows = await this.enhancedFramesTable
+        .query()
+        .where(aspectFilter)
+        .select(['videoId'])
+        .toArray();
+      const videoIds = [...new Set(rows.map((row) => row.videoId as string))];
+
+      await this.enhancedFramesTable.delete(aspectFilter);
+      if (videoIds.length === 0) {
+        return deletion;
+      }
+
+      const remaining = await this.countVideoFrames(videoIds);
+      for (const videoId of videoIds) {
+        const frameCount = remaining.get(videoId);
+        if (frameCount) {
+          await this.updateVideo({ id: videoId, frameCount });
+          deletion.updatedVideoIds.push(videoId);
+        } else {
+          deletion.deletedVideoIds.push(videoId);
+        }
+      }
+
+      // Nothing of these videos can be found any more
+      if (deletion.deletedVideoIds.length > 0) {
+        await this.deleteRowsByVideoIds(
+          this.videoVectorsTableName,
+          deletion.deletedVideoIds,
+        );
+        await this.deleteVideoRecords(deletion.deletedVideoIds);
+      }
+
+      return deletion;
+    });
   }
 
   /**
@@ -518,6 +1629,7 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Get aspect type counts for a video
+   * Built-in aspects are always listed, custom aspects when the video has them
    */
   async getVideoAspectCounts(
     videoId: string,
@@ -538,14 +1650,12 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
     try {
       const frames = await this.enhancedFramesTable
         .query()
-        .where(`videoId = '${videoId}'`)
+        .where(Filter.eq('videoId', videoId).toSql())
         .toArray();
 
       for (const frame of frames) {
         const aspectType = (frame as EnhancedFrameRecord).aspectType;
-        if (aspectType in counts) {
-          counts[aspectType]++;
-        }
+        counts[aspectType] = (counts[aspectType] ?? 0) + 1;
       }
 
       return counts;
@@ -554,4 +1664,328 @@ export class LanceDBService implements OnModuleInit, OnModuleDestroy {
       return counts;
     }
   }
+
+  /**
+   * Run a frame write exclusively
+   * Writes are queued behind each other and behind vector table switches
+   */
+  async withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.writeLock.then(fn);
+    this.writeLock = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Mark the database as used by this server process
+   * The write lock only covers this process, so maintenance commands that
+   * write to the tables refuse to run while the mark is held
+   */
+  lockForServer(): void {
+    acquirePidLock(this.serverLockPath());
+  }
+
+  /**
+   * Remove the mark set by lockForServer
+   */
+  unlockForServer(): void {
+    releasePidLock(this.serverLockPath());
+  }
+
+  /**
+   * Process id of a running server using the database, or null
+   */
+  getServerPid(): number | null {
+    const pid = readPidLock(this.serverLockPath());
+    return pid === process.pid ? null : pid;
+  }
+
+  /**
+   * Throw if a running server uses the database
+   */
+  assertServerStopped(): void {
+    const pid = this.getServerPid();
+
+    if (pid !== null) {
+      throw new Error(
+        `The server (process ${pid}) is using ${this.dbPath}. Stop it first, or use the admin endpoints instead`,
+      );
+    }
+  }
+
+  private serverLockPath(): string {
+    return join(this.dbPath, '.server.pid');
+  }
+
+  /**
+   * Tables holding vectors, with the tables currently in use
+   */
+  getVectorTables(): VectorTableInfo[] {
+    return [
+      {
+        baseName: this.FRAMES_TABLE,
+        tableName: this.framesTableName,
+        textColumn: this.FRAMES_TEXT_COLUMN,
+        level: 'frame',
+      },
+      {
+        baseName: this.ENHANCED_FRAMES_TABLE,
+        tableName: this.enhancedFramesTableName,
+        textColumn: this.ENHANCED_FRAMES_TEXT_COLUMN,
+        level: 'frame',
+      },
+      {
+        baseName: this.VIDEO_VECTORS_TABLE,
+        tableName: this.videoVectorsTableName,
+        textColumn: this.VIDEO_VECTORS_TEXT_COLUMN,
+        level: 'video',
+      },
+    ];
+  }
+
+  /**
+   * Next free version suffix for versioned vector tables (`frames_v2`, ...)
+   */
+  async getNextVectorTableVersion(): Promise<number> {
+    const tableNames = await this.db.tableNames();
+    const versions = tableNames
+      .map((name) => /_v(\d+)$/.exec(name))
+      .filter(Boolean)
+      .map((match) => parseInt(match[1], 10));
+
+    return Math.max(1, ...versions) + 1;
+  }
+
+  /**
+   * Hash of every row's columns except the vector, by row ID (empty if the
+   * table does not exist)
+   * Rows updated in place keep their ID but get a new fingerprint
+   */
+  async getRowFingerprints(tableName: string): Promise<Map<string, string>> {
+    const table = await this.openTableIfExists(tableName);
+    if (!table) {
+      return new Map();
+    }
+
+    const columns = (await table.schema()).fields
+      .map((field) => field.name)
+      .filter((name) => name !== 'vector')
+      .sort();
+    const rows = await table.query().select(columns).toArray();
+
+    return new Map(
+      rows.map((row) => [
+        row.id as string,
+        createHash('sha256')
+          .update(
+            JSON.stringify(
+              columns.map((column) => row[column] ?? null),
+              (_, value) =>
+                typeof value === 'bigint' ? value.toString() : value,
+            ),
+          )
+          .digest('hex'),
+      ]),
+    );
+  }
+
+  /**
+   * Get rows by ID from a table
+   */
+  async getRowsByIds(
+    tableName: string,
+    ids: string[],
+  ): Promise<Record<string, unknown>[]> {
+    const table = await this.openTableIfExists(tableName);
+    if (!table || ids.length === 0) {
+      return [];
+    }
+
+    const rows = await table
+      .query()
+      .where(Filter.in('id', ids).toSql())
+      .toArray();
+    return rows.map((row) => ({ ...row }));
+  }
+
+  /**
+   * Count the rows of each video in a table (empty if the table does not exist)
+   */
+  async countRowsByVideo(tableName: string): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const table = await this.openTableIfExists(tableName);
+    if (!table) {
+      return counts;
+    }
+
+    const rows = await table.query().select(['videoId']).toArray();
+    for (const row of rows) {
+      const videoId = row.videoId as string;
+      counts.set(videoId, (counts.get(videoId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Delete the rows of the given videos from a table
+   */
+  async deleteRowsByVideoIds(
+    tableName: string,
+    videoIds: string[],
+  ): Promise<void> {
+    const table = await this.openTableIfExists(tableName);
+    if (!table || videoIds.length === 0) {
+      return;
+    }
+
+    await table.delete(Filter.in('videoId', videoIds).toSql());
+  }
+
+  /**
+   * Delete video records by ID, leaving their frames untouched
+   */
+  async deleteVideoRecords(videoIds: string[]): Promise<void> {
+    await this.deleteRowsByIds(this.VIDEOS_TABLE, videoIds);
+  }
+
+  /**
+   * Delete rows by ID from a table
+   */
+  async deleteRowsByIds(tableName: string, ids: string[]): Promise<void> {
+    const table = await this.openTableIfExists(tableName);
+    if (!table || ids.length === 0) {
+      return;
+    }
+
+    await table.delete(Filter.in('id', ids).toSql());
+  }
+
+  /**
+   * Add re-embedded rows to a versioned copy of a vector table
+   * The copy is created on first use with the source schema, except for the
+   * vector column, which is sized for the new embedding model
+   */
+  async addRowsToVersionedTable(
+    sourceTableName: string,
+    targetTableName: string,
+    rows: Record<string, unknown>[],
+    embedding: EmbeddingModelInfo,
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    let target = await this.openTableIfExists(targetTableName);
+
+    if (!target) {
+      const source = await this.db.openTable(sourceTableName);
+      const schema = await source.schema();
+      const fields = schema.fields.map((field) =>
+        field.name === 'vector'
+          ? new Field(
+              field.name,
+              new FixedSizeList(
+                embedding.dimension,
+                new Field('item', new Float32(), true),
+              ),
+              field.nullable,
+            )
+          : field,
+      );
+
+      target = await this.db.createEmptyTable(
+        targetTableName,
+        new Schema(fields, schema.metadata),
+      );
+      await this.recordEmbeddingMetadata(targetTableName, embedding);
+      this.logger.log(`Created versioned table ${targetTableName}`);
+    }
+
+    await target.add(rows);
+  }
+
+  /**
+   * Atomically switch reads and writes to another set of vector tables
+   * Callers should hold the write lock so no frame write lands in the old tables
+   * @param tableNames New table for each base table (e.g. `frames` -> `frames_v2`)
+   */
+  async activateVectorTables(
+    tableNames: Record<string, string>,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const pointers = Object.entries(tableNames).map(([name, tableName]) => ({
+      name,
+      tableName,
+      updatedAt: now,
+    }));
+
+    const framesTableName =
+      tableNames[this.FRAMES_TABLE] ?? this.framesTableName;
+    const enhancedFramesTableName =
+      tableNames[this.ENHANCED_FRAMES_TABLE] ?? this.enhancedFramesTableName;
+    const videoVectorsTableName =
+      tableNames[this.VIDEO_VECTORS_TABLE] ?? this.videoVectorsTableName;
+
+    // Open everything before switching so a failure leaves the old tables active
+    const framesTable = await this.openTableIfExists(framesTableName);
+    const enhancedFramesTable = await this.openTableIfExists(
+      enhancedFramesTableName,
+    );
+    const videoVectorsTable = await this.openTableIfExists(
+      videoVectorsTableName,
+    );
+    if (framesTable) {
+      await this.ensureFtsIndex(framesTable, this.FRAMES_TEXT_COLUMN);
+    }
+    if (enhancedFramesTable) {
+      await this.ensureFtsIndex(
+        enhancedFramesTable,
+        this.ENHANCED_FRAMES_TEXT_COLUMN,
+      );
+    }
+    if (videoVectorsTable) {
+      await this.ensureFtsIndex(
+        videoVectorsTable,
+        this.VIDEO_VECTORS_TEXT_COLUMN,
+      );
+    }
+
+    // A single write, so all pointers change together
+    const activeTables = await this.openTableIfExists(this.ACTIVE_TABLES_TABLE);
+    if (activeTables) {
+      await activeTables
+        .mergeInsert('name')
+        .whenMatchedUpdateAll()
+        .whenNotMatchedInsertAll()
+        .execute(pointers);
+    } else {
+      await this.db.createTable(this.ACTIVE_TABLES_TABLE, pointers);
+    }
+
+    this.framesTableName = framesTableName;
+    this.framesTable = framesTable;
+    this.enhancedFramesTableName = enhancedFramesTableName;
+    this.enhancedFramesTable = enhancedFramesTable;
+    this.videoVectorsTableName = videoVectorsTableName;
+    this.videoVectorsTable = videoVectorsTable;
+
+    this.logger.log(
+      `Activated vector tables: ${framesTableName}, ${enhancedFramesTableName}, ${videoVectorsTableName}`,
+    );
+  }
+
+  private async openTableIfExists(tableName: string): Promise<Table | null> {
+    // Reuse the handles in use: they would not see writes made through another
+    const active = [
+      this.videosTable,
+      this.framesTable,
+      this.enhancedFramesTable,
+      this.videoVectorsTable,
+    ].find((table) => table?.name === tableName);
+    if (active) {
+      return active;
+    }
+
+    const tableNames = await this.db.tableNames();
+    return tableNames.includes(tableName) ? this.db.openTable(tableName) : null;
+  }
 }
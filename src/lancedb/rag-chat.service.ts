@@ -1,16 +1,51 @@
-import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ThinkingLevel } from '@google/genai';
 import { EmbeddingService } from './embedding.service';
 import { LanceDBService } from './lancedb.service';
+import { RerankerService } from './reranker.service';
 import { GeminiService } from '../gemini/gemini.service';
+import { CustomAspectService } from './custom-aspect.service';
+import { ASPECT_TYPES, QUERY_CLASSIFIER, QueryClassifier } from './classifiers';
+import {
+  TEXT_GENERATION_PROVIDER,
+  TextGenerationProvider,
+  TextGenerationRequest,
+  createTextGenerationProvider,
+} from './generation';
 import {
   RAGResponse,
+  MultiVideoRAGResponse,
+  RAGChatOptions,
+  RAGChatTurn,
+  RAGSource,
+  RAGStreamEvent,
+  VideoRecord,
   FrameSearchResult,
   EnhancedFrameSearchResult,
-  AspectType,
   QueryClassification,
+  QueryExpansion,
+  QueryExpansionType,
+  RAGClaim,
+  SearchMode,
+  TimeRange,
 } from './interfaces';
+import {
+  fuseQueryRankings,
+  buildMoments,
+  groupIntoMoments,
+  limitTimestamps,
+  parseTemporalQuery,
+  resolveTemporalReference,
+  toMoment,
+  UncheckedClaim,
+  verifyClaims,
+} from './search';
 
 /**
  * System instruction for RAG-based answer synthesis
@@ -46,173 +81,177 @@ Rules:
 7. Be specific and detailed - the user expects comprehensive answers`;
 
 /**
- * Keywords for query classification
+ * System instruction for answering one question across several videos
+ */
+const MULTI_VIDEO_RAG_SYSTEM_INSTRUCTION = `You are a video library assistant. You answer questions across several videos based on the provided context, which is grouped by video.
+
+Rules:
+1. ONLY use information from the provided context - DO NOT hallucinate
+2. Cite every fact with its video title and timestamp, formatted as [Video Title @ MM:SS]
+3. When asked which video contains something, name the matching video(s) explicitly
+4. When comparing videos, describe each video separately before summarizing the differences
+5. Never attribute content from one video to another
+6. If the context doesn't answer the question, say so and name the videos that were searched`;
+
+/**
+ * System instruction for rewriting follow-up questions into standalone queries
+ */
+const QUERY_REWRITE_SYSTEM_INSTRUCTION = `You rewrite follow-up questions about a video into standalone search queries.
+
+Rules:
+1. Replace pronouns and references ("she", "that", "after that") with what they refer to in the conversation
+2. Keep any timestamps, names, and details needed to find the relevant moment
+3. If the question is already standalone, return it unchanged
+4. Return ONLY the rewritten question, with no explanation`;
+
+/**
+ * Rules added to the system instruction for structured (JSON) answers
+ */
+const STRUCTURED_ANSWER_RULES = `
+
+When answering as JSON:
+- "answer" is the complete answer in prose
+- "claims" lists every factual statement of the answer separately
+- Each claim cites the sources supporting it by ID (e.g. "S2") with the MM:SS timestamp of the supporting frame, which must lie within that source's time range
+- Never cite a source or timestamp that is not in the context`;
+
+/**
+ * Structured output of a structured answer
+ */
+const STRUCTURED_ANSWER_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: {
+      type: 'string',
+      description: 'Complete answer to the question',
+    },
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: {
+            type: 'string',
+            description: 'One factual statement from the answer',
+          },
+          citations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                sourceId: {
+                  type: 'string',
+                  description: 'ID of the cited source, e.g. S1',
+                },
+                timestamp: {
+                  type: 'string',
+                  description: 'MM:SS of the frame supporting the claim',
+                },
+              },
+              required: ['sourceId', 'timestamp'],
+            },
+          },
+        },
+        required: ['text', 'citations'],
+      },
+    },
+  },
+  required: ['answer', 'claims'],
+};
+
+/**
+ * System instruction for expanding a question into extra search queries
+ * The examples follow the frame descriptions written at indexing time
+ */
+const QUERY_EXPANSION_SYSTEM_INSTRUCTION = `You help search the indexed frame descriptions of a video. For a question, write:
+1. Paraphrases: rewordings of the question using different, more concrete words that a frame description could contain
+2. A hypothetical frame description: what an indexed frame answering the question could say, in the same format as the indexed descriptions
+
+Indexed descriptions look like this:
+At 00:30: Person 1: female, mid-20s, appears Caucasian, with long brown hair, wearing blue dress, looking happy, waving, positioned center
+At 00:30: Objects visible - laptop silver (Apple) open - on the desk
+At 00:30: Scene - indoor, office, bright lighting, medium shot, calm atmosphere
+At 00:30: Person 1 says: "Welcome to the presentation." (confident tone)
+At 00:30: Text on screen - title: "Q3 Results" (top center)
+
+Use 00:00 as the timestamp unless the question names one. Never answer the question itself.`;
+
+/**
+ * Structured output of a query expansion
  */
-const ASPECT_KEYWORDS: Record<AspectType, string[]> = {
-  people: [
-    'person',
-    'people',
-    'man',
-    'woman',
-    'guy',
-    'girl',
-    'boy',
-    'child',
-    'kid',
-    'gender',
-    'male',
-    'female',
-    'age',
-    'old',
-    'young',
-    'race',
-    'ethnicity',
-    'skin',
-    'hair',
-    'wearing',
-    'clothes',
-    'clothing',
-    'dressed',
-    'outfit',
-    'emotion',
-    'expression',
-    'face',
-    'facial',
-    'looking',
-    'appearance',
-    'who',
-    'somebody',
-    'someone',
-    'anybody',
-    'anyone',
-    'he',
-    'she',
-    'they',
-  ],
-  audio: [
-    'say',
-    'said',
-    'speak',
-    'spoke',
-    'talk',
-    'talking',
-    'voice',
-    'hear',
-    'sound',
-    'noise',
-    'music',
-    'song',
-    'dialogue',
-    'conversation',
-    'word',
-    'listen',
-    'audio',
-    'speech',
-    'mention',
-    'tell',
-    'told',
-    'ask',
-    'asked',
-    'shout',
-    'whisper',
-    'sing',
-    'language',
-    'accent',
-    'tone',
-  ],
-  objects: [
-    'object',
-    'thing',
-    'item',
-    'product',
-    'brand',
-    'device',
-    'tool',
-    'car',
-    'vehicle',
-    'phone',
-    'computer',
-    'table',
-    'chair',
-    'furniture',
-    'food',
-    'drink',
-    'bottle',
-    'bag',
-    'box',
-    'book',
-    'what is',
-    'what are',
-  ],
-  scene: [
-    'where',
-    'location',
-    'place',
-    'setting',
-    'environment',
-    'background',
-    'indoor',
-    'outdoor',
-    'room',
-    'building',
-    'street',
-    'city',
-    'nature',
-    'light',
-    'lighting',
-    'dark',
-    'bright',
-    'weather',
-    'time of day',
-    'atmosphere',
-    'mood',
-    'camera',
-    'shot',
-    'angle',
-  ],
-  text: [
-    'text',
-    'read',
-    'written',
-    'write',
-    'sign',
-    'title',
-    'subtitle',
-    'caption',
-    'label',
-    'display',
-    'screen',
-    'show',
-    'letter',
-    'word',
-  ],
-  action: [
-    'do',
-    'doing',
-    'happen',
-    'happening',
-    'action',
-    'event',
-    'activity',
-    'move',
-    'moving',
-    'walk',
-    'run',
-    'sit',
-    'stand',
-    'pick',
-    'put',
-    'open',
-    'close',
-    'start',
-    'stop',
-    'begin',
-    'end',
-    'then',
-    'next',
-  ],
+const QUERY_EXPANSION_SCHEMA = {
+  type: 'object',
+  properties: {
+    paraphrases: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Rewordings of the question',
+    },
+    hypotheticalFrame: {
+      type: 'string',
+      description: 'Frame description that would answer the question',
+    },
+  },
+  required: ['paraphrases', 'hypotheticalFrame'],
 };
 
+/**
+ * Number of prior messages (user and assistant, so three exchanges) included
+ * when rewriting and answering follow-ups
+ */
+const MAX_HISTORY_MESSAGES = 6;
+
+/**
+ * Assistant answers longer than this are truncated in the condensed history
+ */
+const MAX_HISTORY_ANSWER_CHARS = 500;
+
+/**
+ * Answer returned when retrieval finds no relevant content
+ */
+const NO_CONTENT_ANSWER =
+  'No relevant content found in the indexed video for this query.';
+
+/**
+ * Most distinct timestamps used as context for a question about a time window
+ */
+const MAX_TIME_WINDOW_TIMESTAMPS = 30;
+
+/**
+ * Synthesized answer text, plus checked claims for structured answers
+ */
+interface SynthesizedAnswer {
+  text: string;
+  tokenUsage?: { inputTokens: number; outputTokens: number };
+  claims?: RAGClaim[];
+  groundingScore?: number;
+}
+
+/**
+ * Query searched for a question: the question itself or one of its expansions
+ */
+interface SearchQuery {
+  type: QueryExpansionType;
+  text: string;
+  /** Embedding of `text`; unset for full-text only search */
+  vector?: number[];
+}
+
+/**
+ * Retrieved frames rendered as prompt context plus their response sources
+ */
+interface RetrievedContext {
+  context: string;
+  sources: RAGSource[];
+  videoTitle: string;
+  /** Whether the context was built from multi-aspect (enhanced) frames */
+  advanced: boolean;
+  /** Window of video time the frames were restricted to */
+  timeRange?: TimeRange;
+  /** Queries searched (only set when query expansion was used) */
+  expansions?: QueryExpansion[];
+}
+
 /**
  * Service for RAG-based chat using indexed video content
  * Provides ultra-fast responses by avoiding video re-analysis
@@ -221,80 +260,115 @@ const ASPECT_KEYWORDS: Record<AspectType, string[]> = {
 export class RAGChatService {
   private readonly logger = new Logger(RAGChatService.name);
   private readonly defaultTopK: number;
+  private readonly defaultSearchMode: SearchMode;
+  private readonly defaultRerank: boolean;
+  private readonly defaultCandidatePool: number;
+  private readonly defaultContextWindow: number;
+  private readonly momentGapSeconds: number;
+  private readonly multiVideoMaxVideos: number;
+  private readonly defaultExpand: boolean;
+  private readonly expansionParaphrases: number;
+  private readonly defaultStructured: boolean;
 
   constructor(
     private readonly embeddingService: EmbeddingService,
     private readonly lancedbService: LanceDBService,
     private readonly geminiService: GeminiService,
     private readonly configService: ConfigService,
+    private readonly rerankerService: RerankerService,
+    @Inject(QUERY_CLASSIFIER)
+    private readonly queryClassifier: QueryClassifier,
+    @Inject(TEXT_GENERATION_PROVIDER)
+    private readonly textGenerationProvider: TextGenerationProvider,
+    private readonly customAspectService: CustomAspectService,
   ) {
     this.defaultTopK = this.configService.get<number>('RAG_TOP_K', 5);
+    this.defaultSearchMode = this.configService.get<SearchMode>(
+      'RAG_SEARCH_MODE',
+      'vector',
+    );
+    this.defaultRerank =
+      String(this.configService.get('RAG_RERANK', 'false')) === 'true';
+    this.defaultCandidatePool = Number(
+      this.configService.get<number>('RAG_RERANK_CANDIDATE_POOL', 30),
+    );
+    this.defaultContextWindow = Number(
+      this.configService.get<number>('RAG_CONTEXT_WINDOW_SECONDS', 0),
+    );
+    this.momentGapSeconds = Number(
+      this.configService.get<number>('RAG_MOMENT_GAP_SECONDS', 10),
+    );
+    this.multiVideoMaxVideos = Number(
+      this.configService.get<number>('RAG_MULTI_VIDEO_MAX_VIDEOS', 5),
+    );
+    this.defaultExpand =
+      String(this.configService.get('RAG_QUERY_EXPANSION', 'false')) === 'true';
+    this.expansionParaphrases = Number(
+      this.configService.get<number>('RAG_QUERY_EXPANSION_PARAPHRASES', 2),
+    );
+    this.defaultStructured =
+      String(this.configService.get('RAG_STRUCTURED_ANSWERS', 'false')) ===
+      'true';
   }
 
   /**
    * Perform RAG-based chat on an indexed video (legacy - uses simple frames)
    * @param videoId The indexed video ID
    * @param query User's question
-   * @param topK Number of frames to retrieve (default: 5)
+   * @param options Retrieval options and prior conversation turns
    */
   async chat(
     videoId: string,
     query: string,
-    topK?: number,
+    options: RAGChatOptions = {},
   ): Promise<RAGResponse> {
     const startTime = Date.now();
-    const k = topK || this.defaultTopK;
 
     this.logger.log(
       `RAG chat for video ${videoId}: "${query.substring(0, 50)}..."`,
     );
 
     try {
-      // 1. Verify video exists
-      const video = await this.lancedbService.getVideo(videoId);
-      if (!video) {
-        throw new HttpException(
-          {
-            statusCode: HttpStatus.NOT_FOUND,
-            message: `Video not found: ${videoId}`,
-          },
-          HttpStatus.NOT_FOUND,
-        );
-      }
-
-      // 2. Embed the query (fast, local)
-      const embedStartTime = Date.now();
-      const queryVector = await this.embeddingService.embed(query);
-      const embedLatency = Date.now() - embedStartTime;
-      this.logger.debug(`Query embedding: ${embedLatency}ms`);
-
-      // 3. Vector search (fast, disk-based)
-      const searchStartTime = Date.now();
-      const relevantFrames = await this.lancedbService.vectorSearch(
-        queryVector,
+      const standaloneQuery = await this.resolveStandaloneQuery(query, options);
+      const retrieval = await this.retrieveFrames(
         videoId,
-        k,
-      );
-      const searchLatency = Date.now() - searchStartTime;
-      this.logger.debug(
-        `Vector search: ${searchLatency}ms, found ${relevantFrames.length} frames`,
+        standaloneQuery ?? query,
+        options,
       );
 
-      if (relevantFrames.length === 0) {
+      if (retrieval.sources.length === 0) {
         return {
-          answer:
-            'No relevant content found in the indexed video for this query.',
-          sources: [],
-          latencyMs: Date.now() - startTime,
+          ...this.emptyResponse(startTime),
+          standaloneQuery,
+          timeRange: retrieval.timeRange,
+          expansions: retrieval.expansions,
         };
       }
 
-      // 4. Build context from retrieved frames
-      const context = this.buildContext(relevantFrames, video.title);
-
-      // 5. Synthesize answer with Gemini (text-only, fast)
+      // Synthesize answer with the answer model (text-only, fast)
       const synthesisStartTime = Date.now();
-      const answer = await this.synthesizeAnswer(query, context);
+      const structured = options.structured ?? this.defaultStructured;
+      const sources = structured
+        ? this.labelSources(retrieval.sources)
+        : retrieval.sources;
+      const generator = this.generatorFor(options);
+      const answer: SynthesizedAnswer = structured
+        ? await this.synthesizeStructuredAnswer(
+            generator,
+            query,
+            this.buildSourceContext(retrieval.videoTitle, sources),
+            sources,
+            RAG_SYSTEM_INSTRUCTION,
+            options.history,
+          )
+        : await this.synthesizeAnswer(
+            generator,
+            this.buildSynthesisRequest(
+              query,
+              retrieval.context,
+              options.history,
+            ),
+          );
       const synthesisLatency = Date.now() - synthesisStartTime;
       this.logger.debug(`Answer synthesis: ${synthesisLatency}ms`);
 
@@ -303,11 +377,12 @@ export class RAGChatService {
 
       return {
         answer: answer.text,
-        sources: relevantFrames.map((f) => ({
-          timestamp: f.timestamp,
-          description: f.description,
-          relevanceScore: f._distance ? 1 - f._distance : undefined, // Convert distance to similarity
-        })),
+        sources,
+        standaloneQuery,
+        timeRange: retrieval.timeRange,
+        expansions: retrieval.expansions,
+        claims: answer.claims,
+        groundingScore: answer.groundingScore,
         tokenUsage: answer.tokenUsage,
         latencyMs: totalLatency,
       };
@@ -334,189 +409,1056 @@ export class RAGChatService {
   async advancedChat(
     videoId: string,
     query: string,
-    topK?: number,
+    options: RAGChatOptions = {},
   ): Promise<RAGResponse> {
     const startTime = Date.now();
-    const k = topK || this.defaultTopK * 2; // More results for comprehensive answers
 
     this.logger.log(
       `Advanced RAG chat for video ${videoId}: "${query.substring(0, 50)}..."`,
     );
 
     try {
-      // 1. Verify video exists
-      const video = await this.lancedbService.getVideo(videoId);
-      if (!video) {
-        throw new HttpException(
-          {
-            statusCode: HttpStatus.NOT_FOUND,
-            message: `Video not found: ${videoId}`,
-          },
-          HttpStatus.NOT_FOUND,
+      const standaloneQuery = await this.resolveStandaloneQuery(query, options);
+      const retrieval = await this.retrieveEnhancedFrames(
+        videoId,
+        standaloneQuery ?? query,
+        options,
+      );
+
+      if (retrieval.sources.length === 0) {
+        return {
+          ...this.emptyResponse(startTime),
+          standaloneQuery,
+          timeRange: retrieval.timeRange,
+          expansions: retrieval.expansions,
+        };
+      }
+
+      // Synthesize answer (advanced prompt unless we fell back to legacy frames)
+      const synthesisStartTime = Date.now();
+      const structured = options.structured ?? this.defaultStructured;
+      const sources = structured
+        ? this.labelSources(retrieval.sources)
+        : retrieval.sources;
+      const generator = this.generatorFor(options);
+      const answer: SynthesizedAnswer = structured
+        ? await this.synthesizeStructuredAnswer(
+            generator,
+            query,
+            this.buildSourceContext(retrieval.videoTitle, sources),
+            sources,
+            retrieval.advanced
+              ? ADVANCED_RAG_SYSTEM_INSTRUCTION
+              : RAG_SYSTEM_INSTRUCTION,
+            options.history,
+          )
+        : await this.synthesizeAnswer(
+            generator,
+            retrieval.advanced
+              ? this.buildAdvancedSynthesisRequest(
+                  query,
+                  retrieval.context,
+                  options.history,
+                )
+              : this.buildSynthesisRequest(
+                  query,
+                  retrieval.context,
+                  options.history,
+                ),
+          );
+      const synthesisLatency = Date.now() - synthesisStartTime;
+      this.logger.debug(`Advanced synthesis: ${synthesisLatency}ms`);
+
+      const totalLatency = Date.now() - startTime;
+      this.logger.log(`Advanced RAG chat completed in ${totalLatency}ms`);
+
+      return {
+        answer: answer.text,
+        sources,
+        standaloneQuery,
+        timeRange: retrieval.timeRange,
+        expansions: retrieval.expansions,
+        claims: answer.claims,
+        groundingScore: answer.groundingScore,
+        tokenUsage: answer.tokenUsage,
+        latencyMs: totalLatency,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Advanced RAG chat failed: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: `Advanced RAG chat failed: ${error.message}`,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Answer one question across several indexed videos
+   * Each video is searched on its own (as in advancedChat) so every video can
+   * contribute, which comparisons need; with `'all'`, the videos whose frames
+   * best match the question are selected first
+   * @param videoIds Videos to answer from, or 'all' for the whole library
+   * @param query User's question
+   * @param options Retrieval options, applied to each video
+   */
+  async multiVideoChat(
+    videoIds: string[] | 'all',
+    query: string,
+    options: RAGChatOptions = {},
+  ): Promise<MultiVideoRAGResponse> {
+    const startTime = Date.now();
+
+    this.logger.log(
+      `Multi-video RAG chat over ${videoIds === 'all' ? 'all videos' : `${videoIds.length} videos`}: "${query.substring(0, 50)}..."`,
+    );
+
+    try {
+      const videos =
+        videoIds === 'all'
+          ? await this.selectVideosForQuery(query, options)
+          : await Promise.all(
+              [...new Set(videoIds)].map((id) => this.getVideoOrThrow(id)),
+            );
+
+      // Expanded once for the question, then searched in every video
+      const queryExpansions =
+        (options.expand ?? this.defaultExpand)
+          ? await this.expandQuery(query, this.generatorFor(options))
+          : [];
+
+      // One video at a time keeps the embedding and search load flat
+      const retrieved: Array<{
+        video: VideoRecord;
+        retrieval: RetrievedContext;
+      }> = [];
+      for (const video of videos) {
+        const retrieval = await this.retrieveEnhancedFrames(
+          video.id,
+          query,
+          options,
+          queryExpansions,
         );
+        if (retrieval.sources.length > 0) {
+          retrieved.push({ video, retrieval });
+        }
+      }
+
+      if (retrieved.length === 0) {
+        return {
+          ...this.emptyResponse(startTime),
+          sources: [],
+          videos: [],
+        };
+      }
+
+      // Structured answers number the sources across all videos
+      const structured = options.structured ?? this.defaultStructured;
+      let sourceCount = 0;
+      const groups = retrieved.map(({ video, retrieval }) => {
+        const sources = structured
+          ? this.labelSources(retrieval.sources, sourceCount)
+          : retrieval.sources;
+        sourceCount += sources.length;
+        return { video, retrieval, sources };
+      });
+
+      const context = groups
+        .map(
+          ({ retrieval, sources }, i) =>
+            `=== Video ${i + 1} of ${groups.length} ===\n${
+              structured
+                ? this.buildSourceContext(retrieval.videoTitle, sources)
+                : retrieval.context
+            }`,
+        )
+        .join('\n\n');
+
+      const synthesisStartTime = Date.now();
+      const generator = this.generatorFor(options);
+      const answer: SynthesizedAnswer = structured
+        ? await this.synthesizeStructuredAnswer(
+            generator,
+            query,
+            context,
+            groups.flatMap(({ sources }) => sources),
+            MULTI_VIDEO_RAG_SYSTEM_INSTRUCTION,
+          )
+        : await this.synthesizeAnswer(
+            generator,
+            this.buildMultiVideoSynthesisRequest(query, context),
+          );
+      this.logger.debug(
+        `Multi-video synthesis: ${Date.now() - synthesisStartTime}ms`,
+      );
+
+      const totalLatency = Date.now() - startTime;
+      this.logger.log(
+        `Multi-video RAG chat completed in ${totalLatency}ms (${retrieved.length} videos)`,
+      );
+
+      return {
+        answer: answer.text,
+        sources: groups.flatMap(({ video, sources }) =>
+          sources.map((source) => ({
+            ...source,
+            videoTitle: video.title,
+          })),
+        ),
+        videos: retrieved.map(({ video, retrieval }) => ({
+          videoId: video.id,
+          title: video.title,
+          sourceCount: retrieval.sources.length,
+        })),
+        timeRange: options.timeRange,
+        claims: answer.claims,
+        groundingScore: answer.groundingScore,
+        expansions: retrieved[0].retrieval.expansions?.map((expansion, i) => ({
+          ...expansion,
+          sourceCount: retrieved.reduce(
+            (sum, { retrieval }) =>
+              sum + (retrieval.expansions?.[i]?.sourceCount ?? 0),
+            0,
+          ),
+        })),
+        tokenUsage: answer.tokenUsage,
+        latencyMs: totalLatency,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Multi-video RAG chat failed: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: `Multi-video RAG chat failed: ${error.message}`,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Streaming variant of chat()
+   * Retrieval runs up front (so lookup errors surface as normal HTTP errors);
+   * the returned stream yields the sources, then answer deltas, then a final summary
+   */
+  async streamChat(
+    videoId: string,
+    query: string,
+    options: RAGChatOptions = {},
+  ): Promise<AsyncGenerator<RAGStreamEvent>> {
+    const startTime = Date.now();
+
+    this.logger.log(
+      `Streaming RAG chat for video ${videoId}: "${query.substring(0, 50)}..."`,
+    );
+
+    this.assertStreamable(options);
+
+    const standaloneQuery = await this.resolveStandaloneQuery(query, options);
+    const retrieval = await this.retrieveFrames(
+      videoId,
+      standaloneQuery ?? query,
+      options,
+    );
+
+    return this.streamAnswer(
+      retrieval,
+      this.generatorFor(options),
+      this.buildSynthesisRequest(query, retrieval.context, options.history),
+      startTime,
+      options.signal,
+    );
+  }
+
+  /**
+   * Streaming variant of advancedChat()
+   */
+  async streamAdvancedChat(
+    videoId: string,
+    query: string,
+    options: RAGChatOptions = {},
+  ): Promise<AsyncGenerator<RAGStreamEvent>> {
+    const startTime = Date.now();
+
+    this.logger.log(
+      `Streaming advanced RAG chat for video ${videoId}: "${query.substring(0, 50)}..."`,
+    );
+
+    this.assertStreamable(options);
+
+    const standaloneQuery = await this.resolveStandaloneQuery(query, options);
+    const retrieval = await this.retrieveEnhancedFrames(
+      videoId,
+      standaloneQuery ?? query,
+      options,
+    );
+
+    return this.streamAnswer(
+      retrieval,
+      this.generatorFor(options),
+      retrieval.advanced
+        ? this.buildAdvancedSynthesisRequest(
+            query,
+            retrieval.context,
+            options.history,
+          )
+        : this.buildSynthesisRequest(query, retrieval.context, options.history),
+      startTime,
+      options.signal,
+    );
+  }
+
+  /**
+   * Structured answers are only complete once the JSON is, so they can't be streamed
+   */
+  private assertStreamable(options: RAGChatOptions): void {
+    if (options.structured) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message:
+            'Structured answers are not available for streaming; use the non-streaming chat endpoint',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone retrieval query
+   * Returns undefined when there is no history to resolve against; falls back
+   * to the original question if the rewrite fails
+   */
+  private async resolveStandaloneQuery(
+    query: string,
+    options: RAGChatOptions,
+  ): Promise<string | undefined> {
+    const history = options.history;
+    if (!history || history.length === 0) {
+      return undefined;
+    }
+
+    const prompt = `${this.formatHistory(history)}
+
+Follow-up question: ${query}
+
+Standalone question:`;
+
+    try {
+      const startTime = Date.now();
+      const response = await this.generatorFor(options).generate({
+        systemInstruction: QUERY_REWRITE_SYSTEM_INSTRUCTION,
+        prompt,
+        thinkingLevel: 'minimal',
+        maxOutputTokens: 256,
+      });
+
+      const rewritten = response.text.trim();
+      this.logger.debug(
+        `Query rewrite (${Date.now() - startTime}ms): "${rewritten}"`,
+      );
+
+      return rewritten || query;
+    } catch (error) {
+      this.logger.warn(
+        `Query rewrite failed, using original question: ${error.message}`,
+      );
+      return query;
+    }
+  }
+
+  /**
+   * Render the most recent conversation messages for a prompt
+   * Long assistant answers are truncated to keep the prompt small
+   */
+  private formatHistory(history: RAGChatTurn[]): string {
+    const lines = history.slice(-MAX_HISTORY_MESSAGES).map((turn) => {
+      const content =
+        turn.role === 'assistant' &&
+        turn.content.length > MAX_HISTORY_ANSWER_CHARS
+          ? `${turn.content.substring(0, MAX_HISTORY_ANSWER_CHARS)}...`
+          : turn.content;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    });
+
+    return `Conversation so far:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Retrieve relevant legacy frames for a query and build the prompt context
+   */
+  private async retrieveFrames(
+    videoId: string,
+    query: string,
+    options: RAGChatOptions,
+  ): Promise<RetrievedContext> {
+    const k = options.topK || this.defaultTopK;
+    const mode = options.mode || this.defaultSearchMode;
+    const limit = this.candidateLimit(k, options);
+
+    // 1. Verify video exists
+    const video = await this.getVideoOrThrow(videoId);
+
+    // Questions about a specific time are answered from that window directly
+    const windowed = await this.retrieveTimeWindow(
+      video,
+      query,
+      options,
+      false,
+    );
+    if (windowed) {
+      return windowed;
+    }
+
+    // 2. Embed the query and its expansions (fast, local; skipped for full-text only search)
+    const queries = await this.prepareQueries(query, mode, options);
+
+    // 3. Search frames (fast, disk-based)
+    const searchStartTime = Date.now();
+    const candidates = await this.searchQueries(queries, limit, (q) =>
+      this.lancedbService.searchFrames({
+        queryText: q.text,
+        queryVector: q.vector,
+        mode,
+        videoId,
+        timeRange: options.timeRange,
+        limit,
+      }),
+    );
+    const searchLatency = Date.now() - searchStartTime;
+    this.logger.debug(
+      `${mode} search: ${searchLatency}ms, found ${candidates.length} frames`,
+    );
+
+    // 4. Optionally re-rank the candidates with the cross-encoder
+    const relevantFrames = await this.applyRerank(
+      query,
+      candidates,
+      (f) => f.description,
+      k,
+      options,
+    );
+
+    // 5. Build context from the hits and their surrounding frames
+    return this.withExpansions(
+      await this.legacyRetrieval(
+        relevantFrames,
+        video,
+        this.contextWindow(options),
+        options.timeRange,
+      ),
+      queries,
+    );
+  }
+
+  /**
+   * Retrieve relevant multi-aspect frames for a query and build the prompt context
+   * Falls back to searching all aspects, then to legacy frames, when nothing matches
+   */
+  private async retrieveEnhancedFrames(
+    videoId: string,
+    query: string,
+    options: RAGChatOptions,
+    expansions?: Array<Omit<SearchQuery, 'vector'>>,
+  ): Promise<RetrievedContext> {
+    const k = options.topK || this.defaultTopK * 2; // More results for comprehensive answers
+    const mode = options.mode || this.defaultSearchMode;
+    const limit = this.candidateLimit(k, options);
+
+    // 1. Verify video exists
+    const video = await this.getVideoOrThrow(videoId);
+
+    // Questions about a specific time are answered from that window directly
+    const windowed = await this.retrieveTimeWindow(video, query, options, true);
+    if (windowed) {
+      return windowed;
+    }
+
+    // 2. Classify query to weigh the aspects
+    const classification = await this.classifyQuery(query);
+
+    // 3. Embed the query and its expansions
+    const queries = await this.prepareQueries(query, mode, options, expansions);
+    const searchOptions = (q: SearchQuery) => ({
+      queryText: q.text,
+      queryVector: q.vector,
+      mode,
+      videoId,
+      timeRange: options.timeRange,
+      limit,
+    });
+
+    // 4. Search enhanced frames, splitting the limit across aspects by weight
+    const searchStartTime = Date.now();
+    let finalFrames = await this.searchQueries(queries, limit, (q) =>
+      this.lancedbService.searchEnhancedFrames({
+        ...searchOptions(q),
+        aspectWeights: classification.weights,
+      }),
+    );
+    const searchLatency = Date.now() - searchStartTime;
+    this.logger.debug(
+      `Enhanced ${mode} search: ${searchLatency}ms, found ${finalFrames.length} frames`,
+    );
+
+    if (finalFrames.length === 0) {
+      // Fall back to legacy frames
+      const legacyFrames = await this.applyRerank(
+        query,
+        await this.searchQueries(queries, limit, (q) =>
+          this.lancedbService.searchFrames(searchOptions(q)),
+        ),
+        (f) => f.description,
+        k,
+        options,
+      );
+
+      return this.withExpansions(
+        await this.legacyRetrieval(
+          legacyFrames,
+          video,
+          this.contextWindow(options),
+          options.timeRange,
+        ),
+        queries,
+      );
+    }
+
+    // 5. Optionally re-rank the candidates with the cross-encoder
+    finalFrames = await this.applyRerank(
+      query,
+      finalFrames,
+      (f) => f.content,
+      k,
+      options,
+    );
+
+    // 6. Build enhanced context from the hits and their surrounding frames
+    return this.withExpansions(
+      await this.enhancedRetrieval(
+        finalFrames,
+        video,
+        this.contextWindow(options),
+        options.timeRange,
+      ),
+      queries,
+    );
+  }
+
+  /**
+   * The question plus, when expansion is on, its paraphrases and hypothetical
+   * frame description, each embedded for the search mode
+   * @param expansions Expansions already generated for the question (multi-video chat)
+   */
+  private async prepareQueries(
+    query: string,
+    mode: SearchMode,
+    options: RAGChatOptions,
+    expansions?: Array<Omit<SearchQuery, 'vector'>>,
+  ): Promise<SearchQuery[]> {
+    const queries: Array<Omit<SearchQuery, 'vector'>> = [
+      { type: 'original', text: query },
+      ...(expansions ??
+        ((options.expand ?? this.defaultExpand)
+          ? await this.expandQuery(query, this.generatorFor(options))
+          : [])),
+    ];
+
+    const prepared: SearchQuery[] = [];
+    for (const q of queries) {
+      prepared.push({ ...q, vector: await this.embedForMode(q.text, mode) });
+    }
+    return prepared;
+  }
+
+  /**
+   * Run a search per query and fuse the result lists with Reciprocal Rank Fusion
+   */
+  private async searchQueries<
+    T extends FrameSearchResult | EnhancedFrameSearchResult,
+  >(
+    queries: SearchQuery[],
+    limit: number,
+    search: (query: SearchQuery) => Promise<T[]>,
+  ): Promise<T[]> {
+    if (queries.length === 1) {
+      return search(queries[0]);
+    }
+
+    const rankings: T[][] = [];
+    for (const query of queries) {
+      rankings.push(await search(query));
+    }
+    return fuseQueryRankings(rankings, limit);
+  }
+
+  /**
+   * Record which of several queries found each returned source
+   */
+  private withExpansions(
+    retrieval: RetrievedContext,
+    queries: SearchQuery[],
+  ): RetrievedContext {
+    if (queries.length === 1) {
+      return retrieval;
+    }
+
+    return {
+      ...retrieval,
+      expansions: queries.map((query, i) => ({
+        type: query.type,
+        text: query.text,
+        sourceCount: retrieval.sources.filter((source) =>
+          source.expansions?.includes(i),
+        ).length,
+      })),
+    };
+  }
+
+  /**
+   * Generate paraphrases and a hypothetical frame description for a question
+   * Returns no expansions when generation fails, so only the question is searched
+   */
+  private async expandQuery(
+    query: string,
+    generator: TextGenerationProvider,
+  ): Promise<Array<Omit<SearchQuery, 'vector'>>> {
+    try {
+      const startTime = Date.now();
+      const response = await generator.generate({
+        systemInstruction: QUERY_EXPANSION_SYSTEM_INSTRUCTION,
+        prompt: `Question: ${query}\n\nWrite up to ${this.expansionParaphrases} paraphrases and one hypothetical frame description.`,
+        thinkingLevel: 'minimal',
+        responseSchema: QUERY_EXPANSION_SCHEMA,
+        maxOutputTokens: 512,
+      });
+
+      const parsed = JSON.parse(response.text || '{}');
+      const paraphrases: string[] = (
+        Array.isArray(parsed.paraphrases) ? parsed.paraphrases : []
+      )
+        .map((text: unknown) => String(text).trim())
+        .filter((text: string) => text && text !== query)
+        .slice(0, this.expansionParaphrases);
+      const hypothetical = String(parsed.hypotheticalFrame || '').trim();
+
+      this.logger.debug(
+        `Query expansion (${Date.now() - startTime}ms): ${paraphrases.length} paraphrases${hypothetical ? ' + hypothetical frame' : ''}`,
+      );
+
+      return [
+        ...paraphrases.map((text) => ({ type: 'paraphrase' as const, text })),
+        ...(hypothetical
+          ? [{ type: 'hypothetical' as const, text: hypothetical }]
+          : []),
+      ];
+    } catch (error) {
+      this.logger.warn(
+        `Query expansion failed, searching the question only: ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Window of video time named in the question ("at 2:30", "in the last minute")
+   * Not used when the request sets `timeRange`, which filters the search instead
+   */
+  private async resolveQuestionTimeRange(
+    video: VideoRecord,
+    query: string,
+    options: RAGChatOptions,
+  ): Promise<TimeRange | undefined> {
+    const reference = options.timeRange ? undefined : parseTemporalQuery(query);
+    if (!reference) {
+      return undefined;
+    }
+
+    const duration =
+      reference.type === 'last'
+        ? Number(video.duration) || (await this.lastFrameSeconds(video.id))
+        : 0;
+    const timeRange = resolveTemporalReference(reference, duration);
+    this.logger.debug(
+      `Question refers to ${timeRange.startTime ?? 0}s - ${timeRange.endTime ?? 'end'}s, looking up frames by time`,
+    );
+    return timeRange;
+  }
+
+  /**
+   * Build context from every frame inside the time window the question names
+   * Advanced chat prefers enhanced frames and falls back to legacy frames;
+   * returns undefined when the question names no time or the window is empty
+   */
+  private async retrieveTimeWindow(
+    video: VideoRecord,
+    query: string,
+    options: RAGChatOptions,
+    advanced: boolean,
+  ): Promise<RetrievedContext | undefined> {
+    const timeRange = await this.resolveQuestionTimeRange(
+      video,
+      query,
+      options,
+    );
+    if (!timeRange) {
+      return undefined;
+    }
+
+    if (advanced) {
+      const frames = limitTimestamps(
+        await this.lancedbService.getEnhancedVideoFrames(
+          video.id,
+          undefined,
+          timeRange,
+        ),
+        MAX_TIME_WINDOW_TIMESTAMPS,
+      );
+      if (frames.length > 0) {
+        return this.enhancedRetrieval(frames, video, 0, timeRange);
+      }
+    }
+
+    const frames = limitTimestamps(
+      await this.lancedbService.getVideoFrames(video.id, timeRange),
+      MAX_TIME_WINDOW_TIMESTAMPS,
+    );
+    if (frames.length === 0) {
+      this.logger.debug('No frames in the time window, searching instead');
+      return undefined;
+    }
+
+    return this.legacyRetrieval(frames, video, 0, timeRange);
+  }
+
+  /**
+   * Timestamp of a video's last frame, for videos stored without a duration
+   */
+  private async lastFrameSeconds(videoId: string): Promise<number> {
+    const frames = [
+      ...(await this.lancedbService.getVideoFrames(videoId)),
+      ...(await this.lancedbService.getEnhancedVideoFrames(videoId)),
+    ];
+    return frames.reduce(
+      (last, frame) => Math.max(last, frame.timestampSeconds),
+      0,
+    );
+  }
+
+  /**
+   * Number of candidates to fetch: the re-ranking pool when enabled, otherwise K
+   */
+  private candidateLimit(k: number, options: RAGChatOptions): number {
+    if (!(options.rerank ?? this.defaultRerank)) {
+      return k;
+    }
+    return Math.max(options.candidatePool || this.defaultCandidatePool, k);
+  }
+
+  /**
+   * Re-rank candidates with the cross-encoder and keep the best K
+   * Keeps the first-stage order if re-ranking is disabled or fails
+   */
+  private async applyRerank<T extends { _relevance?: number }>(
+    query: string,
+    candidates: T[],
+    getText: (candidate: T) => string,
+    k: number,
+    options: RAGChatOptions,
+  ): Promise<T[]> {
+    if (!(options.rerank ?? this.defaultRerank) || candidates.length === 0) {
+      return candidates.slice(0, k);
+    }
+
+    try {
+      return await this.rerankerService.rerank(query, candidates, getText, k);
+    } catch (error) {
+      this.logger.warn(
+        `Re-ranking failed, using first-stage ranking: ${error.message}`,
+      );
+      return candidates.slice(0, k);
+    }
+  }
+
+  /**
+   * Embed a query unless the search mode doesn't use vectors
+   */
+  private async embedForMode(
+    query: string,
+    mode: SearchMode,
+  ): Promise<number[] | undefined> {
+    if (mode === 'fts') {
+      return undefined;
+    }
+
+    const embedStartTime = Date.now();
+    const queryVector = await this.embeddingService.embed(query);
+    this.logger.debug(`Query embedding: ${Date.now() - embedStartTime}ms`);
+    return queryVector;
+  }
+
+  /**
+   * Videos whose frames best match a question, best first
+   * Searches legacy and enhanced frames across the library and ranks videos
+   * by their best hit, keeping at most RAG_MULTI_VIDEO_MAX_VIDEOS
+   */
+  private async selectVideosForQuery(
+    query: string,
+    options: RAGChatOptions,
+  ): Promise<VideoRecord[]> {
+    const mode = options.mode || this.defaultSearchMode;
+    const searchOptions = {
+      queryText: query,
+      queryVector: await this.embedForMode(query, mode),
+      mode,
+      timeRange: options.timeRange,
+      limit: this.multiVideoMaxVideos * (options.topK || this.defaultTopK) * 2,
+    };
+
+    const hits = [
+      ...(await this.lancedbService.searchFrames(searchOptions)),
+      ...(await this.lancedbService.searchEnhancedFrames(searchOptions)),
+    ];
+
+    const bestScores = new Map<string, number>();
+    for (const hit of hits) {
+      const score = hit._relevance ?? 0;
+      if (score > (bestScores.get(hit.videoId) ?? -1)) {
+        bestScores.set(hit.videoId, score);
       }
+    }
 
-      // 2. Classify query to determine relevant aspects
-      const classification = this.classifyQuery(query);
-      this.logger.debug(
-        `Query classified to aspects: ${classification.aspects.join(', ')} (confidence: ${classification.confidence})`,
-      );
+    const videoIds = [...bestScores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.multiVideoMaxVideos)
+      .map(([videoId]) => videoId);
+    this.logger.debug(
+      `Selected ${videoIds.length} of ${bestScores.size} matching videos`,
+    );
 
-      // 3. Embed the query
-      const queryVector = await this.embeddingService.embed(query);
+    const videos = await Promise.all(
+      videoIds.map((videoId) => this.lancedbService.getVideo(videoId)),
+    );
+    return videos.filter(Boolean);
+  }
 
-      // 4. Search enhanced frames with aspect filtering
-      const searchStartTime = Date.now();
-      const relevantFrames = await this.lancedbService.enhancedVectorSearch(
-        queryVector,
+  /**
+   * Get a video record or throw 404
+   */
+  private async getVideoOrThrow(videoId: string): Promise<VideoRecord> {
+    const video = await this.lancedbService.getVideo(videoId);
+    if (!video) {
+      throw new HttpException(
         {
-          videoId,
-          aspectTypes: classification.aspects,
-          limit: k,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Video not found: ${videoId}`,
         },
+        HttpStatus.NOT_FOUND,
       );
-      const searchLatency = Date.now() - searchStartTime;
-      this.logger.debug(
-        `Enhanced search: ${searchLatency}ms, found ${relevantFrames.length} frames`,
-      );
-
-      // If no results with aspect filter, try without filter
-      let finalFrames = relevantFrames;
-      if (relevantFrames.length === 0) {
-        this.logger.debug(
-          'No results with aspect filter, searching all aspects',
-        );
-        finalFrames = await this.lancedbService.enhancedVectorSearch(
-          queryVector,
-          { videoId, limit: k },
-        );
-      }
+    }
+    return video;
+  }
 
-      if (finalFrames.length === 0) {
-        // Fall back to legacy frames
-        const legacyFrames = await this.lancedbService.vectorSearch(
-          queryVector,
-          videoId,
-          k,
-        );
+  /**
+   * Seconds of surrounding frames added around each hit
+   */
+  private contextWindow(options: RAGChatOptions): number {
+    return options.contextWindowSeconds ?? this.defaultContextWindow;
+  }
 
-        if (legacyFrames.length === 0) {
-          return {
-            answer:
-              'No relevant content found in the indexed video for this query.',
-            sources: [],
-            latencyMs: Date.now() - startTime,
-          };
-        }
+  /**
+   * Build the prompt context and moment sources from legacy frame hits
+   */
+  private async legacyRetrieval(
+    hits: FrameSearchResult[],
+    video: VideoRecord,
+    windowSeconds: number,
+    timeRange?: TimeRange,
+  ): Promise<RetrievedContext> {
+    const moments = await buildMoments(
+      hits,
+      windowSeconds,
+      this.momentGapSeconds,
+      timeRange,
+      (videoId, range) => this.lancedbService.getVideoFrames(videoId, range),
+    );
 
-        // Use legacy flow
-        const context = this.buildContext(legacyFrames, video.title);
-        const answer = await this.synthesizeAnswer(query, context);
+    return {
+      context: this.buildContext(moments.flat(), video.title),
+      sources: moments.map((moment) => toMoment(moment, (f) => f.description)),
+      videoTitle: video.title,
+      advanced: false,
+      timeRange,
+    };
+  }
 
-        return {
-          answer: answer.text,
-          sources: legacyFrames.map((f) => ({
-            timestamp: f.timestamp,
-            description: f.description,
-            relevanceScore: f._distance ? 1 - f._distance : undefined,
-          })),
-          tokenUsage: answer.tokenUsage,
-          latencyMs: Date.now() - startTime,
-        };
-      }
+  /**
+   * Build the prompt context and moment sources from enhanced frame hits
+   */
+  private async enhancedRetrieval(
+    hits: EnhancedFrameSearchResult[],
+    video: VideoRecord,
+    windowSeconds: number,
+    timeRange?: TimeRange,
+  ): Promise<RetrievedContext> {
+    const moments = await buildMoments(
+      hits,
+      windowSeconds,
+      this.momentGapSeconds,
+      timeRange,
+      (videoId, range) =>
+        this.lancedbService.getEnhancedVideoFrames(videoId, undefined, range),
+    );
 
-      // 5. Build enhanced context with multi-aspect information
-      const context = this.buildEnhancedContext(finalFrames, video.title);
+    return {
+      context: this.buildEnhancedContext(moments.flat(), video.title),
+      sources: moments.map((moment) => toMoment(moment, (f) => f.content)),
+      videoTitle: video.title,
+      advanced: true,
+      timeRange,
+    };
+  }
 
-      // 6. Synthesize answer with advanced prompt
-      const synthesisStartTime = Date.now();
-      const answer = await this.synthesizeAdvancedAnswer(query, context);
-      const synthesisLatency = Date.now() - synthesisStartTime;
-      this.logger.debug(`Advanced synthesis: ${synthesisLatency}ms`);
+  /**
+   * Response returned when retrieval finds nothing
+   */
+  private emptyResponse(startTime: number): RAGResponse {
+    return {
+      answer: NO_CONTENT_ANSWER,
+      sources: [],
+      latencyMs: Date.now() - startTime,
+    };
+  }
 
-      const totalLatency = Date.now() - startTime;
-      this.logger.log(`Advanced RAG chat completed in ${totalLatency}ms`);
+  /**
+   * Stream an answer: sources first, then text deltas, then token usage and latency
+   * @param signal Stops the generation when aborted
+   */
+  private async *streamAnswer(
+    retrieval: RetrievedContext,
+    generator: TextGenerationProvider,
+    request: TextGenerationRequest,
+    startTime: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<RAGStreamEvent> {
+    yield {
+      type: 'sources',
+      sources: retrieval.sources,
+      expansions: retrieval.expansions,
+    };
 
-      return {
-        answer: answer.text,
-        sources: finalFrames.map((f) => ({
-          timestamp: f.timestamp,
-          description: f.content,
-          aspectType: f.aspectType,
-          relevanceScore: f._distance ? 1 - f._distance : undefined,
-        })),
-        tokenUsage: answer.tokenUsage,
-        latencyMs: totalLatency,
+    if (retrieval.sources.length === 0) {
+      yield { type: 'delta', text: NO_CONTENT_ANSWER };
+      yield {
+        type: 'done',
+        answer: NO_CONTENT_ANSWER,
+        latencyMs: Date.now() - startTime,
       };
-    } catch (error) {
-      if (error instanceof HttpException) {
-        throw error;
-      }
-
-      this.logger.error(
-        `Advanced RAG chat failed: ${error.message}`,
-        error.stack,
-      );
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-          message: `Advanced RAG chat failed: ${error.message}`,
-        },
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
+      return;
     }
-  }
 
-  /**
-   * Classify a query to determine relevant aspects
-   */
-  classifyQuery(query: string): QueryClassification {
-    const queryLower = query.toLowerCase();
-    const matchedAspects: AspectType[] = [];
-    let totalMatches = 0;
+    let answer = '';
+    let tokenUsage: RAGResponse['tokenUsage'];
 
-    // Check each aspect's keywords
-    for (const [aspect, keywords] of Object.entries(ASPECT_KEYWORDS)) {
-      const matches = keywords.filter((kw) => queryLower.includes(kw)).length;
-      if (matches > 0) {
-        matchedAspects.push(aspect as AspectType);
-        totalMatches += matches;
+    for await (const chunk of generator.generateStream({
+      ...request,
+      signal,
+    })) {
+      if (chunk.text) {
+        answer += chunk.text;
+        yield { type: 'delta', text: chunk.text };
       }
-    }
 
-    // If no specific aspects matched, search all
-    if (matchedAspects.length === 0) {
-      return {
-        aspects: ['people', 'objects', 'scene', 'audio', 'action', 'text'],
-        confidence: 0.3,
-      };
+      // The last chunk reporting usage carries the final totals
+      if (chunk.tokenUsage) {
+        tokenUsage = chunk.tokenUsage;
+      }
     }
 
-    // Calculate confidence based on number of matches
-    const confidence = Math.min(totalMatches / 3, 1.0);
+    const latencyMs = Date.now() - startTime;
+    this.logger.log(`Streaming RAG chat completed in ${latencyMs}ms`);
 
-    return {
-      aspects: matchedAspects,
-      confidence,
+    yield {
+      type: 'done',
+      answer: answer || 'Unable to generate response',
+      tokenUsage,
+      latencyMs,
+    };
+  }
+
+  /**
+   * Retrieve the sources chat would answer a question from, without calling
+   * the answer model: no question rewriting, query expansion or synthesis
+   * Used by the retrieval evaluation
+   * @param advanced Search multi-aspect frames as advancedChat does
+   */
+  async retrieve(
+    videoId: string,
+    query: string,
+    options: RAGChatOptions = {},
+    advanced = true,
+  ): Promise<RAGSource[]> {
+    const retrievalOptions: RAGChatOptions = {
+      ...options,
+      history: undefined,
+      expand: false,
     };
+    const retrieval = advanced
+      ? await this.retrieveEnhancedFrames(videoId, query, retrievalOptions)
+      : await this.retrieveFrames(videoId, query, retrievalOptions);
+    return retrieval.sources;
+  }
+
+  /**
+   * Weigh the built-in and custom aspects for a query with the configured
+   * classifier
+   */
+  async classifyQuery(query: string): Promise<QueryClassification> {
+    const classification = await this.queryClassifier.classify(
+      query,
+      await this.customAspectService.list(),
+    );
+    const weights = Object.entries(classification.weights)
+      .map(([aspect, weight]) => `${aspect}=${weight.toFixed(2)}`)
+      .join(', ');
+    this.logger.debug(
+      `Query classified by ${classification.classifier}: ${weights} (confidence: ${classification.confidence.toFixed(2)})`,
+    );
+    return classification;
   }
 
   /**
    * Search across all indexed videos (global search)
    * @param query User's question
    * @param topK Number of frames to retrieve
+   * @param mode Retrieval strategy (default: RAG_SEARCH_MODE)
+   * @param timeRange Only search frames inside this window of video time
+   * @param contextWindowSeconds Add the frames this many seconds around each hit
    */
   async globalSearch(
     query: string,
     topK?: number,
+    mode: SearchMode = this.defaultSearchMode,
+    timeRange?: TimeRange,
+    contextWindowSeconds: number = this.defaultContextWindow,
   ): Promise<{
-    results: Array<{
-      videoId: string;
-      videoTitle: string;
-      timestamp: string;
-      description: string;
-      relevanceScore?: number;
-    }>;
+    results: Array<RAGSource & { videoTitle: string }>;
     latencyMs: number;
   }> {
     const startTime = Date.now();
@@ -526,32 +1468,27 @@ export class RAGChatService {
 
     try {
       // 1. Embed the query
-      const queryVector = await this.embeddingService.embed(query);
+      const queryVector = await this.embedForMode(query, mode);
 
       // 2. Search across all videos
-      const frames = await this.lancedbService.vectorSearch(
+      const frames = await this.lancedbService.searchFrames({
+        queryText: query,
         queryVector,
-        undefined,
-        k,
-      );
+        mode,
+        timeRange,
+        limit: k,
+      });
 
-      // 3. Enrich with video titles
-      const videoCache = new Map<string, string>();
-      const results = await Promise.all(
-        frames.map(async (f) => {
-          if (!videoCache.has(f.videoId)) {
-            const video = await this.lancedbService.getVideo(f.videoId);
-            videoCache.set(f.videoId, video?.title || 'Unknown');
-          }
-
-          return {
-            videoId: f.videoId,
-            videoTitle: videoCache.get(f.videoId) || 'Unknown',
-            timestamp: f.timestamp,
-            description: f.description,
-            relevanceScore: f._distance ? 1 - f._distance : undefined,
-          };
-        }),
+      // 3. Merge hits into moments and enrich with video titles
+      const moments = await buildMoments(
+        frames,
+        contextWindowSeconds,
+        this.momentGapSeconds,
+        timeRange,
+        (videoId, range) => this.lancedbService.getVideoFrames(videoId, range),
+      );
+      const results = await this.withVideoTitles(
+        moments.map((moment) => toMoment(moment, (f) => f.description)),
       );
 
       return {
@@ -581,9 +1518,10 @@ export class RAGChatService {
 
     const frameContext = frames
       .map((f, i) => {
-        const score = f._distance
-          ? `(relevance: ${(1 - f._distance).toFixed(3)})`
-          : '';
+        const score =
+          f._relevance !== undefined
+            ? `(relevance: ${f._relevance.toFixed(3)})`
+            : '';
         return `[${i + 1}] At ${f.timestamp} ${score}:\n${f.description}`;
       })
       .join('\n\n');
@@ -617,9 +1555,10 @@ export class RAGChatService {
       const peopleContent = byAspect['people']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
@@ -631,9 +1570,10 @@ export class RAGChatService {
       const audioContent = byAspect['audio']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
@@ -645,9 +1585,10 @@ export class RAGChatService {
       const objectsContent = byAspect['objects']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
@@ -659,9 +1600,10 @@ export class RAGChatService {
       const sceneContent = byAspect['scene']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
@@ -673,9 +1615,10 @@ export class RAGChatService {
       const textContent = byAspect['text']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
@@ -687,155 +1630,298 @@ export class RAGChatService {
       const actionContent = byAspect['action']
         .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
         .map((f) => {
-          const score = f._distance
-            ? ` (relevance: ${(1 - f._distance).toFixed(2)})`
-            : '';
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
           return `• ${f.content}${score}`;
         })
         .join('\n');
       sections.push(`## ACTIONS & EVENTS\n${actionContent}`);
     }
 
+    // One section per custom aspect, headed by its name
+    for (const [aspectType, aspectFrames] of Object.entries(byAspect)) {
+      if ((ASPECT_TYPES as string[]).includes(aspectType)) {
+        continue;
+      }
+      const customContent = aspectFrames
+        .sort((a, b) => a.timestampSeconds - b.timestampSeconds)
+        .map((f) => {
+          const score =
+            f._relevance !== undefined
+              ? ` (relevance: ${f._relevance.toFixed(2)})`
+              : '';
+          return `• ${f.content}${score}`;
+        })
+        .join('\n');
+      sections.push(
+        `## ${aspectType.replace(/_/g, ' ').toUpperCase()}\n${customContent}`,
+      );
+    }
+
     return header + sections.join('\n\n');
   }
 
   /**
-   * Synthesize answer using Gemini with advanced multi-aspect prompt
+   * Synthesize a prose answer with the answer model
+   */
+  private async synthesizeAnswer(
+    generator: TextGenerationProvider,
+    request: TextGenerationRequest,
+  ): Promise<SynthesizedAnswer> {
+    try {
+      const response = await generator.generate(request);
+
+      return {
+        text: response.text || 'Unable to generate response',
+        tokenUsage: response.tokenUsage,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Synthesis with ${generator.type}/${generator.modelName} failed: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Synthesize a JSON answer whose claims cite sources, then check every
+   * citation against the sources
+   * If the output is not valid JSON, its text is returned with no claims and
+   * a grounding score of 0
+   * @param sources Sources in the context, labelled with labelSources()
    */
-  private async synthesizeAdvancedAnswer(
+  private async synthesizeStructuredAnswer(
+    generator: TextGenerationProvider,
     query: string,
     context: string,
-  ): Promise<{
-    text: string;
-    tokenUsage?: { inputTokens: number; outputTokens: number };
-  }> {
-    const modelsApi = this.geminiService.getModelsApi();
-    const modelName = this.geminiService.getModelName();
-
-    const prompt = `Based on the following comprehensive video content analysis, answer the user's question in detail.
+    sources: RAGSource[],
+    systemInstruction: string,
+    history?: RAGChatTurn[],
+  ): Promise<SynthesizedAnswer> {
+    const prompt = `Based on the following video content, answer the user's question.
 
 ${context}
 
 ---
-
+${this.formatHistorySection(history)}
 User Question: ${query}
 
-Provide a detailed answer using ONLY the information from the context above. Include specific timestamps when relevant.
-
-Answer:`;
+Answer as JSON with the answer and its claims. Cite sources by ID and timestamp, using ONLY the sources above.`;
 
     try {
-      const response = await modelsApi.generateContent({
-        model: modelName,
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: prompt }],
-          },
-        ],
-        config: {
-          systemInstruction: ADVANCED_RAG_SYSTEM_INSTRUCTION,
-          thinkingConfig: {
-            thinkingLevel: ThinkingLevel.MEDIUM, // Medium for better reasoning
-          },
-          maxOutputTokens: 2048, // Allow longer responses for detailed answers
-        },
+      const response = await generator.generate({
+        systemInstruction: systemInstruction + STRUCTURED_ANSWER_RULES,
+        prompt,
+        thinkingLevel: 'medium',
+        responseSchema: STRUCTURED_ANSWER_SCHEMA,
+        maxOutputTokens: 4096,
       });
 
-      const candidate = response.candidates?.[0];
-      let text = '';
+      const tokenUsage = response.tokenUsage;
+      const output = response.text;
 
-      if (candidate?.content?.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.text && !part.thought) {
-            text += part.text;
-          }
-        }
+      let parsed: { answer?: unknown; claims?: unknown };
+      try {
+        parsed = JSON.parse(output);
+      } catch {
+        this.logger.warn('Structured answer was not valid JSON');
+        return {
+          text: output || 'Unable to generate response',
+          tokenUsage,
+          claims: [],
+          groundingScore: 0,
+        };
+      }
+
+      const { claims, groundingScore } = verifyClaims(
+        this.toUncheckedClaims(parsed.claims),
+        sources,
+      );
+      const unverified = claims.flatMap((claim) =>
+        claim.citations.filter((citation) => !citation.verified),
+      );
+      if (unverified.length > 0) {
+        this.logger.warn(
+          `Structured answer has ${unverified.length} unverified citations (grounding score ${groundingScore.toFixed(2)})`,
+        );
       }
 
       return {
-        text: text || 'Unable to generate response',
-        tokenUsage: response.usageMetadata
-          ? {
-              inputTokens: response.usageMetadata.promptTokenCount || 0,
-              outputTokens: response.usageMetadata.candidatesTokenCount || 0,
-            }
-          : undefined,
+        text: String(parsed.answer || '') || 'Unable to generate response',
+        tokenUsage,
+        claims,
+        groundingScore,
       };
     } catch (error) {
-      this.logger.error(`Advanced synthesis failed: ${error.message}`);
+      this.logger.error(`Structured synthesis failed: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * Synthesize answer using Gemini with text-only prompt (legacy)
+   * Claims from parsed model output, skipping malformed entries
    */
-  private async synthesizeAnswer(
+  private toUncheckedClaims(claims: unknown): UncheckedClaim[] {
+    if (!Array.isArray(claims)) {
+      return [];
+    }
+
+    return claims
+      .filter((claim) => claim && typeof claim.text === 'string')
+      .map((claim) => ({
+        text: claim.text,
+        citations: (Array.isArray(claim.citations) ? claim.citations : [])
+          .filter((citation) => citation && citation.sourceId)
+          .map((citation) => ({
+            sourceId: String(citation.sourceId),
+            timestamp: String(citation.timestamp ?? ''),
+          })),
+      }));
+  }
+
+  /**
+   * Give sources the IDs structured answers cite them by (S1, S2, ...)
+   * @param offset Number of sources already labelled (multi-video chat)
+   */
+  private labelSources(sources: RAGSource[], offset: number = 0): RAGSource[] {
+    return sources.map((source, i) => ({
+      sourceId: `S${offset + i + 1}`,
+      ...source,
+    }));
+  }
+
+  /**
+   * Prompt context listing each labelled source with its time range and
+   * timestamped frames, so citations can name the supporting frame
+   */
+  private buildSourceContext(videoTitle: string, sources: RAGSource[]): string {
+    const header = `Video: "${videoTitle}"\n\nSources:\n`;
+
+    const sourceContext = sources
+      .map((source) => {
+        const frames = source.frames.map((frame) =>
+          // Enhanced frame texts already start with "At MM:SS:"
+          frame.description.startsWith(`At ${frame.timestamp}`)
+            ? frame.description
+            : `At ${frame.timestamp}: ${frame.description}`,
+        );
+        return `[${source.sourceId}] ${source.timestamp}-${source.endTimestamp}:\n${frames.join('\n')}`;
+      })
+      .join('\n\n');
+
+    return header + sourceContext;
+  }
+
+  /**
+   * Build the request for answering across several videos, citing video and timestamp
+   */
+  private buildMultiVideoSynthesisRequest(
     query: string,
     context: string,
-  ): Promise<{
-    text: string;
-    tokenUsage?: { inputTokens: number; outputTokens: number };
-  }> {
-    const modelsApi = this.geminiService.getModelsApi();
-    const modelName = this.geminiService.getModelName();
-
-    const prompt = `Based on the following video content context, answer the user's question.
+  ): TextGenerationRequest {
+    const prompt = `Based on the following content from several videos, answer the user's question.
 
 ${context}
 
 ---
+User Question: ${query}
+
+Answer using ONLY the context above. Cite sources as [Video Title @ MM:SS].
+
+Answer:`;
+
+    return {
+      systemInstruction: MULTI_VIDEO_RAG_SYSTEM_INSTRUCTION,
+      prompt,
+      thinkingLevel: 'medium',
+      maxOutputTokens: 2048,
+    };
+  }
+
+  /**
+   * Build the request for advanced multi-aspect synthesis
+   */
+  private buildAdvancedSynthesisRequest(
+    query: string,
+    context: string,
+    history?: RAGChatTurn[],
+  ): TextGenerationRequest {
+    const prompt = `Based on the following comprehensive video content analysis, answer the user's question in detail.
 
+${context}
+
+---
+${this.formatHistorySection(history)}
 User Question: ${query}
 
+Provide a detailed answer using ONLY the information from the context above. Include specific timestamps when relevant.
+
 Answer:`;
 
-    try {
-      const response = await modelsApi.generateContent({
-        model: modelName,
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: prompt }],
-          },
-        ],
-        config: {
-          systemInstruction: RAG_SYSTEM_INSTRUCTION,
-          // Use LOW thinking level for fast responses
-          thinkingConfig: {
-            thinkingLevel: ThinkingLevel.LOW,
-          },
-          // Limit output length for speed
-          maxOutputTokens: 1024,
-        },
-      });
+    return {
+      systemInstruction: ADVANCED_RAG_SYSTEM_INSTRUCTION,
+      prompt,
+      thinkingLevel: 'medium', // Medium for better reasoning
+      maxOutputTokens: 2048, // Allow longer responses for detailed answers
+    };
+  }
+
+  /**
+   * Build the request for text-only synthesis (legacy)
+   */
+  private buildSynthesisRequest(
+    query: string,
+    context: string,
+    history?: RAGChatTurn[],
+  ): TextGenerationRequest {
+    const prompt = `Based on the following video content context, answer the user's question.
 
-      // Extract text from response
-      const candidate = response.candidates?.[0];
-      let text = '';
+${context}
 
-      if (candidate?.content?.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.text && !part.thought) {
-            text += part.text;
-          }
-        }
-      }
+---
+${this.formatHistorySection(history)}
+User Question: ${query}
 
-      return {
-        text: text || 'Unable to generate response',
-        tokenUsage: response.usageMetadata
-          ? {
-              inputTokens: response.usageMetadata.promptTokenCount || 0,
-              outputTokens: response.usageMetadata.candidatesTokenCount || 0,
-            }
-          : undefined,
-      };
-    } catch (error) {
-      this.logger.error(`Synthesis failed: ${error.message}`);
-      throw error;
+Answer:`;
+
+    return {
+      systemInstruction: RAG_SYSTEM_INSTRUCTION,
+      prompt,
+      // Use LOW thinking level for fast responses
+      thinkingLevel: 'low',
+      // Limit output length for speed
+      maxOutputTokens: 1024,
+    };
+  }
+
+  /**
+   * Conversation section for synthesis prompts (empty for single questions)
+   * Lets the model resolve references like "she" or "after that"
+   */
+  private formatHistorySection(history?: RAGChatTurn[]): string {
+    if (!history || history.length === 0) {
+      return '';
+    }
+    return `\n${this.formatHistory(history)}\n\n---\n`;
+  }
+
+  /**
+   * Answer model for a request: the configured one unless the request picks
+   * another backend or model
+   */
+  private generatorFor(options: RAGChatOptions): TextGenerationProvider {
+    const provider = options.llmProvider ?? this.textGenerationProvider.type;
+    if (provider === this.textGenerationProvider.type && !options.llmModel) {
+      return this.textGenerationProvider;
     }
+
+    return createTextGenerationProvider(
+      { provider, model: options.llmModel },
+      this.configService,
+      this.geminiService,
+    );
   }
 
   /**
@@ -882,48 +1968,56 @@ Answer:`;
     query: string,
     videoId?: string,
     topK?: number,
-  ): Promise<
-    Array<{
-      timestamp: string;
-      content: string;
-      aspectType?: AspectType;
-      relevanceScore?: number;
-      videoId: string;
-    }>
-  > {
+    mode: SearchMode = this.defaultSearchMode,
+  ): Promise<RAGSource[]> {
     const k = topK || this.defaultTopK;
 
     // Embed the query
-    const queryVector = await this.embeddingService.embed(query);
+    const queryVector = await this.embedForMode(query, mode);
+    const searchOptions = {
+      queryText: query,
+      queryVector,
+      mode,
+      videoId,
+      limit: k,
+    };
 
     // Try enhanced search first
-    const enhancedResults = await this.lancedbService.enhancedVectorSearch(
-      queryVector,
-      { videoId, limit: k },
-    );
+    const enhancedResults =
+      await this.lancedbService.searchEnhancedFrames(searchOptions);
 
     if (enhancedResults.length > 0) {
-      return enhancedResults.map((f) => ({
-        timestamp: f.timestamp,
-        content: f.content,
-        aspectType: f.aspectType,
-        relevanceScore: f._distance ? 1 - f._distance : undefined,
-        videoId: f.videoId,
-      }));
+      return groupIntoMoments(enhancedResults, this.momentGapSeconds).map(
+        (moment) => toMoment(moment, (f) => f.content),
+      );
     }
 
     // Fall back to legacy search
-    const legacyResults = await this.lancedbService.vectorSearch(
-      queryVector,
-      videoId,
-      k,
+    const legacyResults = await this.lancedbService.searchFrames(searchOptions);
+
+    return groupIntoMoments(legacyResults, this.momentGapSeconds).map(
+      (moment) => toMoment(moment, (f) => f.description),
     );
+  }
 
-    return legacyResults.map((f) => ({
-      timestamp: f.timestamp,
-      content: f.description,
-      relevanceScore: f._distance ? 1 - f._distance : undefined,
-      videoId: f.videoId,
+  /**
+   * Add the title of each source's video
+   */
+  private async withVideoTitles(
+    sources: RAGSource[],
+  ): Promise<Array<RAGSource & { videoTitle: string }>> {
+    const titles = new Map<string, string>();
+
+    for (const source of sources) {
+      if (!titles.has(source.videoId)) {
+        const video = await this.lancedbService.getVideo(source.videoId);
+        titles.set(source.videoId, video?.title || 'Unknown');
+      }
+    }
+
+    return sources.map((source) => ({
+      ...source,
+      videoTitle: titles.get(source.videoId),
     }));
   }
 
@@ -933,15 +2027,11 @@ Answer:`;
   async advancedGlobalSearch(
     query: string,
     topK?: number,
+    mode: SearchMode = this.defaultSearchMode,
+    timeRange?: TimeRange,
+    contextWindowSeconds: number = this.defaultContextWindow,
   ): Promise<{
-    results: Array<{
-      videoId: string;
-      videoTitle: string;
-      timestamp: string;
-      content: string;
-      aspectType?: AspectType;
-      relevanceScore?: number;
-    }>;
+    results: Array<RAGSource & { videoTitle: string }>;
     aspectDistribution: Record<string, number>;
     latencyMs: number;
   }> {
@@ -952,35 +2042,32 @@ Answer:`;
 
     try {
       // Classify query to focus search
-      const classification = this.classifyQuery(query);
+      const classification = await this.classifyQuery(query);
 
       // Embed query
-      const queryVector = await this.embeddingService.embed(query);
+      const queryVector = await this.embedForMode(query, mode);
 
       // Search enhanced frames
-      const frames = await this.lancedbService.enhancedVectorSearch(
+      const frames = await this.lancedbService.searchEnhancedFrames({
+        queryText: query,
         queryVector,
-        { aspectTypes: classification.aspects, limit: k },
-      );
+        mode,
+        aspectWeights: classification.weights,
+        timeRange,
+        limit: k,
+      });
 
-      // Get video titles
-      const videoCache = new Map<string, string>();
-      const results = await Promise.all(
-        frames.map(async (f) => {
-          if (!videoCache.has(f.videoId)) {
-            const video = await this.lancedbService.getVideo(f.videoId);
-            videoCache.set(f.videoId, video?.title || 'Unknown');
-          }
-
-          return {
-            videoId: f.videoId,
-            videoTitle: videoCache.get(f.videoId) || 'Unknown',
-            timestamp: f.timestamp,
-            content: f.content,
-            aspectType: f.aspectType,
-            relevanceScore: f._distance ? 1 - f._distance : undefined,
-          };
-        }),
+      // Merge hits into moments and get video titles
+      const moments = await buildMoments(
+        frames,
+        contextWindowSeconds,
+        this.momentGapSeconds,
+        timeRange,
+        (videoId, range) =>
+          this.lancedbService.getEnhancedVideoFrames(videoId, undefined, range),
+      );
+      const results = await this.withVideoTitles(
+        moments.map((moment) => toMoment(moment, (f) => f.content)),
       );
 
       // Calculate aspect distribution
@@ -0,0 +1,123 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RAGChatOptions, RAGResponse } from './interfaces';
+import { LanceDBService } from './lancedb.service';
+import { RAGChatService } from './rag-chat.service';
+import { RAGSessionService } from './rag-session.service';
+
+// uuid ships as ES modules only, which jest does not load
+jest.mock('uuid', () => ({
+  v4: () => jest.requireActual('crypto').randomUUID(),
+}));
+
+function answer(text: string): RAGResponse {
+  return {
+    answer: text,
+    sources: [],
+    standaloneQuery: `standalone ${text}`,
+  } as unknown as RAGResponse;
+}
+
+describe('RAGSessionService', () => {
+  let dir: string;
+  let service: RAGSessionService;
+  let histories: RAGChatOptions['history'][];
+  let delays: number[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'deepcap-sessions-'));
+    histories = [];
+    delays = [];
+
+    const reply = async (_videoId: string, query: string, options) => {
+      histories.push(options.history);
+      await new Promise((resolve) => setTimeout(resolve, delays.shift() ?? 0));
+      return answer(`answer to ${query}`);
+    };
+    const ragChatService = { chat: reply, advancedChat: reply };
+    const lancedbService = {
+      getVideo: async (id: string) => (id === 'v1' ? { id } : null),
+    };
+
+    service = new RAGSessionService(
+      ragChatService as unknown as RAGChatService,
+      lancedbService as unknown as LanceDBService,
+      new ConfigService({ RAG_SESSIONS_PATH: dir }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses sessions for unknown videos', async () => {
+    await expect(service.createSession('missing')).rejects.toThrow(
+      HttpException,
+    );
+  });
+
+  it('passes the earlier messages as history and stores the new turn', async () => {
+    const session = await service.createSession('v1', 'basic');
+
+    await service.sendMessage(session.id, 'first');
+    await service.sendMessage(session.id, 'second');
+
+    expect(histories[0]).toEqual([]);
+    expect(histories[1]).toEqual([
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'answer to first' },
+    ]);
+
+    const stored = await service.getSession(session.id);
+    expect(stored.messages.map((message) => message.content)).toEqual([
+      'first',
+      'answer to first',
+      'second',
+      'answer to second',
+    ]);
+    expect(stored.messages[0].standaloneQuery).toBe(
+      'standalone answer to first',
+    );
+  });
+
+  it('answers concurrent messages of a session one at a time', async () => {
+    const session = await service.createSession('v1');
+    // The first answer is slower; the second must still see it as history
+    delays.push(50, 0);
+
+    await Promise.all([
+      service.sendMessage(session.id, 'first'),
+      service.sendMessage(session.id, 'second'),
+    ]);
+
+    expect(histories[1]).toHaveLength(2);
+    expect(
+      (await service.getSession(session.id)).messages.map((m) => m.content),
+    ).toEqual(['first', 'answer to first', 'second', 'answer to second']);
+  });
+
+  it('lists sessions by video, most recently active first', async () => {
+    const older = await service.createSession('v1');
+    const newer = await service.createSession('v1');
+    delays.push(5);
+    await service.sendMessage(newer.id, 'hello');
+
+    const sessions = await service.listSessions('v1');
+    expect(sessions.map((session) => session.id)).toEqual([newer.id, older.id]);
+    expect(await service.listSessions('v2')).toEqual([]);
+  });
+
+  it('deletes sessions and reports unknown ones', async () => {
+    const session = await service.createSession('v1');
+
+    await service.deleteSession(session.id);
+
+    await expect(service.getSession(session.id)).rejects.toThrow(HttpException);
+    await expect(service.deleteSession(session.id)).rejects.toThrow(
+      HttpException,
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { RAGChatService } from './rag-chat.service';
+import { LanceDBService } from './lancedb.service';
+import { JsonFileStore } from '../common/storage';
+import {
+  RAGChatSession,
+  RAGChatType,
+  RAGResponse,
+  RAGChatTurn,
+  RAGChatOptions,
+} from './interfaces';
+
+/**
+ * Service for multi-turn RAG conversations over an indexed video
+ * Sessions are persisted so follow-up questions can be resolved against prior turns
+ */
+@Injectable()
+export class RAGSessionService {
+  private readonly logger = new Logger(RAGSessionService.name);
+  private readonly store: JsonFileStore<RAGChatSession>;
+
+  constructor(
+    private readonly ragChatService: RAGChatService,
+    private readonly lancedbService: LanceDBService,
+    private readonly configService: ConfigService,
+  ) {
+    this.store = new JsonFileStore<RAGChatSession>(
+      this.configService.get<string>(
+        'RAG_SESSIONS_PATH',
+        './data/rag-sessions',
+      ),
+    );
+  }
+
+  /**
+   * Start a new conversation about an indexed video
+   */
+  async createSession(
+    videoId: string,
+    chatType: RAGChatType = 'advanced',
+  ): Promise<RAGChatSession> {
+    const video = await this.lancedbService.getVideo(videoId);
+    if (!video) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Video not found: ${videoId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const session: RAGChatSession = {
+      id: uuidv4(),
+      videoId,
+      chatType,
+      messages: [],
+      createdAt: now,
+      lastActivityAt: now,
+    };
+
+    await this.store.write(session.id, session);
+    this.logger.log(`RAG chat session created: ${session.id} (${videoId})`);
+
+    return session;
+  }
+
+  /**
+   * Ask a question in a session
+   * Follow-ups are rewritten into standalone queries using the prior turns
+   */
+  async sendMessage(
+    sessionId: string,
+    query: string,
+    options: Omit<RAGChatOptions, 'history'> = {},
+  ): Promise<RAGResponse> {
+    // Messages in the same session are processed one at a time so turns stay ordered
+    return this.store.withLock(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      const history: RAGChatTurn[] = session.messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+      }));
+
+      const chatOptions = { ...options, history };
+      const response =
+        session.chatType === 'advanced'
+          ? await this.ragChatService.advancedChat(
+              session.videoId,
+              query,
+              chatOptions,
+            )
+          : await this.ragChatService.chat(session.videoId, query, chatOptions);
+
+      const now = new Date().toISOString();
+      session.messages.push(
+        {
+          role: 'user',
+          content: query,
+          standaloneQuery: response.standaloneQuery,
+          createdAt: now,
+        },
+        {
+          role: 'assistant',
+          content: response.answer,
+          sources: response.sources,
+          createdAt: now,
+        },
+      );
+      session.lastActivityAt = now;
+      await this.store.write(session.id, session);
+
+      return response;
+    });
+  }
+
+  /**
+   * Get a session by ID, including its messages
+   */
+  async getSession(sessionId: string): Promise<RAGChatSession> {
+    const session = await this.store.read(sessionId);
+    if (!session) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `RAG chat session not found: ${sessionId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return session;
+  }
+
+  /**
+   * List sessions, most recently active first, optionally for one video
+   */
+  async listSessions(videoId?: string): Promise<RAGChatSession[]> {
+    const sessions = await this.store.list();
+    return sessions
+      .filter((session) => !videoId || session.videoId === videoId)
+      .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+  }
+
+  /**
+   * Delete a session
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    // Behind any message in progress, which would write the session again
+    await this.store.withLock(sessionId, async () => {
+      await this.getSession(sessionId);
+      await this.store.delete(sessionId);
+    });
+    this.logger.log(`RAG chat session deleted: ${sessionId}`);
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Types for the transformers.js tokenizer and model
+type Tokenizer = any;
+type SequenceClassificationModel = any;
+
+/**
+ * Service for re-ranking retrieved passages with a local cross-encoder
+ * Uses Xenova/ms-marco-MiniLM-L-6-v2 by default; the model is loaded on first use
+ */
+@Injectable()
+export class RerankerService {
+  private readonly logger = new Logger(RerankerService.name);
+  private readonly modelName: string;
+  private tokenizer: Tokenizer;
+  private model: SequenceClassificationModel;
+  private loading: Promise<void> | null = null;
+  private isReady = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.modelName = this.configService.get<string>(
+      'RERANKER_MODEL',
+      'Xenova/ms-marco-MiniLM-L-6-v2',
+    );
+  }
+
+  /**
+   * Re-score candidates against the query and keep the best K
+   * The cross-encoder score (0-1) replaces each candidate's `_relevance`
+   * @param query User's question
+   * @param candidates First-stage retrieval results
+   * @param getText Text of a candidate to score against the query
+   * @param topK Number of candidates to keep
+   */
+  async rerank<T extends { _relevance?: number }>(
+    query: string,
+    candidates: T[],
+    getText: (candidate: T) => string,
+    topK: number,
+  ): Promise<T[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    await this.ensureLoaded();
+    const startTime = Date.now();
+
+    try {
+      const inputs = this.tokenizer(new Array(candidates.length).fill(query), {
+        text_pair: candidates.map(getText),
+        padding: true,
+        truncation: true,
+      });
+
+      const { logits } = await this.model(inputs);
+      const scores = (logits.sigmoid().tolist() as number[][]).map(
+        ([score]) => score,
+      );
+
+      const reranked = candidates
+        .map((candidate, i) => ({ ...candidate, _relevance: scores[i] }))
+        .sort((a, b) => b._relevance - a._relevance)
+        .slice(0, topK);
+
+      this.logger.debug(
+        `Re-ranked ${candidates.length} candidates in ${Date.now() - startTime}ms`,
+      );
+
+      return reranked;
+    } catch (error) {
+      this.logger.error(`Re-ranking failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the cross-encoder model has been loaded
+   */
+  isInitialized(): boolean {
+    return this.isReady;
+  }
+
+  /**
+   * Get the model name being used
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Load the tokenizer and model once; concurrent callers share the same load
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch((error) => {
+        // Allow a later request to retry the download
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    this.logger.log(`Loading re-ranker model: ${this.modelName}...`);
+
+    try {
+      // Dynamic import for ESM compatibility
+      const { AutoTokenizer, AutoModelForSequenceClassification } =
+        await import('@huggingface/transformers');
+
+      this.tokenizer = await AutoTokenizer.from_pretrained(this.modelName);
+      this.model = await AutoModelForSequenceClassification.from_pretrained(
+        this.modelName,
+        {
+          dtype: 'fp32',
+          // Use CPU for compatibility
+          device: 'cpu',
+        },
+      );
+
+      this.isReady = true;
+      this.logger.log(`Re-ranker model loaded successfully: ${this.modelName}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to load re-ranker model: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
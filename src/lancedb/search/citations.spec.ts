@@ -0,0 +1,99 @@
+import { RAGSource } from '../interfaces';
+import { verifyClaims } from './citations';
+
+function source(
+  sourceId: string,
+  startTime: number,
+  endTime: number,
+): RAGSource {
+  return {
+    sourceId,
+    videoId: 'v1',
+    timestamp: String(startTime),
+    endTimestamp: String(endTime),
+    startTime,
+    endTime,
+    description: sourceId,
+    frames: [],
+  };
+}
+
+describe('verifyClaims', () => {
+  const sources = [source('S1', 60, 90), source('S2', 3600, 3620)];
+
+  it('verifies citations inside the moment of a retrieved source', () => {
+    const { claims } = verifyClaims(
+      [
+        {
+          text: 'claim',
+          citations: [
+            { sourceId: 'S1', timestamp: '01:00' },
+            { sourceId: 'S1', timestamp: '1:30' },
+            { sourceId: 'S2', timestamp: '1:00:10' },
+          ],
+        },
+      ],
+      sources,
+    );
+
+    expect(claims[0].citations.map((c) => c.verified)).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(claims[0].grounded).toBe(true);
+  });
+
+  it('rejects citations outside the moment, of unknown sources or malformed', () => {
+    const { claims } = verifyClaims(
+      [
+        {
+          text: 'claim',
+          citations: [
+            { sourceId: 'S1', timestamp: '01:31' },
+            { sourceId: 'S9', timestamp: '01:10' },
+            { sourceId: 'S1', timestamp: '70' },
+            { sourceId: 'S1', timestamp: 'around 1:10' },
+          ],
+        },
+      ],
+      sources,
+    );
+
+    expect(claims[0].citations.every((c) => !c.verified)).toBe(true);
+    expect(claims[0].grounded).toBe(false);
+  });
+
+  it('scores grounding as the share of claims with a verified citation', () => {
+    const result = verifyClaims(
+      [
+        { text: 'a', citations: [{ sourceId: 'S1', timestamp: '01:05' }] },
+        {
+          text: 'b',
+          citations: [
+            { sourceId: 'S2', timestamp: '00:10' },
+            { sourceId: 'S2', timestamp: '1:00:05' },
+          ],
+        },
+        { text: 'c', citations: [{ sourceId: 'S2', timestamp: '00:10' }] },
+        { text: 'd', citations: [] },
+      ],
+      sources,
+    );
+
+    expect(result.claims.map((claim) => claim.grounded)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+    expect(result.groundingScore).toBe(0.5);
+  });
+
+  it('scores an answer without claims as ungrounded', () => {
+    expect(verifyClaims([], sources)).toEqual({
+      claims: [],
+      groundingScore: 0,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { parseTimestampSeconds } from '../../gemini/segmentation';
+import { RAGClaim, RAGSource } from '../interfaces';
+
+const TIMESTAMP_PATTERN = /^\d{1,2}:\d{2}(?::\d{2})?$/;
+
+/**
+ * Claim as returned by the model, before its citations are checked
+ */
+export interface UncheckedClaim {
+  text: string;
+  citations: Array<{ sourceId: string; timestamp: string }>;
+}
+
+/**
+ * Check every citation against the retrieved sources
+ * A citation is verified when its source was retrieved and its timestamp lies
+ * within that source's moment. A claim is grounded when at least one of its
+ * citations is verified; the grounding score is the share of grounded claims
+ * (0 when there are no claims, since nothing in the answer is grounded)
+ */
+export function verifyClaims(
+  claims: UncheckedClaim[],
+  sources: RAGSource[],
+): { claims: RAGClaim[]; groundingScore: number } {
+  const sourcesById = new Map(
+    sources.map((source) => [source.sourceId, source]),
+  );
+
+  const checked = claims.map((claim) => {
+    const citations = claim.citations.map(({ sourceId, timestamp }) => {
+      const source = sourcesById.get(sourceId);
+      const seconds = TIMESTAMP_PATTERN.test(timestamp)
+        ? parseTimestampSeconds(timestamp)
+        : undefined;
+
+      return {
+        sourceId,
+        timestamp,
+        verified:
+          source !== undefined &&
+          seconds !== undefined &&
+          seconds >= source.startTime &&
+          seconds <= source.endTime,
+      };
+    });
+
+    return {
+      text: claim.text,
+      citations,
+      grounded: citations.some((citation) => citation.verified),
+    };
+  });
+
+  return {
+    claims: checked,
+    groundingScore:
+      checked.length > 0
+        ? checked.filter((claim) => claim.grounded).length / checked.length
+        : 0,
+  };
+}
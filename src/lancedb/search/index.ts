@@ -0,0 +1,5 @@
+export * from './rank-fusion';
+export * from './temporal-query';
+export * from './moments';
+export * from './citations';
+export * from './retrieval-metrics';
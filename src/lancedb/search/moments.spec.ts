@@ -0,0 +1,190 @@
+import { TimeRange } from '../interfaces';
+import { buildMoments, groupIntoMoments, MomentRow, toMoment } from './moments';
+
+function row(
+  id: string,
+  timestampSeconds: number,
+  overrides: Partial<MomentRow> = {},
+): MomentRow {
+  return {
+    id,
+    videoId: 'v1',
+    timestamp: `00:${String(timestampSeconds).padStart(2, '0')}`,
+    timestampSeconds,
+    ...overrides,
+  };
+}
+
+const ids = (moments: MomentRow[][]) =>
+  moments.map((moment) => moment.map((r) => r.id));
+
+describe('groupIntoMoments', () => {
+  it('splits runs where the gap between rows exceeds gapSeconds', () => {
+    const moments = groupIntoMoments(
+      [row('a', 0), row('b', 5), row('c', 10), row('d', 21)],
+      5,
+    );
+
+    expect(ids(moments)).toEqual([['a', 'b', 'c'], ['d']]);
+  });
+
+  it('never merges rows of different videos', () => {
+    const moments = groupIntoMoments(
+      [row('a', 0), row('b', 1, { videoId: 'v2' })],
+      10,
+    );
+
+    expect(ids(moments)).toEqual([['a'], ['b']]);
+  });
+
+  it('keeps a row once, preferring the scored copy', () => {
+    const moments = groupIntoMoments(
+      [row('a', 0), row('a', 0, { _relevance: 0.4 }), row('a', 0)],
+      10,
+    );
+
+    expect(moments).toEqual([[row('a', 0, { _relevance: 0.4 })]]);
+  });
+
+  it('orders runs by their best score, unscored runs last in time order', () => {
+    const moments = groupIntoMoments(
+      [
+        row('a', 0),
+        row('b', 30, { _relevance: 0.2 }),
+        row('c', 60),
+        row('d', 90, { _relevance: 0.9 }),
+        row('e', 120),
+      ],
+      5,
+    );
+
+    expect(ids(moments)).toEqual([['d'], ['b'], ['a'], ['c'], ['e']]);
+  });
+});
+
+describe('toMoment', () => {
+  it('spans the run and keeps the best score, aspects and expansions', () => {
+    const source = toMoment(
+      [
+        row('a', 3, { aspectType: 'scene', _expansions: [2, 0] }),
+        row('b', 5, { _relevance: 0.3 }),
+        row('c', 8, {
+          aspectType: 'scene',
+          _relevance: 0.7,
+          _expansions: [0],
+        }),
+      ],
+      (r) => `text ${r.id}`,
+    );
+
+    expect(source).toMatchObject({
+      videoId: 'v1',
+      timestamp: '00:03',
+      endTimestamp: '00:08',
+      startTime: 3,
+      endTime: 8,
+      description: 'text a\ntext b\ntext c',
+      aspectTypes: ['scene'],
+      relevanceScore: 0.7,
+      expansions: [0, 2],
+    });
+    expect(source.frames.map((frame) => frame.relevanceScore)).toEqual([
+      undefined,
+      0.3,
+      0.7,
+    ]);
+  });
+
+  it('leaves optional fields out when no row has them', () => {
+    const source = toMoment([row('a', 3)], (r) => r.id);
+
+    expect(source.aspectTypes).toBeUndefined();
+    expect(source.relevanceScore).toBeUndefined();
+    expect(source.expansions).toBeUndefined();
+  });
+});
+
+describe('buildMoments', () => {
+  const frames = Array.from({ length: 60 }, (_, i) => row(`f${i}`, i));
+
+  function lookupFrames() {
+    const ranges: TimeRange[] = [];
+    const lookup = async (videoId: string, range: TimeRange) => {
+      ranges.push(range);
+      return frames.filter(
+        (frame) =>
+          frame.videoId === videoId &&
+          frame.timestampSeconds >= (range.startTime ?? 0) &&
+          frame.timestampSeconds <= (range.endTime ?? Infinity),
+      );
+    };
+
+    return { ranges, lookup };
+  }
+
+  it('groups the hits alone without a window', async () => {
+    const { ranges, lookup } = lookupFrames();
+    const moments = await buildMoments(
+      [row('f10', 10), row('f30', 30)],
+      0,
+      10,
+      undefined,
+      lookup,
+    );
+
+    expect(ids(moments)).toEqual([['f10'], ['f30']]);
+    expect(ranges).toEqual([]);
+  });
+
+  it('adds the rows around each hit and keeps the hit scores', async () => {
+    const { lookup } = lookupFrames();
+    const moments = await buildMoments(
+      [row('f10', 10, { _relevance: 0.5 }), row('f40', 40)],
+      2,
+      1,
+      undefined,
+      lookup,
+    );
+
+    expect(ids(moments)).toEqual([
+      ['f8', 'f9', 'f10', 'f11', 'f12'],
+      ['f38', 'f39', 'f40', 'f41', 'f42'],
+    ]);
+    expect(moments[0][2]._relevance).toBe(0.5);
+  });
+
+  it('looks up hits with overlapping windows together', async () => {
+    const { ranges, lookup } = lookupFrames();
+    const moments = await buildMoments(
+      [row('f10', 10), row('f13', 13)],
+      2,
+      1,
+      undefined,
+      lookup,
+    );
+
+    expect(ranges).toEqual([{ startTime: 8, endTime: 15 }]);
+    expect(moments).toHaveLength(1);
+  });
+
+  it('keeps the windows inside the requested range', async () => {
+    const { ranges, lookup } = lookupFrames();
+    await buildMoments(
+      [row('f1', 1), row('f29', 29)],
+      5,
+      1,
+      { startTime: 0, endTime: 30 },
+      lookup,
+    );
+
+    expect(ranges).toEqual([
+      { startTime: 0, endTime: 6 },
+      { startTime: 24, endTime: 30 },
+    ]);
+
+    ranges.length = 0;
+    await buildMoments([row('f22', 22)], 5, 1, { startTime: 20 }, lookup);
+
+    expect(ranges).toEqual([{ startTime: 20, endTime: 27 }]);
+  });
+});
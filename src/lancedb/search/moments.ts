@@ -0,0 +1,136 @@
+import { AspectType, RAGSource, TimeRange } from '../interfaces';
+
+/**
+ * Frame row that can be merged into a moment
+ */
+export interface MomentRow {
+  id: string;
+  videoId: string;
+  timestamp: string;
+  timestampSeconds: number;
+  aspectType?: AspectType;
+  _relevance?: number;
+  /** Queries that found the row, when several were fused (see fuseQueryRankings) */
+  _expansions?: number[];
+}
+
+/**
+ * Split rows into runs of the same video whose neighbouring rows are at most
+ * `gapSeconds` apart
+ * Rows sharing an ID are kept once, preferring the scored copy. Runs come
+ * best-scoring first (unscored runs keep time order), rows in time order
+ */
+export function groupIntoMoments<T extends MomentRow>(
+  rows: T[],
+  gapSeconds: number,
+): T[][] {
+  const unique = new Map<string, T>();
+  for (const row of rows) {
+    const kept = unique.get(row.id);
+    if (
+      !kept ||
+      (kept._relevance === undefined && row._relevance !== undefined)
+    ) {
+      unique.set(row.id, row);
+    }
+  }
+
+  const sorted = [...unique.values()].sort(
+    (a, b) =>
+      a.videoId.localeCompare(b.videoId) ||
+      a.timestampSeconds - b.timestampSeconds,
+  );
+
+  const moments: T[][] = [];
+  for (const row of sorted) {
+    const current = moments[moments.length - 1];
+    const last = current?.[current.length - 1];
+
+    if (
+      last &&
+      last.videoId === row.videoId &&
+      row.timestampSeconds - last.timestampSeconds <= gapSeconds
+    ) {
+      current.push(row);
+    } else {
+      moments.push([row]);
+    }
+  }
+
+  const bestScore = (moment: T[]) =>
+    Math.max(-1, ...moment.map((row) => row._relevance ?? -1));
+  return moments.sort((a, b) => bestScore(b) - bestScore(a));
+}
+
+/**
+ * Merge hits into moments, first adding every row (of any aspect) within
+ * `windowSeconds` of a hit, without leaving `within`
+ */
+export async function buildMoments<T extends MomentRow>(
+  hits: T[],
+  windowSeconds: number,
+  gapSeconds: number,
+  within: TimeRange | undefined,
+  lookup: (videoId: string, timeRange: TimeRange) => Promise<T[]>,
+): Promise<T[][]> {
+  if (windowSeconds <= 0) {
+    return groupIntoMoments(hits, gapSeconds);
+  }
+
+  // Hits whose windows overlap are looked up together
+  const neighbors = await Promise.all(
+    groupIntoMoments(hits, windowSeconds * 2).map((group) => {
+      const start = group[0].timestampSeconds - windowSeconds;
+      const end = group[group.length - 1].timestampSeconds + windowSeconds;
+
+      return lookup(group[0].videoId, {
+        startTime: Math.max(within?.startTime ?? 0, start),
+        endTime:
+          within?.endTime !== undefined ? Math.min(within.endTime, end) : end,
+      });
+    }),
+  );
+
+  return groupIntoMoments(
+    [...hits, ...neighbors.flat()],
+    Math.max(gapSeconds, windowSeconds * 2),
+  );
+}
+
+/**
+ * Describe a run of rows as a response source
+ */
+export function toMoment<T extends MomentRow>(
+  rows: T[],
+  getText: (row: T) => string,
+): RAGSource {
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const scores = rows
+    .map((row) => row._relevance)
+    .filter((score): score is number => score !== undefined);
+  const aspectTypes = [
+    ...new Set(rows.map((row) => row.aspectType).filter(Boolean)),
+  ];
+  const expansions = [
+    ...new Set(rows.flatMap((row) => row._expansions ?? [])),
+  ].sort((a, b) => a - b);
+
+  return {
+    videoId: first.videoId,
+    timestamp: first.timestamp,
+    endTimestamp: last.timestamp,
+    startTime: first.timestampSeconds,
+    endTime: last.timestampSeconds,
+    description: rows.map(getText).join('\n'),
+    aspectTypes: aspectTypes.length > 0 ? aspectTypes : undefined,
+    relevanceScore: scores.length > 0 ? Math.max(...scores) : undefined,
+    expansions: expansions.length > 0 ? expansions : undefined,
+    frames: rows.map((row) => ({
+      timestamp: row.timestamp,
+      description: getText(row),
+      aspectType: row.aspectType,
+      relevanceScore: row._relevance,
+    })),
+  };
+}
@@ -0,0 +1,68 @@
+import { fuseQueryRankings, reciprocalRankFusion, RRF_K } from './rank-fusion';
+
+interface Row {
+  id: string;
+  _relevance?: number;
+  _distance?: number;
+  _score?: number;
+  _expansions?: number[];
+}
+
+const ranking = (...ids: string[]): Row[] => ids.map((id) => ({ id }));
+
+describe('reciprocalRankFusion', () => {
+  it('ranks rows found high in several lists first', () => {
+    const fused = reciprocalRankFusion(
+      [ranking('a', 'b', 'c'), ranking('b', 'd', 'c')],
+      10,
+    );
+
+    expect(fused.map((row) => row.id)).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('scores a row ranked first in every list 1', () => {
+    const fused = reciprocalRankFusion([ranking('a'), ranking('a')], 10);
+
+    expect(fused[0]._relevance).toBe(1);
+  });
+
+  it('merges the fields a row has in each list', () => {
+    const fused = reciprocalRankFusion<Row>(
+      [[{ id: 'a', _distance: 0.2 }], [{ id: 'a', _score: 7 }]],
+      10,
+    );
+
+    expect(fused[0]).toMatchObject({ id: 'a', _distance: 0.2, _score: 7 });
+  });
+
+  it('weighs the contribution of each list', () => {
+    const fused = reciprocalRankFusion(
+      [ranking('a', 'b'), ranking('b', 'a')],
+      10,
+      [1, 3],
+    );
+
+    expect(fused.map((row) => row.id)).toEqual(['b', 'a']);
+    expect(fused[0]._relevance).toBeCloseTo(
+      (1 / (RRF_K + 2) + 3 / (RRF_K + 1)) / (4 / (RRF_K + 1)),
+    );
+  });
+
+  it('keeps at most limit rows', () => {
+    expect(reciprocalRankFusion([ranking('a', 'b', 'c')], 2)).toHaveLength(2);
+  });
+});
+
+describe('fuseQueryRankings', () => {
+  it('records which queries found each row', () => {
+    const fused = fuseQueryRankings(
+      [ranking('a', 'b'), ranking('b'), ranking('c', 'b')],
+      10,
+    );
+
+    expect(
+      Object.fromEntries(fused.map((row) => [row.id, row._expansions])),
+    ).toEqual({ a: [0], b: [0, 1, 2], c: [2] });
+    expect(fused[0].id).toBe('b');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Constant from the original RRF paper; dampens the weight of top ranks
+ */
+export const RRF_K = 60;
+
+/**
+ * Row that can take part in rank fusion
+ */
+export interface FusableResult {
+  id: string;
+  _relevance?: number;
+}
+
+/**
+ * Fuse several ranked result lists with Reciprocal Rank Fusion
+ * Rows are matched by `id`; fields from every list a row appears in are merged,
+ * so a hybrid hit keeps both its vector `_distance` and its BM25 `_score`.
+ * `_relevance` is set to the fused score normalized so that a row ranked
+ * first in every list scores 1.
+ * @param weights Weight of each list's contribution (1 for every list by default)
+ */
+export function reciprocalRankFusion<T extends FusableResult>(
+  rankings: T[][],
+  limit: number,
+  weights: number[] = rankings.map(() => 1),
+): T[] {
+  const fused = new Map<string, { row: T; score: number }>();
+
+  rankings.forEach((ranking, i) => {
+    ranking.forEach((row, rank) => {
+      const entry = fused.get(row.id);
+      const contribution = weights[i] / (RRF_K + rank + 1);
+
+      if (entry) {
+        entry.row = { ...entry.row, ...row };
+        entry.score += contribution;
+      } else {
+        fused.set(row.id, { row: { ...row }, score: contribution });
+      }
+    });
+  });
+
+  const maxScore =
+    weights.reduce((sum, weight) => sum + weight, 0) / (RRF_K + 1);
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ row, score }) => ({ ...row, _relevance: score / maxScore }));
+}
+
+/**
+ * Fuse the results of several queries for the same question
+ * Each fused row gets `_expansions`: the indexes of the queries whose results
+ * contained it
+ */
+export function fuseQueryRankings<
+  T extends FusableResult & { _expansions?: number[] },
+>(rankings: T[][], limit: number): T[] {
+  const foundBy = new Map<string, number[]>();
+  rankings.forEach((ranking, i) => {
+    for (const row of ranking) {
+      foundBy.set(row.id, [...(foundBy.get(row.id) ?? []), i]);
+    }
+  });
+
+  return reciprocalRankFusion(rankings, limit).map((row) => ({
+    ...row,
+    _expansions: foundBy.get(row.id),
+  }));
+}
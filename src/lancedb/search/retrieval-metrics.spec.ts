@@ -0,0 +1,46 @@
+import { scoreRanking } from './retrieval-metrics';
+
+describe('scoreRanking', () => {
+  it('scores one new item per result, in order, as perfect', () => {
+    expect(scoreRanking([[0], [1], [2]], 3, 10)).toEqual({
+      recall: 1,
+      reciprocalRank: 1,
+      ndcg: 1,
+    });
+  });
+
+  it('scores two separate expected timestamps found first and second as perfect', () => {
+    expect(scoreRanking([[0], [1], []], 2, 10).ndcg).toBeCloseTo(1);
+  });
+
+  it('counts a result covering several items once', () => {
+    const merged = scoreRanking([[0, 1, 2]], 3, 10);
+
+    expect(merged.recall).toBe(1);
+    expect(merged.ndcg).toBeCloseTo(
+      1 / (1 + 1 / Math.log2(3) + 1 / Math.log2(4)),
+    );
+  });
+
+  it('gives nothing for repeating an item already covered', () => {
+    const repeated = scoreRanking([[0], [0], [1]], 2, 10);
+    const skipped = scoreRanking([[0], [], [1]], 2, 10);
+
+    expect(repeated).toEqual(skipped);
+    expect(repeated.ndcg).toBeCloseTo(
+      (1 + 1 / Math.log2(4)) / (1 + 1 / Math.log2(3)),
+    );
+  });
+
+  it('limits the ideal ranking to k results', () => {
+    expect(scoreRanking([[0], [1]], 3, 2).ndcg).toBeCloseTo(1);
+  });
+
+  it('only counts the first k results', () => {
+    expect(scoreRanking([[], [0]], 1, 1)).toEqual({
+      recall: 0,
+      reciprocalRank: 0,
+      ndcg: 0,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  AspectType,
+  RAGSource,
+  RankingScores,
+  RetrievalMetrics,
+} from '../interfaces';
+
+/**
+ * What a question's sources are expected to cover
+ * With timestamps, each timestamp is one expected item (restricted to the
+ * aspects when both are given); otherwise each aspect is one expected item
+ */
+export interface RelevanceExpectation {
+  /** Expected moments, in seconds of video time */
+  timestamps?: number[];
+  aspects?: AspectType[];
+}
+
+/**
+ * Indices of the expected items a retrieved source covers
+ * A timestamp is covered when it falls inside the source's time span,
+ * widened by `toleranceSeconds` on each side. Legacy sources carry no aspect
+ * and match any aspect
+ */
+export function matchExpectations(
+  source: RAGSource,
+  expected: RelevanceExpectation,
+  toleranceSeconds: number,
+): number[] {
+  const aspects = expected.aspects ?? [];
+  const aspectMatches = (aspect: AspectType) =>
+    !source.aspectTypes || source.aspectTypes.includes(aspect);
+
+  if (expected.timestamps?.length) {
+    if (aspects.length > 0 && !aspects.some(aspectMatches)) {
+      return [];
+    }
+    return expected.timestamps
+      .map((seconds, index) =>
+        seconds >= source.startTime - toleranceSeconds &&
+        seconds <= source.endTime + toleranceSeconds
+          ? index
+          : -1,
+      )
+      .filter((index) => index >= 0);
+  }
+
+  return aspects
+    .map((aspect, index) => (source.aspectTypes?.includes(aspect) ? index : -1))
+    .filter((index) => index >= 0);
+}
+
+/**
+ * Score one ranking against its expected items
+ * A result gains one point if it covers an expected item no better-ranked
+ * result covered, so repeating one moment earns nothing. The ideal ranking
+ * covers one new item with each of its first results
+ * @param matches Expected items covered by each result, in rank order
+ * @param expectedCount Number of expected items
+ * @param k Results taken into account
+ */
+export function scoreRanking(
+  matches: number[][],
+  expectedCount: number,
+  k: number,
+): RankingScores {
+  const covered = new Set<number>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  matches.slice(0, k).forEach((items, rank) => {
+    const fresh = items.filter((item) => !covered.has(item));
+    if (fresh.length === 0) {
+      return;
+    }
+    if (reciprocalRank === 0) {
+      reciprocalRank = 1 / (rank + 1);
+    }
+    dcg += 1 / Math.log2(rank + 2);
+    fresh.forEach((item) => covered.add(item));
+  });
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(expectedCount, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recall: expectedCount > 0 ? covered.size / expectedCount : 0,
+    reciprocalRank,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+}
+
+/**
+ * Mean recall@k, MRR and nDCG@k over a set of questions
+ */
+export function averageScores(scores: RankingScores[]): RetrievalMetrics {
+  const mean = (pick: (score: RankingScores) => number) =>
+    scores.length > 0
+      ? scores.reduce((sum, score) => sum + pick(score), 0) / scores.length
+      : 0;
+
+  return {
+    cases: scores.length,
+    recallAtK: mean((score) => score.recall),
+    mrr: mean((score) => score.reciprocalRank),
+    ndcgAtK: mean((score) => score.ndcg),
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  limitTimestamps,
+  parseTemporalQuery,
+  resolveTemporalReference,
+} from './temporal-query';
+
+describe('parseTemporalQuery', () => {
+  it('reads "after the first N" as starting where the first N end', () => {
+    expect(
+      parseTemporalQuery('what happens after the first 30 seconds?'),
+    ).toEqual({
+      type: 'range',
+      range: { startTime: 30, endTime: undefined },
+    });
+    expect(parseTemporalQuery('anything past the first minute')).toEqual({
+      type: 'range',
+      range: { startTime: 60, endTime: undefined },
+    });
+  });
+
+  it('still reads "the first N" as starting at 0', () => {
+    expect(parseTemporalQuery('in the first 30 seconds')).toEqual({
+      type: 'range',
+      range: { startTime: 0, endTime: 30 },
+    });
+  });
+
+  it('ignores timestamps without a time cue', () => {
+    expect(parseTemporalQuery('which verse is John 3:16?')).toBeUndefined();
+    expect(parseTemporalQuery('is the picture 4:3 or 16:9?')).toBeUndefined();
+  });
+
+  it('reads timestamps with a time cue as a moment', () => {
+    const moment = { type: 'range', range: { startTime: 140, endTime: 160 } };
+
+    expect(parseTemporalQuery('what happens at 2:30?')).toEqual(moment);
+    expect(parseTemporalQuery('who speaks around 2:30')).toEqual(moment);
+    expect(parseTemporalQuery('what is shown at the 2:30 mark')).toEqual(
+      moment,
+    );
+    expect(parseTemporalQuery('2:30 into the video, who enters?')).toEqual(
+      moment,
+    );
+  });
+
+  it('reads ranges between two timestamps in either order', () => {
+    const range = { type: 'range', range: { startTime: 60, endTime: 120 } };
+
+    expect(parseTemporalQuery('between 1:00 and 2:00')).toEqual(range);
+    expect(parseTemporalQuery('what happens 2:00-1:00')).toEqual(range);
+  });
+
+  it('reads open-ended ranges before or after a timestamp', () => {
+    expect(parseTemporalQuery('who arrives before 0:45?')).toEqual({
+      type: 'range',
+      range: { startTime: undefined, endTime: 45 },
+    });
+    expect(parseTemporalQuery('what is said after 1:04:10')).toEqual({
+      type: 'range',
+      range: { startTime: 3850, endTime: undefined },
+    });
+  });
+
+  it('reads a moment given in seconds or minutes', () => {
+    expect(parseTemporalQuery('what happens at 90 seconds')).toEqual({
+      type: 'range',
+      range: { startTime: 80, endTime: 100 },
+    });
+  });
+
+  it('counts durations back from the end', () => {
+    expect(parseTemporalQuery('in the last minute')).toEqual({
+      type: 'last',
+      seconds: 60,
+    });
+    expect(parseTemporalQuery('the final two minutes')).toEqual({
+      type: 'last',
+      seconds: 120,
+    });
+    expect(parseTemporalQuery('what happens in the final seconds')).toEqual({
+      type: 'last',
+      seconds: 30,
+    });
+  });
+
+  it('reads the beginning and end of the video', () => {
+    expect(parseTemporalQuery('at the very beginning')).toEqual({
+      type: 'range',
+      range: { startTime: 0, endTime: 30 },
+    });
+    expect(parseTemporalQuery('at the end of the video')).toEqual({
+      type: 'last',
+      seconds: 30,
+    });
+  });
+
+  it('ignores the end of something that is not the video', () => {
+    expect(
+      parseTemporalQuery('what is at the end of the tunnel'),
+    ).toBeUndefined();
+    expect(parseTemporalQuery('at the beginning of the race')).toBeUndefined();
+    expect(parseTemporalQuery('who is the first speaker')).toBeUndefined();
+  });
+});
+
+describe('resolveTemporalReference', () => {
+  it('counts a last reference back from the duration, not below 0', () => {
+    expect(
+      resolveTemporalReference({ type: 'last', seconds: 60 }, 300),
+    ).toEqual({ startTime: 240 });
+    expect(resolveTemporalReference({ type: 'last', seconds: 60 }, 20)).toEqual(
+      { startTime: 0 },
+    );
+  });
+});
+
+describe('limitTimestamps', () => {
+  it('keeps evenly spaced timestamps with all of their rows', () => {
+    const rows = [0, 0, 1, 2, 3, 3].map((timestampSeconds, i) => ({
+      timestampSeconds,
+      i,
+    }));
+
+    expect(limitTimestamps(rows, 2).map((row) => row.i)).toEqual([0, 1, 3]);
+    expect(limitTimestamps(rows, 4)).toBe(rows);
+  });
+});
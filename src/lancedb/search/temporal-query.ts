@@ -0,0 +1,178 @@
+import { parseTimestampSeconds } from '../../gemini/segmentation';
+import { TimeRange } from '../interfaces';
+
+/**
+ * Seconds on each side of a single moment ("what happens at 2:30")
+ */
+export const MOMENT_WINDOW_SECONDS = 10;
+
+/**
+ * Length of the window for "at the beginning" / "at the end"
+ */
+export const EDGE_WINDOW_SECONDS = 30;
+
+/**
+ * Time named in a question
+ * A `last` reference counts back from the end of the video, so it can only
+ * be turned into a range once the duration is known
+ */
+export type TemporalReference =
+  | { type: 'range'; range: TimeRange }
+  | { type: 'last'; seconds: number };
+
+const TIMESTAMP = String.raw`(\d{1,2}:\d{2}(?::\d{2})?)`;
+const AMOUNT = String.raw`(\d+(?:\.\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten)`;
+const UNIT = String.raw`(s|secs?|seconds?|m|mins?|minutes?)`;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const BETWEEN_PATTERN = new RegExp(
+  String.raw`${TIMESTAMP}\s*(?:and|to|until|till|-|–)\s*${TIMESTAMP}`,
+);
+const BEFORE_PATTERN = new RegExp(
+  String.raw`\b(?:before|until|till|up to|by)\s+${TIMESTAMP}`,
+);
+const AFTER_PATTERN = new RegExp(
+  String.raw`\b(?:after|since|from|past)\s+${TIMESTAMP}`,
+);
+// A bare timestamp needs a time cue next to it, so "John 3:16" or a 4:3
+// ratio is not read as a time
+const MOMENT_PATTERN = new RegExp(
+  String.raw`(?:\b(?:at|around|near|about|approximately|roughly|timestamp|time)\s+(?:the\s+)?|@\s*)${TIMESTAMP}|${TIMESTAMP}\s*(?:mark\b|into\b|in the (?:video|clip|recording|footage)\b)`,
+);
+const MOMENT_DURATION_PATTERN = new RegExp(
+  String.raw`\b(?:at|around|near)\s+(\d+(?:\.\d+)?)\s*${UNIT}\b`,
+);
+// "after the first 30 seconds" starts where the first 30 seconds end
+const FIRST_PATTERN = new RegExp(
+  String.raw`\b(?:(after|past|beyond)\s+(?:the\s+)?)?(?:first|opening)\s+(?:${AMOUNT}\s+)?${UNIT}\b`,
+);
+const LAST_PATTERN = new RegExp(
+  String.raw`\b(?:last|final|closing)\s+(?:${AMOUNT}\s+)?${UNIT}\b`,
+);
+// "of ..." must name the video or a unit of time, so "at the end of the
+// tunnel" is not read as a time
+const EDGE_OF = String.raw`\s+of\s+(?:the\s+|this\s+)?(?:video|clip|recording|footage|${UNIT})\b`;
+const START_PATTERN = new RegExp(
+  String.raw`\b(?:at|in|near|towards?) the (?:very )?(?:beginning|start)\b(?!\s+of\b)|\b(?:beginning|start)${EDGE_OF}`,
+);
+const END_PATTERN = new RegExp(
+  String.raw`\b(?:at|near|towards?) the (?:very )?end\b(?!\s+of\b)|\bend${EDGE_OF}`,
+);
+
+/**
+ * Find an explicit time in a question
+ * Recognizes timestamps ("at 2:30", "between 1:00 and 2:00", "after 4:10"),
+ * durations from either end ("in the first 30 seconds", "in the last minute",
+ * "after the first minute")
+ * and the beginning or end of the video ("at the end", "the end of the
+ * clip"). Returns undefined otherwise
+ */
+export function parseTemporalQuery(
+  query: string,
+): TemporalReference | undefined {
+  const text = query.toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(BETWEEN_PATTERN))) {
+    const [a, b] = [match[1], match[2]].map(parseTimestampSeconds);
+    return range(Math.min(a, b), Math.max(a, b));
+  }
+  if ((match = text.match(BEFORE_PATTERN))) {
+    return range(undefined, parseTimestampSeconds(match[1]));
+  }
+  if ((match = text.match(AFTER_PATTERN))) {
+    return range(parseTimestampSeconds(match[1]), undefined);
+  }
+  if ((match = text.match(MOMENT_PATTERN))) {
+    return moment(parseTimestampSeconds(match[1] ?? match[2]));
+  }
+  if ((match = text.match(MOMENT_DURATION_PATTERN))) {
+    return moment(toSeconds(match[1], match[2]));
+  }
+  if ((match = text.match(FIRST_PATTERN))) {
+    const seconds = toSeconds(match[2], match[3]);
+    return match[1] ? range(seconds, undefined) : range(0, seconds);
+  }
+  if ((match = text.match(LAST_PATTERN))) {
+    return { type: 'last', seconds: toSeconds(match[1], match[2]) };
+  }
+  if (START_PATTERN.test(text)) {
+    return range(0, EDGE_WINDOW_SECONDS);
+  }
+  if (END_PATTERN.test(text)) {
+    return { type: 'last', seconds: EDGE_WINDOW_SECONDS };
+  }
+
+  return undefined;
+}
+
+/**
+ * Turn a reference into a range of video time
+ * @param durationSeconds Length of the video (needed for `last` references)
+ */
+export function resolveTemporalReference(
+  reference: TemporalReference,
+  durationSeconds: number,
+): TimeRange {
+  if (reference.type === 'range') {
+    return reference.range;
+  }
+  return { startTime: Math.max(0, durationSeconds - reference.seconds) };
+}
+
+/**
+ * Keep the rows of at most `max` evenly spaced timestamps
+ * Rows sharing a timestamp (one per aspect) are kept or dropped together
+ */
+export function limitTimestamps<T extends { timestampSeconds: number }>(
+  rows: T[],
+  max: number,
+): T[] {
+  const timestamps = [...new Set(rows.map((row) => row.timestampSeconds))];
+  if (timestamps.length <= max) {
+    return rows;
+  }
+
+  const step = timestamps.length / max;
+  const kept = new Set(
+    Array.from({ length: max }, (_, i) => timestamps[Math.floor(i * step)]),
+  );
+  return rows.filter((row) => kept.has(row.timestampSeconds));
+}
+
+function range(startTime?: number, endTime?: number): TemporalReference {
+  return { type: 'range', range: { startTime, endTime } };
+}
+
+function moment(seconds: number): TemporalReference {
+  return range(
+    Math.max(0, seconds - MOMENT_WINDOW_SECONDS),
+    seconds + MOMENT_WINDOW_SECONDS,
+  );
+}
+
+/**
+ * Length of a duration; a plural unit without an amount ("the final seconds")
+ * gets the edge window
+ */
+function toSeconds(amount: string | undefined, unit: string): number {
+  if (!amount && unit.length > 1 && unit.endsWith('s')) {
+    return EDGE_WINDOW_SECONDS;
+  }
+  const value = amount ? (NUMBER_WORDS[amount] ?? Number(amount)) : 1;
+  return unit.startsWith('m') ? value * 60 : value;
+}
@@ -2,6 +2,7 @@ import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { EmbeddingService } from './embedding.service';
 import { LanceDBService } from './lancedb.service';
+import { VideoSearchService } from './video-search.service';
 import {
   VideoRecord,
   FrameRecord,
@@ -18,8 +19,14 @@ import {
   SceneMetadata,
   AudioMetadata,
   TextOnScreenMetadata,
+  IndexProgressCallback,
+  IndexVideoOptions,
+  IndexMode,
+  IndexAction,
+  CustomAspect,
 } from './interfaces';
 import { VideoAnalysisResult } from '../gemini/interfaces';
+import { isEmptyAspectValue, renderContentTemplate } from './aspects';
 
 /**
  * Service for indexing video analysis results into LanceDB
@@ -32,15 +39,18 @@ export class VideoIndexService {
   constructor(
     private readonly embeddingService: EmbeddingService,
     private readonly lancedbService: LanceDBService,
+    private readonly videoSearchService: VideoSearchService,
   ) {}
 
   /**
    * Index a video analysis with frame-level descriptions
-   * @param sourceUri YouTube URL or file path
+   * @param sourceUri YouTube URL or upload URI
    * @param title Video title
    * @param analysis Analysis result from Gemini
    * @param frameDescriptions Array of frame descriptions to index
    * @param duration Optional video duration in seconds
+   * @param onProgress Optional callback notified when the pipeline changes stage
+   * @param options Source details of an upload and the re-index mode
    */
   async indexVideoAnalysis(
     sourceUri: string,
@@ -48,28 +58,27 @@ export class VideoIndexService {
     analysis: VideoAnalysisResult,
     frameDescriptions: FrameDescription[],
     duration?: number,
+    onProgress?: IndexProgressCallback,
+    options: IndexVideoOptions = {},
   ): Promise<IndexResult> {
     const startTime = Date.now();
-    const videoId = uuidv4();
+    let videoId = uuidv4();
 
     this.logger.log(
       `Indexing video: ${title} (${frameDescriptions.length} frames)`,
     );
 
     try {
-      // Check if already indexed
-      const isIndexed = await this.lancedbService.isVideoIndexed(sourceUri);
-      if (isIndexed) {
-        this.logger.warn(`Video already indexed: ${sourceUri}`);
-        throw new HttpException(
-          {
-            statusCode: HttpStatus.CONFLICT,
-            message: 'Video is already indexed',
-            sourceUri,
-          },
-          HttpStatus.CONFLICT,
-        );
+      // Check if already indexed; re-indexing keeps the existing ID
+      const mode = options.mode ?? 'skip';
+      const existing = await this.findIndexedVideo(
+        sourceUri,
+        options.contentHash,
+      );
+      if (existing && mode === 'skip') {
+        return this.skippedResult(existing, startTime);
       }
+      videoId = existing?.id ?? videoId;
 
       // Validate frame descriptions
       if (frameDescriptions.length === 0) {
@@ -83,16 +92,20 @@ export class VideoIndexService {
       }
 
       // 1. Generate embeddings for all frame descriptions
+      await onProgress?.('embedding');
       this.logger.log(
         `Generating embeddings for ${frameDescriptions.length} frames...`,
       );
       const descriptions = frameDescriptions.map((f) => f.description);
+      const embeddingVersion = this.embeddingService.getVersion();
       const embeddings = await this.embeddingService.embedBatch(descriptions);
 
       // 2. Create video record
       const videoRecord: VideoRecord = {
         id: videoId,
         sourceUri,
+        contentHash: options.contentHash,
+        originalFilename: options.originalFilename,
         title,
         duration,
         fullAnalysis: analysis.analysis,
@@ -115,12 +128,38 @@ export class VideoIndexService {
       );
 
       // 4. Insert into LanceDB
-      await this.lancedbService.insertVideo(videoRecord);
-      await this.lancedbService.insertFrames(frameRecords);
+      await onProgress?.('storing');
+      const { action, frameCount } = await this.storeVideo(
+        frameRecords,
+        existing,
+        mode,
+        {
+          create: (records) =>
+            this.lancedbService.insertVideoWithFrames(
+              videoRecord,
+              records,
+              embeddingVersion,
+            ),
+          replace: (records) =>
+            this.lancedbService.replaceVideoFrames(
+              videoRecord,
+              records,
+              embeddingVersion,
+            ),
+          merge: (records) =>
+            this.lancedbService.mergeVideoFrames(
+              videoId,
+              records,
+              embeddingVersion,
+            ),
+        },
+      );
+
+      await this.buildVideoVector(videoId);
 
       const indexingTimeMs = Date.now() - startTime;
       this.logger.log(
-        `Video indexed successfully: ${videoId} (${frameDescriptions.length} frames in ${indexingTimeMs}ms)`,
+        `Video ${action} successfully: ${videoId} (${frameCount} frames in ${indexingTimeMs}ms)`,
       );
 
       // 5. Optionally create index if enough data
@@ -131,9 +170,10 @@ export class VideoIndexService {
 
       return {
         videoId,
-        frameCount: frameDescriptions.length,
+        frameCount,
         indexingTimeMs,
         success: true,
+        action,
       };
     } catch (error) {
       if (error instanceof HttpException) {
@@ -195,28 +235,27 @@ export class VideoIndexService {
     title: string,
     analysis: AdvancedVideoAnalysisResult,
     duration?: number,
+    onProgress?: IndexProgressCallback,
+    options: IndexVideoOptions = {},
   ): Promise<IndexResult> {
     const startTime = Date.now();
-    const videoId = uuidv4();
+    let videoId = uuidv4();
 
     this.logger.log(
       `Starting advanced indexing for: ${title} (${analysis.frames.length} frames)`,
     );
 
     try {
-      // Check if already indexed
-      const isIndexed = await this.lancedbService.isVideoIndexed(sourceUri);
-      if (isIndexed) {
-        this.logger.warn(`Video already indexed: ${sourceUri}`);
-        throw new HttpException(
-          {
-            statusCode: HttpStatus.CONFLICT,
-            message: 'Video is already indexed',
-            sourceUri,
-          },
-          HttpStatus.CONFLICT,
-        );
+      // Check if already indexed; re-indexing keeps the existing ID
+      const mode = options.mode ?? 'skip';
+      const existing = await this.findIndexedVideo(
+        sourceUri,
+        options.contentHash,
+      );
+      if (existing && mode === 'skip') {
+        return this.skippedResult(existing, startTime);
       }
+      videoId = existing?.id ?? videoId;
 
       // Validate frame data
       if (analysis.frames.length === 0) {
@@ -231,16 +270,22 @@ export class VideoIndexService {
 
       // 1. Extract all aspect descriptions from frames
       const aspectRecords: EnhancedFrameRecordBase[] =
-        this.extractAspectDescriptions(videoId, analysis.frames);
+        this.extractAspectDescriptions(
+          videoId,
+          analysis.frames,
+          options.customAspects ?? [],
+        );
       this.logger.log(
         `Extracted ${aspectRecords.length} aspect records from frames`,
       );
 
       // 2. Generate embeddings for all aspect descriptions
+      await onProgress?.('embedding');
       this.logger.log(
         `Generating embeddings for ${aspectRecords.length} aspect records...`,
       );
       const contents: string[] = aspectRecords.map((r) => r.content);
+      const embeddingVersion = this.embeddingService.getVersion();
       const embeddings = await this.embeddingService.embedBatch(contents);
 
       // 3. Add vectors to records
@@ -261,6 +306,8 @@ export class VideoIndexService {
       const videoRecord: VideoRecord = {
         id: videoId,
         sourceUri,
+        contentHash: options.contentHash,
+        originalFilename: options.originalFilename,
         title,
         duration,
         fullAnalysis: analysis.summary,
@@ -271,19 +318,46 @@ export class VideoIndexService {
       };
 
       // 5. Insert into LanceDB
-      await this.lancedbService.insertVideo(videoRecord);
-      await this.lancedbService.insertEnhancedFrames(enhancedFrameRecords);
+      await onProgress?.('storing');
+      const { action, frameCount } = await this.storeVideo(
+        enhancedFrameRecords,
+        existing,
+        mode,
+        {
+          create: (records) =>
+            this.lancedbService.insertVideoWithEnhancedFrames(
+              videoRecord,
+              records,
+              embeddingVersion,
+            ),
+          replace: (records) =>
+            this.lancedbService.replaceVideoEnhancedFrames(
+              videoRecord,
+              records,
+              embeddingVersion,
+            ),
+          merge: (records) =>
+            this.lancedbService.mergeVideoEnhancedFrames(
+              videoId,
+              records,
+              embeddingVersion,
+            ),
+        },
+      );
+
+      await this.buildVideoVector(videoId);
 
       const indexingTimeMs = Date.now() - startTime;
 
       // Log aspect distribution
       const aspectCounts = this.countAspects(enhancedFrameRecords);
       this.logger.log(
-        `Video indexed successfully: ${videoId} (${enhancedFrameRecords.length} records in ${indexingTimeMs}ms)`,
+        `Video ${action} successfully: ${videoId} (${frameCount} records in ${indexingTimeMs}ms)`,
       );
       this.logger.log(
-        `Aspect distribution: people=${aspectCounts.people}, objects=${aspectCounts.objects}, ` +
-          `scene=${aspectCounts.scene}, audio=${aspectCounts.audio}, action=${aspectCounts.action}, text=${aspectCounts.text}`,
+        `Aspect distribution: ${Object.entries(aspectCounts)
+          .map(([aspect, count]) => `${aspect}=${count}`)
+          .join(', ')}`,
       );
 
       // 6. Optionally create index if enough data
@@ -294,9 +368,10 @@ export class VideoIndexService {
 
       return {
         videoId,
-        frameCount: enhancedFrameRecords.length,
+        frameCount,
         indexingTimeMs,
         success: true,
+        action,
       };
     } catch (error) {
       if (error instanceof HttpException) {
@@ -321,6 +396,7 @@ export class VideoIndexService {
   private extractAspectDescriptions(
     videoId: string,
     frames: AdvancedFrameData[],
+    customAspects: CustomAspect[],
   ): EnhancedFrameRecordBase[] {
     const records: EnhancedFrameRecordBase[] = [];
 
@@ -434,6 +510,27 @@ export class VideoIndexService {
           metadata: JSON.stringify({ action: frame.actionDescription }),
         });
       }
+
+      // Extract registered CUSTOM aspects, stored under their own names
+      for (const aspect of customAspects) {
+        const value = frame.customAspects?.[aspect.name];
+        if (isEmptyAspectValue(value)) {
+          continue;
+        }
+
+        const content = renderContentTemplate(aspect.contentTemplate, value);
+        if (content) {
+          records.push({
+            id: uuidv4(),
+            videoId,
+            timestamp: frame.timestamp,
+            timestampSeconds,
+            aspectType: aspect.name,
+            content: `At ${frame.timestamp}: ${content}`,
+            metadata: JSON.stringify(value),
+          });
+        }
+      }
     }
 
     return records;
@@ -588,9 +685,7 @@ export class VideoIndexService {
     };
 
     for (const record of records) {
-      if (record.aspectType in counts) {
-        counts[record.aspectType]++;
-      }
+      counts[record.aspectType] = (counts[record.aspectType] ?? 0) + 1;
     }
 
     return counts;
@@ -651,6 +746,15 @@ export class VideoIndexService {
     return this.lancedbService.isVideoIndexed(sourceUri);
   }
 
+  /**
+   * Find an indexed video by the SHA-256 of its uploaded file
+   */
+  async findVideoByContentHash(
+    contentHash: string,
+  ): Promise<VideoRecord | null> {
+    return this.lancedbService.findVideoByContentHash(contentHash);
+  }
+
   /**
    * Get database statistics
    */
@@ -658,6 +762,81 @@ export class VideoIndexService {
     return this.lancedbService.getStats();
   }
 
+  /**
+   * Find an indexed video by file content (uploads) or source URI
+   */
+  async findIndexedVideo(
+    sourceUri: string,
+    contentHash?: string,
+  ): Promise<VideoRecord | null> {
+    const byHash = contentHash
+      ? await this.lancedbService.findVideoByContentHash(contentHash)
+      : null;
+    return byHash ?? this.lancedbService.findVideoBySourceUri(sourceUri);
+  }
+
+  /**
+   * Result for an already indexed video left as it is
+   */
+  skippedResult(existing: VideoRecord, startTime: number): IndexResult {
+    this.logger.log(
+      `Video already indexed, skipping: ${existing.sourceUri} (${existing.id})`,
+    );
+    return {
+      videoId: existing.id,
+      frameCount: existing.frameCount,
+      indexingTimeMs: Date.now() - startTime,
+      success: true,
+      action: 'skipped',
+    };
+  }
+
+  /**
+   * Store a new video, or replace/merge the frames of an existing one
+   * Each write updates the video record under the same lock as its frames,
+   * and a failed write is undone (see LanceDBService)
+   * @returns The action taken and the number of frames stored
+   */
+  private async storeVideo<T>(
+    records: T[],
+    existing: VideoRecord | null,
+    mode: IndexMode,
+    frames: {
+      create: (records: T[]) => Promise<void>;
+      replace: (records: T[]) => Promise<void>;
+      merge: (records: T[]) => Promise<number>;
+    },
+  ): Promise<{ action: IndexAction; frameCount: number }> {
+    if (!existing) {
+      await frames.create(records);
+      return { action: 'created', frameCount: records.length };
+    }
+
+    if (mode === 'replace') {
+      await frames.replace(records);
+      return { action: 'replaced', frameCount: records.length };
+    }
+
+    // Merge keeps the existing analysis and only adds frames
+    const added = await frames.merge(records);
+    return { action: 'merged', frameCount: added };
+  }
+
+  /**
+   * Build the video-level vector used by video search
+   * The frames are already stored, so a failure only leaves the video out of
+   * video search until the vectors are backfilled
+   */
+  private async buildVideoVector(videoId: string): Promise<void> {
+    try {
+      await this.videoSearchService.indexVideo(videoId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to build video vector for ${videoId}: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Parse timestamp string to seconds
    * Supports MM:SS and HH:MM:SS formats
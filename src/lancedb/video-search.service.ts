@@ -0,0 +1,301 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmbeddingService } from './embedding.service';
+import { LanceDBService } from './lancedb.service';
+import {
+  AspectType,
+  SearchMode,
+  VideoRecord,
+  VideoSearchResult,
+  VideoVectorBackfillResult,
+  VideoVectorSearchResult,
+} from './interfaces';
+
+/**
+ * Order and labels of the aspect sections in a video's embedded text
+ */
+const ASPECT_SECTIONS: Array<[AspectType, string]> = [
+  ['scene', 'Scenes'],
+  ['people', 'People'],
+  ['action', 'Actions'],
+  ['audio', 'Speech and sound'],
+  ['objects', 'Objects'],
+  ['text', 'On-screen text'],
+];
+
+/**
+ * Frame descriptions kept per aspect, spread evenly over the video
+ */
+const SNIPPETS_PER_ASPECT = 6;
+
+/**
+ * Length of the analysis excerpt returned with each result
+ */
+const SUMMARY_EXCERPT_CHARS = 300;
+
+/**
+ * Service for searching whole videos
+ * Each video gets one vector embedding its title, analysis summary and a
+ * digest of its frames per aspect, which ranks videos by what they are about
+ * rather than by a single matching moment
+ */
+@Injectable()
+export class VideoSearchService {
+  private readonly logger = new Logger(VideoSearchService.name);
+  private readonly defaultTopK: number;
+  private readonly defaultSearchMode: SearchMode;
+  private readonly maxChars: number;
+
+  constructor(
+    private readonly embeddingService: EmbeddingService,
+    private readonly lancedbService: LanceDBService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultTopK = Number(
+      this.configService.get<number>('VIDEO_SEARCH_TOP_K', 10),
+    );
+    this.defaultSearchMode = this.configService.get<SearchMode>(
+      'RAG_SEARCH_MODE',
+      'vector',
+    );
+    this.maxChars = Number(
+      this.configService.get<number>('VIDEO_VECTOR_MAX_CHARS', 2000),
+    );
+  }
+
+  /**
+   * Build (or rebuild) the video-level vector of an indexed video
+   * @returns false when the video does not exist
+   */
+  async indexVideo(videoId: string): Promise<boolean> {
+    const video = await this.lancedbService.getVideo(videoId);
+    if (!video) {
+      return false;
+    }
+
+    const content = await this.buildVideoText(video);
+    const embeddingVersion = this.embeddingService.getVersion();
+    const vector = await this.embeddingService.embed(content);
+
+    await this.lancedbService.upsertVideoVector(
+      {
+        id: videoId,
+        videoId,
+        content,
+        vector,
+        updatedAt: new Date().toISOString(),
+      },
+      embeddingVersion,
+    );
+    this.logger.log(`Video vector built for ${videoId}`);
+    return true;
+  }
+
+  /**
+   * Build the vectors of videos indexed before video search existed, or
+   * whose vector failed to build
+   */
+  async indexMissingVideos(): Promise<VideoVectorBackfillResult> {
+    const videos = await this.lancedbService.listVideos();
+    const indexed = await this.lancedbService.getVideoVectorIds();
+    const missing = videos.filter((video) => !indexed.has(video.id));
+    const result: VideoVectorBackfillResult = {
+      missing: missing.length,
+      indexed: 0,
+      failed: 0,
+    };
+
+    for (const video of missing) {
+      try {
+        await this.indexVideo(video.id);
+        result.indexed++;
+      } catch (error) {
+        this.logger.warn(
+          `Failed to build video vector for ${video.id}: ${error.message}`,
+        );
+        result.failed++;
+      }
+    }
+
+    this.logger.log(
+      `Video vectors: built ${result.indexed} of ${result.missing} missing (${result.failed} failed)`,
+    );
+    return result;
+  }
+
+  /**
+   * Rank indexed videos against a query
+   * @param query What the videos should be about
+   * @param topK Number of videos to return (default: VIDEO_SEARCH_TOP_K)
+   * @param mode Retrieval strategy (default: RAG_SEARCH_MODE)
+   */
+  async searchVideos(
+    query: string,
+    topK?: number,
+    mode: SearchMode = this.defaultSearchMode,
+  ): Promise<{ results: VideoSearchResult[]; latencyMs: number }> {
+    const startTime = Date.now();
+
+    this.logger.log(`Video search: "${query.substring(0, 50)}..."`);
+
+    try {
+      const queryVector =
+        mode === 'fts' ? undefined : await this.embeddingService.embed(query);
+      const hits = await this.lancedbService.searchVideoVectors({
+        queryText: query,
+        queryVector,
+        mode,
+        limit: topK || this.defaultTopK,
+      });
+
+      return {
+        results: await this.toResults(hits),
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      this.logger.error(`Video search failed: ${error.message}`);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: `Video search failed: ${error.message}`,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Find the videos closest to a given video
+   * Builds the video's vector first if it has none yet
+   */
+  async findRelatedVideos(
+    videoId: string,
+    limit?: number,
+  ): Promise<VideoSearchResult[]> {
+    let record = await this.lancedbService.getVideoVector(videoId);
+
+    if (!record) {
+      if (!(await this.indexVideo(videoId))) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `Video not found: ${videoId}`,
+          },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      record = await this.lancedbService.getVideoVector(videoId);
+    }
+
+    const hits = await this.lancedbService.searchVideoVectors({
+      queryText: record.content,
+      queryVector: record.vector,
+      mode: 'vector',
+      limit: limit || this.defaultTopK,
+      excludeVideoId: videoId,
+    });
+
+    return this.toResults(hits);
+  }
+
+  /**
+   * Text embedded for a video: title, summary, then evenly spread frame
+   * descriptions per aspect (or legacy frame descriptions)
+   */
+  private async buildVideoText(video: VideoRecord): Promise<string> {
+    const sections = [video.title];
+    if (video.fullAnalysis) {
+      // Leave at least half the budget to the frames
+      sections.push(video.fullAnalysis.substring(0, this.maxChars / 2));
+    }
+
+    const enhancedFrames = await this.lancedbService.getEnhancedVideoFrames(
+      video.id,
+    );
+
+    if (enhancedFrames.length > 0) {
+      // Custom aspects follow the built-in ones, labelled by name
+      const builtIn = ASPECT_SECTIONS.map(([aspectType]) => aspectType);
+      const custom = [
+        ...new Set(enhancedFrames.map((frame) => frame.aspectType)),
+      ].filter((aspectType) => !builtIn.includes(aspectType));
+      const sectionsByAspect: Array<[AspectType, string]> = [
+        ...ASPECT_SECTIONS,
+        ...custom.map((aspectType): [AspectType, string] => [
+          aspectType,
+          aspectType.replace(/_/g, ' '),
+        ]),
+      ];
+
+      for (const [aspectType, label] of sectionsByAspect) {
+        const snippets = enhancedFrames
+          .filter((frame) => frame.aspectType === aspectType)
+          .map((frame) => frame.content);
+        if (snippets.length > 0) {
+          sections.push(`${label}: ${this.digest(snippets).join('; ')}`);
+        }
+      }
+    } else {
+      const frames = await this.lancedbService.getVideoFrames(video.id);
+      const snippets = frames.map((frame) => frame.description);
+      if (snippets.length > 0) {
+        sections.push(`Moments: ${this.digest(snippets).join('; ')}`);
+      }
+    }
+
+    return sections.join('\n').substring(0, this.maxChars);
+  }
+
+  /**
+   * Distinct frame texts without their "At MM:SS:" prefix, evenly spread
+   */
+  private digest(snippets: string[]): string[] {
+    const distinct = [
+      ...new Set(
+        snippets.map((snippet) =>
+          snippet.replace(/^At \d{1,2}:\d{2}(?::\d{2})?:\s*/, '').trim(),
+        ),
+      ),
+    ].filter(Boolean);
+
+    if (distinct.length <= SNIPPETS_PER_ASPECT) {
+      return distinct;
+    }
+
+    const step = distinct.length / SNIPPETS_PER_ASPECT;
+    return Array.from(
+      { length: SNIPPETS_PER_ASPECT },
+      (_, i) => distinct[Math.floor(i * step)],
+    );
+  }
+
+  /**
+   * Join search hits with their video records
+   * Hits whose video was deleted meanwhile are dropped
+   */
+  private async toResults(
+    hits: VideoVectorSearchResult[],
+  ): Promise<VideoSearchResult[]> {
+    const results: VideoSearchResult[] = [];
+
+    for (const hit of hits) {
+      const video = await this.lancedbService.getVideo(hit.videoId);
+      if (!video) {
+        continue;
+      }
+
+      results.push({
+        videoId: video.id,
+        title: video.title,
+        sourceUri: video.sourceUri,
+        duration: video.duration ?? undefined,
+        frameCount: Number(video.frameCount),
+        indexedAt: video.indexedAt,
+        summary: (video.fullAnalysis || '').substring(0, SUMMARY_EXCERPT_CHARS),
+        relevanceScore: hit._relevance,
+      });
+    }
+
+    return results;
+  }
+}
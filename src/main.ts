@@ -33,6 +33,9 @@ async function bootstrap() {
   // Enable CORS
   app.enableCors();
 
+  // Release the database lock when stopped with Ctrl+C or SIGTERM
+  app.enableShutdownHooks();
+
   await app.listen(port);
   logger.log(`Application is running on: http://localhost:${port}`);
   logger.log(`Video analysis endpoint: POST http://localhost:${port}/video/analyze`);
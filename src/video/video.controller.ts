@@ -300,7 +300,7 @@ export class VideoController {
    */
   @Get('chat/:sessionId')
   async getChatSession(@Param('sessionId') sessionId: string) {
-    const session = this.chatService.getSession(sessionId);
+    const session = await this.chatService.getSession(sessionId);
     if (!session) {
       return { error: 'Session not found' };
     }
@@ -328,7 +328,7 @@ export class VideoController {
    */
   @Get('chat')
   async listChatSessions() {
-    const sessions = this.chatService.listSessions();
+    const sessions = await this.chatService.listSessions();
     return sessions.map((s) => ({
       id: s.id,
       createdAt: s.createdAt,
@@ -1,24 +1,105 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import * as request from 'supertest';
 import { AppModule } from './../src/app.module';
+import { HttpExceptionFilter } from './../src/common/filters/http-exception.filter';
 
+/**
+ * Runs without network access: Gemini is replaced by the fake provider,
+ * which also serves the embeddings, and all storage lives in a temp directory
+ */
 describe('AppController (e2e)', () => {
   let app: INestApplication;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'deepcap-e2e-'));
+    Object.assign(process.env, {
+      GEMINI_PROVIDER: 'fake',
+      GEMINI_FAKE_FIXTURES: join(__dirname, 'fixtures', 'gemini'),
+      EMBEDDING_PROVIDER: 'gemini',
+      POLL_INTERVAL_MS: '10',
+      CLEANUP_INTERVAL_MS: '0',
+      LANCEDB_PATH: join(dataDir, 'lancedb'),
+      INDEX_JOBS_PATH: join(dataDir, 'jobs'),
+      RAG_SESSIONS_PATH: join(dataDir, 'rag-sessions'),
+      CHAT_SESSIONS_PATH: join(dataDir, 'chat-sessions'),
+      EMBEDDING_MIGRATIONS_PATH: join(dataDir, 'embedding-migrations'),
+      CUSTOM_ASPECTS_PATH: join(dataDir, 'aspects'),
+    });
 
-  beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
 
     app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    app.useGlobalFilters(new HttpExceptionFilter());
     await app.init();
   });
 
+  afterAll(async () => {
+    await app?.close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
       .expect(200)
-      .expect('Hello World!');
+      .expect('DeepCap Video Understanding API - Powered by Gemini 3 Flash');
   });
+
+  it('indexes a video, then searches and chats about it', async () => {
+    const server = app.getHttpServer();
+
+    const accepted = await request(server)
+      .post('/lancedb/index/advanced')
+      .attach('video', Buffer.from('fake video bytes'), {
+        filename: 'cooking-show.mp4',
+        contentType: 'video/mp4',
+      })
+      .expect(202);
+
+    let job = accepted.body;
+    for (
+      let i = 0;
+      i < 100 && !['completed', 'failed'].includes(job.status);
+      i++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      job = (await request(server).get(`/lancedb/jobs/${accepted.body.jobId}`))
+        .body;
+    }
+    expect(job.status).toBe('completed');
+    const videoId = job.result.videoId;
+
+    const search = await request(server)
+      .post('/lancedb/search/advanced')
+      .send({ query: 'red jacket', mode: 'vector', topK: 3 })
+      .expect(201);
+    expect(search.body.results[0]).toMatchObject({
+      videoId,
+      timestamp: '00:05',
+    });
+
+    const chat = await request(server)
+      .post('/lancedb/chat/advanced')
+      .send({ videoId, query: 'What is the chef wearing?' })
+      .expect(201);
+    expect(chat.body.answer).toBe(
+      'The chef is wearing a red jacket and a white apron [00:05].',
+    );
+    expect(chat.body.sources.length).toBeGreaterThan(0);
+  }, 30000);
 });